@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { IconButton } from '~/components/ui/IconButton';
+import { parseApiKeys } from '~/lib/modules/llm/key-pool';
 import type { ProviderInfo } from '~/types/model';
 import Cookies from 'js-cookie';
 
@@ -73,6 +74,8 @@ export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ provider, apiKey,
     checkEnvApiKey();
   }, [checkEnvApiKey]);
 
+  const keyCount = parseApiKeys(apiKey).length;
+
   const handleSave = () => {
     // Save to parent state
     setApiKey(tempKey);
@@ -95,7 +98,9 @@ export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ provider, apiKey,
               {apiKey ? (
                 <>
                   <div className="i-ph:check-circle-fill text-green-500 w-4 h-4" />
-                  <span className="text-xs text-green-500">Set via UI</span>
+                  <span className="text-xs text-green-500">
+                    {keyCount > 1 ? `${keyCount} keys set via UI` : 'Set via UI'}
+                  </span>
                 </>
               ) : isEnvKeySet ? (
                 <>
@@ -119,7 +124,7 @@ export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ provider, apiKey,
             <input
               type="password"
               value={tempKey}
-              placeholder="Enter API Key"
+              placeholder="Enter API Key, separate several with commas"
               onChange={(e) => setTempKey(e.target.value)}
               className="w-[300px] px-3 py-1.5 text-sm rounded border border-bolt-elements-borderColor 
                         bg-bolt-elements-prompt-background text-bolt-elements-textPrimary 
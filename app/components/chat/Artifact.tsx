@@ -4,10 +4,13 @@ import { computed } from 'nanostores';
 import { memo, useEffect, useRef, useState } from 'react';
 import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
 import type { ActionState } from '~/lib/runtime/action-runner';
+import { DEFAULT_TEST_COMMAND, getTestSummary, type TestReport } from '~/lib/runtime/test-report';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { classNames } from '~/utils/classNames';
 import { cubicEasingFn } from '~/utils/easings';
 import { WORK_DIR } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import { toast } from 'react-toastify';
 
 const highlighterOptions = {
   langs: ['shell'],
@@ -21,6 +24,10 @@ if (import.meta.hot) {
   import.meta.hot.data.shellHighlighter = shellHighlighter;
 }
 
+const logger = createScopedLogger('Artifact');
+
+const FILE_SYSTEM_ACTION_TYPES: ActionState['type'][] = ['file', 'patch', 'delete', 'move', 'mkdir'];
+
 interface ArtifactProps {
   messageId: string;
 }
@@ -35,10 +42,33 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
 
   const actions = useStore(
     computed(artifact.runner.actions, (actions) => {
-      return Object.values(actions);
+      return Object.entries(actions).map(([actionId, action]) => ({ ...action, actionId }));
     }),
   );
 
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  // bundled artifacts hide their actions, but commands waiting for approval always have to be visible
+  const hasPendingApproval = actions.some((action) => action.approval === 'pending');
+
+  const canRollback =
+    artifact.closed &&
+    !artifact.rolledBack &&
+    artifact.type !== 'bundled' &&
+    actions.some((action) => FILE_SYSTEM_ACTION_TYPES.includes(action.type));
+
+  const rollback = () => {
+    setIsRollingBack(true);
+
+    workbenchStore
+      .rollbackArtifact(messageId)
+      .catch((error) => {
+        logger.error('Failed to roll back artifact', error);
+        toast.error('Failed to roll back artifact');
+      })
+      .finally(() => setIsRollingBack(false));
+  };
+
   const toggleActions = () => {
     userToggledActions.current = true;
     setShowActions(!showActions);
@@ -82,10 +112,29 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
           )}
           <div className="px-5 p-3.5 w-full text-left">
             <div className="w-full text-bolt-elements-textPrimary font-medium leading-5 text-sm">{artifact?.title}</div>
-            <div className="w-full w-full text-bolt-elements-textSecondary text-xs mt-0.5">Click to open Workbench</div>
+            <div className="w-full w-full text-bolt-elements-textSecondary text-xs mt-0.5">
+              {artifact.rolledBack ? 'Changes rolled back' : 'Click to open Workbench'}
+            </div>
           </div>
         </button>
         <div className="bg-bolt-elements-artifacts-borderColor w-[1px]" />
+        {canRollback && (
+          <>
+            <button
+              className="bg-bolt-elements-artifacts-background hover:bg-bolt-elements-artifacts-backgroundHover"
+              title="Roll back artifact"
+              disabled={isRollingBack}
+              onClick={rollback}
+            >
+              <div className="p-4">
+                <div
+                  className={isRollingBack ? 'i-svg-spinners:90-ring-with-bg' : 'i-ph:arrow-counter-clockwise-bold'}
+                ></div>
+              </div>
+            </button>
+            <div className="bg-bolt-elements-artifacts-borderColor w-[1px]" />
+          </>
+        )}
         <AnimatePresence>
           {actions.length && artifact.type !== 'bundled' && (
             <motion.button
@@ -104,7 +153,7 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
         </AnimatePresence>
       </div>
       <AnimatePresence>
-        {artifact.type !== 'bundled' && showActions && actions.length > 0 && (
+        {((artifact.type !== 'bundled' && showActions) || hasPendingApproval) && actions.length > 0 && (
           <motion.div
             className="actions"
             initial={{ height: 0 }}
@@ -115,7 +164,10 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
             <div className="bg-bolt-elements-artifacts-borderColor h-[1px]" />
 
             <div className="p-5 text-left bg-bolt-elements-actions-background">
-              <ActionList actions={actions} />
+              <ActionList
+                actions={actions}
+                onApproval={(actionId, approved) => artifact.runner.resolveApproval(actionId, approved)}
+              />
             </div>
           </motion.div>
         )}
@@ -144,7 +196,8 @@ function ShellCodeBlock({ classsName, code }: ShellCodeBlockProps) {
 }
 
 interface ActionListProps {
-  actions: ActionState[];
+  actions: Array<ActionState & { actionId: string }>;
+  onApproval: (actionId: string, approved: boolean) => void;
 }
 
 const actionVariants = {
@@ -160,7 +213,7 @@ function openArtifactInWorkbench(filePath: any) {
   workbenchStore.setSelectedFile(`${WORK_DIR}/${filePath}`);
 }
 
-const ActionList = memo(({ actions }: ActionListProps) => {
+const ActionList = memo(({ actions, onApproval }: ActionListProps) => {
   return (
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
       <ul className="list-none space-y-2.5">
@@ -181,16 +234,20 @@ const ActionList = memo(({ actions }: ActionListProps) => {
             >
               <div className="flex items-center gap-1.5 text-sm">
                 <div className={classNames('text-lg', getIconColor(action.status))}>
-                  {status === 'running' ? (
+                  {action.approval === 'pending' ? (
+                    <div className="i-ph:shield-warning-duotone"></div>
+                  ) : status === 'running' ? (
                     <>
-                      {type !== 'start' ? (
-                        <div className="i-svg-spinners:90-ring-with-bg"></div>
-                      ) : (
+                      {type === 'start' && action.ready ? (
                         <div className="i-ph:terminal-window-duotone"></div>
+                      ) : (
+                        <div className="i-svg-spinners:90-ring-with-bg"></div>
                       )}
                     </>
                   ) : status === 'pending' ? (
                     <div className="i-ph:circle-duotone"></div>
+                  ) : status === 'complete' && type === 'test' && action.testReport?.failed ? (
+                    <div className="i-ph:x text-bolt-elements-icon-error"></div>
                   ) : status === 'complete' ? (
                     <div className="i-ph:check"></div>
                   ) : status === 'failed' || status === 'aborted' ? (
@@ -207,10 +264,60 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                       {action.filePath}
                     </code>
                   </div>
+                ) : type === 'patch' ? (
+                  <div>
+                    Update{' '}
+                    <code
+                      className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
+                      onClick={() => openArtifactInWorkbench(action.filePath)}
+                    >
+                      {action.filePath}
+                    </code>
+                  </div>
+                ) : type === 'delete' ? (
+                  <div className="flex items-center gap-1.5">
+                    <div className="i-ph:trash shrink-0"></div>
+                    Delete
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.filePath}
+                    </code>
+                  </div>
+                ) : type === 'move' ? (
+                  <div className="flex items-center gap-1.5">
+                    <div className="i-ph:arrow-right shrink-0"></div>
+                    Move
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.filePath}
+                    </code>
+                    to
+                    <code
+                      className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md text-bolt-elements-item-contentAccent hover:underline cursor-pointer"
+                      onClick={() => openArtifactInWorkbench(action.newFilePath)}
+                    >
+                      {action.newFilePath}
+                    </code>
+                  </div>
+                ) : type === 'mkdir' ? (
+                  <div className="flex items-center gap-1.5">
+                    <div className="i-ph:folder-plus shrink-0"></div>
+                    Create folder
+                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+                      {action.filePath}
+                    </code>
+                  </div>
                 ) : type === 'shell' ? (
                   <div className="flex items-center w-full min-h-[28px]">
                     <span className="flex-1">Run command</span>
                   </div>
+                ) : type === 'test' ? (
+                  <div className="flex items-center w-full min-h-[28px]">
+                    <span className="flex-1">Run tests</span>
+                    {action.testReport && (
+                      <span className="text-xs text-bolt-elements-textTertiary">
+                        {getTestSummary(action.testReport)}
+                      </span>
+                    )}
+                  </div>
                 ) : type === 'start' ? (
                   <a
                     onClick={(e) => {
@@ -220,17 +327,46 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     className="flex items-center w-full min-h-[28px]"
                   >
                     <span className="flex-1">Start Application</span>
+                    {status === 'running' && (
+                      <span
+                        className={classNames('text-xs', {
+                          'text-bolt-elements-icon-success': !!action.ready,
+                          'text-bolt-elements-textTertiary': !action.ready,
+                        })}
+                      >
+                        {action.ready ? 'Ready' : 'Waiting for server'}
+                      </span>
+                    )}
                   </a>
                 ) : null}
+                {action.approval === 'pending' && (
+                  <div className="flex items-center gap-1.5 ml-auto">
+                    <button
+                      className="px-2 py-0.5 rounded-md text-xs bg-bolt-elements-button-primary-background hover:bg-bolt-elements-button-primary-backgroundHover text-bolt-elements-button-primary-text"
+                      onClick={() => onApproval(action.actionId, true)}
+                    >
+                      Approve
+                    </button>
+                    <button
+                      className="px-2 py-0.5 rounded-md text-xs bg-bolt-elements-button-secondary-background hover:bg-bolt-elements-button-secondary-backgroundHover text-bolt-elements-button-secondary-text"
+                      onClick={() => onApproval(action.actionId, false)}
+                    >
+                      Reject
+                    </button>
+                  </div>
+                )}
               </div>
-              {(type === 'shell' || type === 'start') && (
+              {(type === 'shell' || type === 'start' || type === 'test') && (
                 <ShellCodeBlock
                   classsName={classNames('mt-1', {
-                    'mb-3.5': !isLast,
+                    'mb-3.5': !isLast && !(type === 'test' && action.testReport?.failed),
                   })}
-                  code={content}
+                  code={type === 'test' ? content.trim() || DEFAULT_TEST_COMMAND : content}
                 />
               )}
+              {type === 'test' && action.testReport && action.testReport.failed > 0 && (
+                <FailingTests report={action.testReport} className={classNames({ 'mb-3.5': !isLast })} />
+              )}
             </motion.li>
           );
         })}
@@ -239,6 +375,35 @@ const ActionList = memo(({ actions }: ActionListProps) => {
   );
 });
 
+// long assertion diffs would push the rest of the artifact out of view
+const MAX_FAILURE_PREVIEW_LENGTH = 200;
+
+function FailingTests({ report, className }: { report: TestReport; className?: string }) {
+  const failures = report.tests.filter((test) => test.status === 'failed');
+
+  return (
+    <ul className={classNames('mt-1 list-none space-y-1.5 text-xs', className)}>
+      {failures.map((test, index) => (
+        <li key={index} className="rounded-md bg-bolt-elements-artifacts-inlineCode-background px-2 py-1.5">
+          <div className="flex items-center gap-1 text-bolt-elements-textPrimary">
+            <div className="i-ph:x-circle text-bolt-elements-icon-error shrink-0"></div>
+            <span className="truncate">
+              {test.file} &gt; {test.name}
+            </span>
+          </div>
+          {test.message && (
+            <pre className="mt-1 whitespace-pre-wrap break-words text-bolt-elements-textTertiary">
+              {test.message.length > MAX_FAILURE_PREVIEW_LENGTH
+                ? `${test.message.slice(0, MAX_FAILURE_PREVIEW_LENGTH)}…`
+                : test.message}
+            </pre>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 function getIconColor(status: ActionState['status']) {
   switch (status) {
     case 'pending': {
@@ -1,6 +1,8 @@
 import { memo } from 'react';
 import { Markdown } from './Markdown';
 import type { JSONValue } from 'ai';
+import type { RespondingModel } from '~/types/model';
+import { summarizeResponse, type ComparisonRecord } from '~/lib/runtime/comparison';
 
 interface AssistantMessageProps {
   content: string;
@@ -17,6 +19,12 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
     promptTokens: number;
     totalTokens: number;
   } = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
+  const respondingModel: RespondingModel | undefined = filteredAnnotations.find(
+    (annotation) => annotation.type === 'model',
+  )?.value;
+  const comparisons: ComparisonRecord[] = filteredAnnotations
+    .filter((annotation) => annotation.type === 'comparison')
+    .map((annotation) => annotation.value);
 
   return (
     <div className="overflow-hidden w-full">
@@ -25,7 +33,27 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
           Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
         </div>
       )}
+      {respondingModel?.isFallback && (
+        <div className="flex items-center gap-1 text-sm text-bolt-elements-textSecondary mb-2">
+          <div className="i-ph:arrows-clockwise" />
+          Answered by fallback model {respondingModel.provider} / {respondingModel.model}
+        </div>
+      )}
       <Markdown html>{content}</Markdown>
+      {comparisons.map((comparison) => (
+        <details
+          key={`${comparison.provider}/${comparison.model}`}
+          className="mt-4 text-sm text-bolt-elements-textSecondary border-t border-bolt-elements-borderColor pt-2"
+        >
+          <summary className="flex items-center gap-1 cursor-pointer">
+            <div className="i-ph:columns" />
+            Picked over {comparison.provider} / {comparison.model}
+          </summary>
+          <div className="mt-2 opacity-80">
+            <Markdown>{summarizeResponse(comparison.content).text}</Markdown>
+          </div>
+        </details>
+      ))}
     </div>
   );
 });
@@ -3,7 +3,8 @@
  * Preventing TS checks with files presented in the video for a better presentation.
  */
 import type { Message } from 'ai';
-import React, { type RefCallback, useCallback, useEffect, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import React, { type RefCallback, useCallback, useEffect, useMemo, useState } from 'react';
 import { ClientOnly } from 'remix-utils/client-only';
 import { Menu } from '~/components/sidebar/Menu.client';
 import { IconButton } from '~/components/ui/IconButton';
@@ -26,13 +27,18 @@ import GitCloneButton from './GitCloneButton';
 import FilePreview from './FilePreview';
 import { ModelSelector } from '~/components/chat/ModelSelector';
 import { SpeechRecognitionButton } from '~/components/chat/SpeechRecognition';
-import type { IProviderSetting, ProviderInfo } from '~/types/model';
+import type { IProviderSetting, ModelFallback, ProviderInfo } from '~/types/model';
 import { ScreenshotStateManager } from './ScreenshotStateManager';
 import { toast } from 'react-toastify';
 import type { ActionAlert } from '~/types/actions';
 import ChatAlert from './ChatAlert';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import { estimateTokens, getModelWarnings, type ModelRequirements } from '~/lib/modules/llm/capabilities';
+import { toolCallingStore } from '~/lib/stores/settings';
+import { workbenchStore } from '~/lib/stores/workbench';
 import { Link } from '@remix-run/react';
+import type { ComparedResponse } from '~/lib/runtime/comparison';
+import { CompareModelPicker, ComparisonPanes } from './ModelComparison';
 
 const TEXTAREA_MIN_HEIGHT = 76;
 
@@ -66,6 +72,15 @@ interface BaseChatProps {
   actionAlert?: ActionAlert;
   clearAlert?: () => void;
   showWorkbench?: boolean;
+
+  /**
+   * Set while compare mode is on, the next message goes to this model as well as the selected one.
+   */
+  compareModel?: ModelFallback;
+  setCompareModel?: (model?: ModelFallback) => void;
+  comparedResponses?: ComparedResponse[];
+  pickComparedResponse?: (index: number) => void;
+  discardComparison?: () => void;
 }
 
 interface ModelSettingsDialogProps {
@@ -79,7 +94,9 @@ interface ModelSettingsDialogProps {
   apiKeys: Record<string, string>;
   modelList: any[];
   onApiKeysChange: (providerName: string, apiKey: string) => void;
+  onRefreshModels: () => void;
   isModelLoading?: string;
+  requirements?: ModelRequirements;
 }
 
 const ModelSettingsDialog = ({
@@ -93,7 +110,9 @@ const ModelSettingsDialog = ({
   apiKeys,
   modelList,
   onApiKeysChange,
+  onRefreshModels,
   isModelLoading,
+  requirements,
 }: ModelSettingsDialogProps) => {
   return (
     <DialogRoot open={open}>
@@ -136,12 +155,14 @@ const ModelSettingsDialog = ({
                     providerList={providerList || (PROVIDER_LIST as ProviderInfo[])}
                     apiKeys={apiKeys}
                     modelLoading={isModelLoading}
+                    requirements={requirements}
+                    onRefreshModels={onRefreshModels}
                   />
                 </div>
               </div>
 
               {/* API Key Section */}
-              {(providerList || []).length > 0 && provider && provider.name !== 'Val-X' && (
+              {(providerList || []).length > 0 && provider && !LLMManager.getInstance().isPersona(provider.name) && (
                 <div className="space-y-4">
                   <h3 className="text-base font-medium text-[#E879F9] flex items-center gap-3">
                     <div className="i-ph:key-duotone text-lg" />
@@ -212,6 +233,11 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       actionAlert,
       clearAlert,
       showWorkbench = true,
+      compareModel,
+      setCompareModel,
+      comparedResponses = [],
+      pickComparedResponse,
+      discardComparison,
     },
     ref,
   ) => {
@@ -226,6 +252,26 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
     const [retryCount, setRetryCount] = useState(0);
     const [isInitialStart, setIsInitialStart] = useState(true);
     const [retryTimeout, setRetryTimeout] = useState<NodeJS.Timeout | null>(null);
+    const toolCallingEnabled = useStore(toolCallingStore);
+    const files = useStore(workbenchStore.files);
+
+    const projectTokens = useMemo(
+      () =>
+        Object.entries(files).reduce(
+          (tokens, [path, dirent]) =>
+            dirent?.type === 'file' && !dirent.isBinary && !path.includes('/node_modules/')
+              ? tokens + estimateTokens(dirent.content)
+              : tokens,
+          0,
+        ),
+      [files],
+    );
+
+    const modelRequirements: ModelRequirements = { vision: imageDataList.length > 0, toolUse: toolCallingEnabled };
+    const modelWarnings = getModelWarnings(
+      modelList.find((m) => m.provider === provider?.name && m.name === model),
+      { imageCount: imageDataList.length, toolCalling: toolCallingEnabled, projectTokens },
+    );
 
     const getProviderSettings = useCallback(() => {
       let providerSettings: Record<string, IProviderSetting> | undefined = undefined;
@@ -527,18 +573,8 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
         setIsModelLoading(providerName);
 
         try {
-          const providerSettings = getProviderSettings();
-          const staticModels = provider.staticModels;
-          const dynamicModels = await provider.getDynamicModels(
-            newApiKeys,
-            providerSettings,
-            import.meta.env || process.env || {},
-          );
-
-          setModelList((preModels) => {
-            const filteredOutPreModels = preModels.filter((x) => x.provider !== providerName);
-            return [...filteredOutPreModels, ...staticModels, ...dynamicModels];
-          });
+          // the new key changes the cache key, so this lists the models with it
+          setModelList(await initializeModelList({}));
         } catch (error) {
           console.error('Error loading dynamic models:', error);
         }
@@ -546,6 +582,18 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       }
     };
 
+    const refreshModelList = async () => {
+      setIsModelLoading('all');
+
+      try {
+        setModelList(await initializeModelList({ refresh: true }));
+      } catch (error) {
+        console.error('Error refreshing the model list:', error);
+        toast.error('Failed to refresh the models');
+      }
+      setIsModelLoading(undefined);
+    };
+
     const handleSendMessage = (event: React.UIEvent, messageInput?: string) => {
       if (sendMessage) {
         sendMessage(event, messageInput);
@@ -657,12 +705,21 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
               <ClientOnly>
                 {() => {
                   return chatStarted ? (
-                    <Messages
-                      ref={messageRef}
-                      className="flex flex-col w-full flex-1 max-w-chat pb-6 mx-auto z-1"
-                      messages={messages}
-                      isStreaming={isStreaming}
-                    />
+                    <>
+                      <Messages
+                        ref={messageRef}
+                        className="flex flex-col w-full flex-1 max-w-chat pb-6 mx-auto z-1"
+                        messages={messages}
+                        isStreaming={isStreaming}
+                      />
+                      {comparedResponses.length > 0 && (
+                        <ComparisonPanes
+                          responses={comparedResponses}
+                          onPick={(index) => pickComparedResponse?.(index)}
+                          onDiscard={() => discardComparison?.()}
+                        />
+                      )}
+                    </>
                   ) : null;
                 }}
               </ClientOnly>
@@ -735,11 +792,40 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                           apiKeys={apiKeys}
                           modelList={modelList}
                           onApiKeysChange={onApiKeysChange}
+                          onRefreshModels={refreshModelList}
                           isModelLoading={isModelLoading}
+                          requirements={modelRequirements}
                         />
                       )}
                     </ClientOnly>
                   </div>
+                  {modelWarnings.length > 0 && (
+                    <div className="mb-2 space-y-1">
+                      {modelWarnings.map((warning) => (
+                        <div
+                          key={warning}
+                          className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs border border-bolt-elements-borderColor bg-bolt-elements-bg-depth-2 text-bolt-elements-textSecondary"
+                        >
+                          <div className="i-ph:warning-duotone text-base text-yellow-500 shrink-0" />
+                          <span className="flex-1">{warning}</span>
+                          <button
+                            className="underline hover:text-bolt-elements-textPrimary"
+                            onClick={() => setIsModelSettingsOpen(true)}
+                          >
+                            Change model
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {compareModel && (
+                    <CompareModelPicker
+                      model={compareModel}
+                      providerList={providerList || []}
+                      modelList={modelList}
+                      onChange={(model) => setCompareModel?.(model)}
+                    />
+                  )}
                   <FilePreview
                     files={uploadedFiles}
                     imageDataList={imageDataList}
@@ -894,6 +980,32 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                           {<span className="text-xs">{model}</span>}
                           <div className={`i-ph:caret-${isModelSettingsOpen ? 'right' : 'down'} text-lg`} />
                         </IconButton>
+                        {setCompareModel && (
+                          <IconButton
+                            title={compareModel ? 'Stop comparing models' : 'Compare with another model'}
+                            className={classNames('transition-all', {
+                              'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent':
+                                !!compareModel,
+                            })}
+                            onClick={() => {
+                              const otherModel = modelList.find(
+                                (m) => m.provider !== provider?.name || m.name !== model,
+                              );
+
+                              setCompareModel(
+                                compareModel
+                                  ? undefined
+                                  : {
+                                      provider: otherModel?.provider ?? provider?.name ?? '',
+                                      model: otherModel?.name ?? '',
+                                    },
+                              );
+                            }}
+                            disabled={!providerList || providerList.length === 0}
+                          >
+                            <div className="i-ph:columns text-xl" />
+                          </IconButton>
+                        )}
                       </div>
                       {input.length > 3 ? (
                         <div className="text-xs text-bolt-elements-textTertiary">
@@ -6,23 +6,38 @@ import { useStore } from '@nanostores/react';
 import type { Message } from 'ai';
 import { useChat } from 'ai/react';
 import { useAnimate } from 'framer-motion';
-import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
-import { useMessageParser, usePromptEnhancer, useShortcuts, useSnapScroll } from '~/lib/hooks';
+import { useMessageParser, useModelComparison, usePromptEnhancer, useShortcuts, useSnapScroll } from '~/lib/hooks';
 import { description, useChatHistory } from '~/lib/persistence';
-import { chatStore } from '~/lib/stores/chat';
+import { chatStore, contextAllocationStore } from '~/lib/stores/chat';
+import { withoutBinaryFiles } from '~/lib/stores/files';
 import { workbenchStore } from '~/lib/stores/workbench';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
+import {
+  DEFAULT_MODEL,
+  DEFAULT_PROVIDER,
+  PROMPT_COOKIE_KEY,
+  PROVIDER_LIST,
+  TEST_RESULTS_TAG_NAME,
+} from '~/utils/constants';
 import { cubicEasingFn } from '~/utils/easings';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { BaseChat } from './BaseChat';
 import Cookies from 'js-cookie';
 import { debounce } from '~/utils/debounce';
 import { useSettings } from '~/lib/hooks/useSettings';
-import type { ProviderInfo } from '~/types/model';
+import type { ModelFallback, ProviderInfo } from '~/types/model';
+import type { ContextAllocation } from '~/types/context';
 import { useSearchParams } from '@remix-run/react';
 import { createSampler } from '~/utils/sampler';
 import { getTemplates, selectStarterTemplate } from '~/utils/selectStarterTemplate';
+import {
+  countAutoFixAttempts,
+  createAutoFixAnnotation,
+  createAutoFixPrompt,
+  isAutoFixable,
+} from '~/lib/runtime/auto-fix';
+import { createPickedMessages, createUserContent } from '~/lib/runtime/comparison';
 
 const toastAnimation = cssTransition({
   enter: 'animated fadeInRight',
@@ -119,8 +134,10 @@ export const ChatImpl = memo(
     const [searchParams, setSearchParams] = useSearchParams();
     const [fakeLoading, setFakeLoading] = useState(false);
     const files = useStore(workbenchStore.files);
+    const requestFiles = useMemo(() => withoutBinaryFiles(files), [files]);
     const actionAlert = useStore(workbenchStore.alert);
-    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled } = useSettings();
+    const { activeProviders, promptId, autoSelectTemplate, contextOptimizationEnabled, toolCallingEnabled, autoFix } =
+      useSettings();
 
     const [model, setModel] = useState(() => {
       const savedModel = Cookies.get('selectedModel');
@@ -136,15 +153,25 @@ export const ChatImpl = memo(
     const [animationScope, animate] = useAnimate();
 
     const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
+    const [compareModel, setCompareModel] = useState<ModelFallback>();
+    const {
+      responses: comparedResponses,
+      userMessage: comparedUserMessage,
+      isComparing,
+      compare,
+      stopComparison,
+      clearComparison,
+    } = useModelComparison();
 
     const { messages, isLoading, input, handleInputChange, setInput, stop, append, setMessages, reload, error } =
       useChat({
         api: '/api/chat',
         body: {
           apiKeys,
-          files,
+          files: requestFiles,
           promptId,
           contextOptimization: contextOptimizationEnabled,
+          toolCalling: toolCallingEnabled,
         },
         sendExtraMessageFields: true,
         onError: (e) => {
@@ -155,6 +182,16 @@ export const ChatImpl = memo(
         },
         onFinish: (message, response) => {
           const usage = response.usage;
+          const contextAllocation = message.annotations?.find(
+            (annotation) =>
+              annotation &&
+              typeof annotation === 'object' &&
+              (annotation as { type?: string }).type === 'contextAllocation',
+          );
+
+          if (contextAllocation) {
+            contextAllocationStore.set((contextAllocation as { value: ContextAllocation } | undefined)?.value);
+          }
 
           if (usage) {
             console.log('Token usage:', usage);
@@ -206,6 +243,38 @@ export const ChatImpl = memo(
       });
     }, [messages, isLoading, parseMessages]);
 
+    useEffect(() => {
+      if (!actionAlert?.messageId || isLoading || !autoFix.enabled || !isAutoFixable(actionAlert)) {
+        return;
+      }
+
+      // alerts of older artifacts are left to the user, only the latest response gets fixed
+      const lastAssistantMessage = messages.findLast((message) => message.role === 'assistant');
+
+      if (lastAssistantMessage?.id !== actionAlert.messageId) {
+        return;
+      }
+
+      const attempts = countAutoFixAttempts(messages, actionAlert.messageId);
+
+      if (attempts >= autoFix.maxAttempts) {
+        logger.info(`Giving up auto-fix after ${attempts} attempts`);
+        return;
+      }
+
+      const attempt = { attempt: attempts + 1, maxAttempts: autoFix.maxAttempts, header: actionAlert.description };
+
+      logger.info(`Auto-fix attempt ${attempt.attempt} of ${attempt.maxAttempts}`);
+
+      workbenchStore.clearAlert();
+
+      append({
+        role: 'user',
+        content: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${createAutoFixPrompt(actionAlert, attempt)}`,
+        annotations: ['hidden', createAutoFixAnnotation(attempt)],
+      });
+    }, [actionAlert, isLoading]);
+
     const scrollTextArea = () => {
       const textarea = textareaRef.current;
 
@@ -216,6 +285,7 @@ export const ChatImpl = memo(
 
     const abort = () => {
       stop();
+      stopComparison();
       chatStore.setKey('aborted', true);
       workbenchStore.abortAllActions();
     };
@@ -251,7 +321,7 @@ export const ChatImpl = memo(
     const sendMessage = async (_event: React.UIEvent, messageInput?: string) => {
       const _input = messageInput || input;
 
-      if (_input.length === 0 || isLoading) {
+      if (_input.length === 0 || isLoading || isComparing) {
         return;
       }
 
@@ -274,6 +344,24 @@ export const ChatImpl = memo(
 
       runAnimation();
 
+      if (compareModel) {
+        compare({
+          messages,
+          userMessage: { role: 'user', content: createUserContent(_input, imageDataList) },
+          models: [{ provider: provider.name, model }, compareModel],
+          body: { apiKeys, files: requestFiles, promptId, contextOptimization: contextOptimizationEnabled },
+        });
+
+        setInput('');
+        Cookies.remove(PROMPT_COOKIE_KEY);
+        setUploadedFiles([]);
+        setImageDataList([]);
+        resetEnhancer();
+        textareaRef.current?.blur();
+
+        return;
+      }
+
       if (!chatStarted && messageInput && autoSelectTemplate) {
         setFakeLoading(true);
         setMessages([
@@ -386,6 +474,12 @@ export const ChatImpl = memo(
         }
       }
 
+      // failing tests from the last response are passed along so the model can fix them
+      const testResults = workbenchStore.getTestResults();
+      const messageText = testResults
+        ? `<${TEST_RESULTS_TAG_NAME}>\n${testResults}\n</${TEST_RESULTS_TAG_NAME}>\n\n${_input}`
+        : _input;
+
       if (fileModifications !== undefined) {
         /**
          * If we have file modifications we append a new user message manually since we have to prefix
@@ -399,7 +493,7 @@ export const ChatImpl = memo(
           content: [
             {
               type: 'text',
-              text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${_input}`,
+              text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${messageText}`,
             },
             ...imageDataList.map((imageData) => ({
               type: 'image',
@@ -419,7 +513,7 @@ export const ChatImpl = memo(
           content: [
             {
               type: 'text',
-              text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${_input}`,
+              text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${messageText}`,
             },
             ...imageDataList.map((imageData) => ({
               type: 'image',
@@ -429,6 +523,8 @@ export const ChatImpl = memo(
         });
       }
 
+      workbenchStore.resetTestResults();
+
       setInput('');
       Cookies.remove(PROMPT_COOKIE_KEY);
 
@@ -481,6 +577,16 @@ export const ChatImpl = memo(
       Cookies.set('selectedProvider', newProvider.name, { expires: 30 });
     };
 
+    // the picked response goes into the chat like any other, which is when its artifact reaches the workbench
+    const pickComparedResponse = (index: number) => {
+      if (!comparedUserMessage) {
+        return;
+      }
+
+      setMessages([...messages, ...createPickedMessages(comparedUserMessage, comparedResponses, index)]);
+      clearComparison();
+    };
+
     return (
       <BaseChat
         ref={animationScope}
@@ -488,7 +594,7 @@ export const ChatImpl = memo(
         input={input}
         showChat={showChat}
         chatStarted={chatStarted}
-        isStreaming={isLoading || fakeLoading}
+        isStreaming={isLoading || fakeLoading || isComparing}
         enhancingPrompt={enhancingPrompt}
         promptEnhanced={promptEnhanced}
         sendMessage={sendMessage}
@@ -536,6 +642,11 @@ export const ChatImpl = memo(
         actionAlert={actionAlert}
         clearAlert={() => workbenchStore.clearAlert()}
         showWorkbench={workbenchStore.showWorkbench.get()}
+        compareModel={compareModel}
+        setCompareModel={setCompareModel}
+        comparedResponses={comparedResponses}
+        pickComparedResponse={pickComparedResponse}
+        discardComparison={clearComparison}
       />
     );
   },
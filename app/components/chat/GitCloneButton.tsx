@@ -6,6 +6,7 @@ import { generateId } from '~/utils/fileUtils';
 import { useState } from 'react';
 import { toast } from 'react-toastify';
 import { LoadingOverlay } from '~/components/ui/LoadingOverlay';
+import { createFileActionTag } from '~/lib/runtime/message-parser';
 
 const IGNORE_PATTERNS = [
   'node_modules/**',
@@ -79,14 +80,7 @@ export default function GitCloneButton({ importChat }: GitCloneButtonProps) {
             role: 'assistant',
             content: `Cloning the repo ${repoUrl} into ${workdir}
 <boltArtifact id="imported-files" title="Git Cloned Files" type="bundled">
-${fileContents
-  .map(
-    (file) =>
-      `<boltAction type="file" filePath="${file.path}">
-${file.content}
-</boltAction>`,
-  )
-  .join('\n')}
+${fileContents.map((file) => createFileActionTag(file.path, file.content)).join('\n')}
 </boltArtifact>`,
             id: generateId(),
             createdAt: new Date(),
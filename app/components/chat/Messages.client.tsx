@@ -8,6 +8,7 @@ import { db, chatId } from '~/lib/persistence/useChatHistory';
 import { forkChat } from '~/lib/persistence/db';
 import { toast } from 'react-toastify';
 import WithTooltip from '~/components/ui/Tooltip';
+import { getAutoFixAttempt } from '~/lib/runtime/auto-fix';
 
 interface MessagesProps {
   id?: string;
@@ -51,7 +52,24 @@ export const Messages = React.forwardRef<HTMLDivElement, MessagesProps>((props:
             const isHidden = annotations?.includes('hidden');
 
             if (isHidden) {
-              return <Fragment key={index} />;
+              const autoFixAttempt = getAutoFixAttempt(message);
+
+              if (!autoFixAttempt) {
+                return <Fragment key={index} />;
+              }
+
+              return (
+                <div
+                  key={index}
+                  className="flex items-center gap-2 mt-4 px-6 text-sm text-bolt-elements-textSecondary"
+                  title={autoFixAttempt.header}
+                >
+                  <div className="i-ph:wrench-duotone text-lg shrink-0"></div>
+                  <span className="truncate">
+                    Auto-fix attempt {autoFixAttempt.attempt} of {autoFixAttempt.maxAttempts}: {autoFixAttempt.header}
+                  </span>
+                </div>
+              );
             }
 
             return (
@@ -0,0 +1,150 @@
+import { useMemo, useState } from 'react';
+import { Markdown } from './Markdown';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import { summarizeResponse, type ComparedResponse } from '~/lib/runtime/comparison';
+import type { BoltAction } from '~/types/actions';
+import type { ModelFallback, ProviderInfo } from '~/types/model';
+import { classNames } from '~/utils/classNames';
+
+interface CompareModelPickerProps {
+  model: ModelFallback;
+  providerList: ProviderInfo[];
+  modelList: ModelInfo[];
+  onChange: (model: ModelFallback) => void;
+}
+
+/**
+ * Picks the model the selected one is compared with.
+ */
+export function CompareModelPicker({ model, providerList, modelList, onChange }: CompareModelPickerProps) {
+  return (
+    <div className="flex items-center gap-2 mb-2 text-xs text-bolt-elements-textSecondary">
+      <div className="i-ph:columns-duotone text-base shrink-0" />
+      <span className="shrink-0">Compare with</span>
+      <select
+        value={model.provider}
+        onChange={(e) =>
+          onChange({
+            provider: e.target.value,
+            model: modelList.find((m) => m.provider === e.target.value)?.name ?? '',
+          })
+        }
+        className="p-1.5 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all"
+      >
+        {providerList.map((p) => (
+          <option key={p.name} value={p.name}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={model.model}
+        list="compare-model-options"
+        placeholder="Model name"
+        onChange={(e) => onChange({ ...model, model: e.target.value })}
+        className="flex-1 p-1.5 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all min-w-[100px]"
+      />
+      <datalist id="compare-model-options">
+        {modelList
+          .filter((m) => m.provider === model.provider)
+          .map((m) => (
+            <option key={m.name} value={m.name} label={m.label} />
+          ))}
+      </datalist>
+    </div>
+  );
+}
+
+interface ComparisonPanesProps {
+  responses: ComparedResponse[];
+  onPick: (index: number) => void;
+  onDiscard: () => void;
+}
+
+/**
+ * The compared responses next to each other. Their artifacts are only listed, they run once a response is picked.
+ */
+export function ComparisonPanes({ responses, onPick, onDiscard }: ComparisonPanesProps) {
+  const isStreaming = responses.some((response) => response.isStreaming);
+
+  return (
+    <div className="w-full max-w-chat mx-auto mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {responses.map((response, index) => (
+          <ComparisonPane
+            key={`${response.provider}/${response.model}/${index}`}
+            response={response}
+            onPick={() => onPick(index)}
+          />
+        ))}
+      </div>
+      <div className="flex justify-end mt-2">
+        <button
+          onClick={onDiscard}
+          className="text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary underline"
+        >
+          {isStreaming ? 'Stop and discard' : 'Discard both'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ComparisonPane({ response, onPick }: { response: ComparedResponse; onPick: () => void }) {
+  const [showActions, setShowActions] = useState(true);
+  const { text, actions } = useMemo(() => summarizeResponse(response.content), [response.content]);
+
+  return (
+    <div className="flex flex-col min-w-0 p-4 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-messages-background">
+      <div className="flex items-center gap-2 mb-2 text-sm text-bolt-elements-textSecondary">
+        {response.isStreaming && <div className="i-svg-spinners:90-ring-with-bg text-bolt-elements-loader-progress" />}
+        <span className="flex-1 truncate" title={`${response.provider} / ${response.model}`}>
+          {response.provider} / {response.model}
+        </span>
+        <button
+          onClick={onPick}
+          disabled={response.isStreaming || !!response.error || response.content.length === 0}
+          className="px-2 py-1 rounded-lg text-xs bg-bolt-elements-button-primary-background hover:bg-bolt-elements-button-primary-backgroundHover text-bolt-elements-button-primary-text disabled:opacity-50"
+        >
+          Use this response
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-hidden text-sm">
+        <Markdown>{text}</Markdown>
+      </div>
+
+      {actions.length > 0 && (
+        <div className="mt-2 border-t border-bolt-elements-borderColor pt-2">
+          <button
+            onClick={() => setShowActions(!showActions)}
+            className="flex items-center gap-1 text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+          >
+            <div className={classNames(showActions ? 'i-ph:caret-down' : 'i-ph:caret-right')} />
+            {actions.length} {actions.length === 1 ? 'action' : 'actions'}
+          </button>
+          {showActions && (
+            <ul className="mt-1 space-y-0.5 text-xs font-mono text-bolt-elements-textTertiary">
+              {actions.map((action, index) => (
+                <li key={index} className="truncate">
+                  {action.type} {getActionTarget(action)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {response.error && <p className="mt-2 text-xs text-bolt-elements-icon-error break-words">{response.error}</p>}
+    </div>
+  );
+}
+
+function getActionTarget(action: BoltAction) {
+  if (action.type === 'move') {
+    return `${action.filePath} → ${action.newFilePath}`;
+  }
+
+  return 'filePath' in action ? action.filePath : action.content.trim().split('\n')[0];
+}
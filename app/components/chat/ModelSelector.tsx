@@ -1,6 +1,17 @@
+import { useStore } from '@nanostores/react';
 import type { ProviderInfo } from '~/types/model';
 import { useEffect } from 'react';
-import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { ModelInfo, ProviderHealth } from '~/lib/modules/llm/types';
+import {
+  formatPricing,
+  formatTokenCount,
+  meetsRequirements,
+  type ModelRequirements,
+} from '~/lib/modules/llm/capabilities';
+import { checkingProvidersStore, checkProviderHealth, providerHealthStore } from '~/lib/stores/provider-health';
+
+// a check costs a request to the provider, recent results are reused when switching back and forth
+const HEALTH_MAX_AGE_MS = 5 * 60 * 1000;
 
 interface ModelSelectorProps {
   model?: string;
@@ -11,6 +22,16 @@ interface ModelSelectorProps {
   providerList: ProviderInfo[];
   apiKeys: Record<string, string>;
   modelLoading?: string;
+
+  /**
+   * Hides the models that are known to lack a capability the chat needs, e.g. vision for attached images.
+   */
+  requirements?: ModelRequirements;
+
+  /**
+   * Lists the models of the providers again instead of using the cached lists.
+   */
+  onRefreshModels?: () => void;
 }
 
 export const ModelSelector = ({
@@ -21,7 +42,27 @@ export const ModelSelector = ({
   modelList,
   providerList,
   modelLoading,
+  requirements = {},
+  onRefreshModels,
 }: ModelSelectorProps) => {
+  const providerHealth = useStore(providerHealthStore);
+  const checkingProviders = useStore(checkingProvidersStore);
+
+  useEffect(() => {
+    if (!provider) {
+      return;
+    }
+
+    const health = providerHealthStore.get()[provider.name];
+
+    if (
+      !checkingProvidersStore.get()[provider.name] &&
+      (!health || Date.now() - health.checkedAt > HEALTH_MAX_AGE_MS)
+    ) {
+      checkProviderHealth([provider.name]);
+    }
+  }, [provider?.name]);
+
   // Load enabled providers from cookies
 
   // Update enabled providers when cookies change
@@ -55,52 +96,148 @@ export const ModelSelector = ({
     );
   }
 
+  const selectedModel = modelList.find((m) => m.provider === provider?.name && m.name === model);
+
   return (
-    <div className="mb-2 flex gap-2 flex-col sm:flex-row">
-      <select
-        value={provider?.name ?? ''}
-        onChange={(e) => {
-          const newProvider = providerList.find((p: ProviderInfo) => p.name === e.target.value);
-
-          if (newProvider && setProvider) {
-            setProvider(newProvider);
-          }
-
-          const firstModel = [...modelList].find((m) => m.provider === e.target.value);
-
-          if (firstModel && setModel) {
-            setModel(firstModel.name);
-          }
-        }}
-        className="flex-1 p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all"
-      >
-        {providerList.map((provider: ProviderInfo) => (
-          <option key={provider.name} value={provider.name}>
-            {provider.name}
-          </option>
-        ))}
-      </select>
-      <select
-        key={provider?.name}
-        value={model}
-        onChange={(e) => setModel?.(e.target.value)}
-        className="flex-1 p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all lg:max-w-[70%]"
-        disabled={modelLoading === 'all' || modelLoading === provider?.name}
-      >
-        {modelLoading == 'all' || modelLoading == provider?.name ? (
-          <option key={0} value="">
-            Loading...
-          </option>
-        ) : (
-          [...modelList]
-            .filter((e) => e.provider == provider?.name && e.name)
-            .map((modelOption, index) => (
-              <option key={index} value={modelOption.name}>
-                {modelOption.label}
-              </option>
-            ))
+    <div className="mb-2">
+      <div className="flex gap-2 flex-col sm:flex-row">
+        <select
+          value={provider?.name ?? ''}
+          onChange={(e) => {
+            const newProvider = providerList.find((p: ProviderInfo) => p.name === e.target.value);
+
+            if (newProvider && setProvider) {
+              setProvider(newProvider);
+            }
+
+            const providerModels = modelList.filter((m) => m.provider === e.target.value);
+            const firstModel = providerModels.find((m) => meetsRequirements(m, requirements)) ?? providerModels[0];
+
+            if (firstModel && setModel) {
+              setModel(firstModel.name);
+            }
+          }}
+          className="flex-1 p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all"
+        >
+          {providerList.map((provider: ProviderInfo) => (
+            <option key={provider.name} value={provider.name}>
+              {provider.name}
+              {providerHealth[provider.name]?.status === 'error' ? ' (unavailable)' : ''}
+            </option>
+          ))}
+        </select>
+        <select
+          key={provider?.name}
+          value={model}
+          onChange={(e) => setModel?.(e.target.value)}
+          className="flex-1 p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all lg:max-w-[70%]"
+          disabled={modelLoading === 'all' || modelLoading === provider?.name}
+        >
+          {modelLoading == 'all' || modelLoading == provider?.name ? (
+            <option key={0} value="">
+              Loading...
+            </option>
+          ) : (
+            [...modelList]
+              .filter((e) => e.provider == provider?.name && e.name)
+              .filter((e) => e.name === model || meetsRequirements(e, requirements))
+              .map((modelOption, index) => (
+                <option key={index} value={modelOption.name}>
+                  {modelOption.label}
+                </option>
+              ))
+          )}
+        </select>
+        {onRefreshModels && (
+          <button
+            onClick={onRefreshModels}
+            disabled={!!modelLoading}
+            title="Refresh the model list"
+            className="shrink-0 px-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary disabled:opacity-50 transition-all"
+          >
+            <div className={modelLoading ? 'i-svg-spinners:90-ring-with-bg' : 'i-ph:arrow-clockwise'} />
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {provider && (
+          <AvailabilityBadge
+            health={providerHealth[provider.name]}
+            isChecking={!!checkingProviders[provider.name]}
+            onCheck={() => checkProviderHealth([provider.name])}
+          />
         )}
-      </select>
+        {selectedModel && <ModelCapabilities model={selectedModel} />}
+      </div>
     </div>
   );
 };
+
+interface AvailabilityBadgeProps {
+  health?: ProviderHealth;
+  isChecking: boolean;
+  onCheck: () => void;
+}
+
+function AvailabilityBadge({ health, isChecking, onCheck }: AvailabilityBadgeProps) {
+  if (!health && !isChecking) {
+    return null;
+  }
+
+  const label = isChecking
+    ? 'Checking...'
+    : health?.status === 'ok'
+      ? `Available · ${health.latency}ms`
+      : health?.status === 'unconfigured'
+        ? 'No API key'
+        : 'Unavailable';
+
+  return (
+    <button
+      onClick={onCheck}
+      disabled={isChecking}
+      title={health?.error ? `${health.error}, click to check again` : 'Click to check again'}
+      className="flex items-center gap-1 mt-2 px-1.5 py-0.5 rounded-md border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-xs text-bolt-elements-textTertiary"
+    >
+      <div
+        className={`w-1.5 h-1.5 rounded-full ${
+          isChecking
+            ? 'bg-gray-300'
+            : health?.status === 'ok'
+              ? 'bg-green-400'
+              : health?.status === 'error'
+                ? 'bg-red-400'
+                : 'bg-yellow-400'
+        }`}
+      />
+      {label}
+    </button>
+  );
+}
+
+function ModelCapabilities({ model }: { model: ModelInfo }) {
+  const capabilities = [
+    model.contextWindow && `${formatTokenCount(model.contextWindow)} context`,
+    model.maxOutputTokens && `${formatTokenCount(model.maxOutputTokens)} output`,
+    model.vision !== undefined && (model.vision ? 'Images' : 'Text only'),
+    model.toolUse !== undefined && (model.toolUse ? 'Tools' : 'No tools'),
+    model.pricing && formatPricing(model.pricing),
+  ].filter(Boolean);
+
+  if (capabilities.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1.5 mt-2 text-xs text-bolt-elements-textTertiary">
+      {capabilities.map((capability) => (
+        <span
+          key={capability as string}
+          className="px-1.5 py-0.5 rounded-md border border-bolt-elements-borderColor bg-bolt-elements-prompt-background"
+        >
+          {capability}
+        </span>
+      ))}
+    </div>
+  );
+}
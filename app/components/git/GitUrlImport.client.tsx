@@ -10,6 +10,7 @@ import { useChatHistory } from '~/lib/persistence';
 import { createCommandsMessage, detectProjectCommands } from '~/utils/projectCommands';
 import { LoadingOverlay } from '~/components/ui/LoadingOverlay';
 import { toast } from 'react-toastify';
+import { createFileActionTag } from '~/lib/runtime/message-parser';
 
 const IGNORE_PATTERNS = [
   'node_modules/**',
@@ -75,14 +76,7 @@ export function GitUrlImport() {
             role: 'assistant',
             content: `Cloning the repo ${repoUrl} into ${workdir}
 <boltArtifact id="imported-files" title="Git Cloned Files" type="bundled">
-${fileContents
-  .map(
-    (file) =>
-      `<boltAction type="file" filePath="${file.path}">
-${file.content}
-</boltAction>`,
-  )
-  .join('\n')}
+${fileContents.map((file) => createFileActionTag(file.path, file.content)).join('\n')}
 </boltArtifact>`,
             id: generateId(),
             createdAt: new Date(),
@@ -0,0 +1,30 @@
+import { useStore } from '@nanostores/react';
+import WithTooltip from '~/components/ui/Tooltip';
+import { formatTokenCount } from '~/lib/modules/llm/capabilities';
+import { chatUsage, formatCost, getChatCost } from '~/lib/persistence';
+
+export function ChatCost() {
+  const usage = useStore(chatUsage);
+
+  if (usage.length === 0) {
+    return null;
+  }
+
+  const totalTokens = usage.reduce((tokens, entry) => tokens + entry.totalTokens, 0);
+  const unpriced = usage.filter((entry) => entry.cost === undefined).length;
+
+  return (
+    <WithTooltip
+      tooltip={
+        `${formatTokenCount(totalTokens)} tokens in ${usage.length} responses` +
+        (unpriced > 0 ? `, ${unpriced} from models without known rates` : '')
+      }
+      position="bottom"
+    >
+      <div className="flex items-center gap-1 text-sm text-bolt-elements-textSecondary">
+        <div className="i-ph:coins" />
+        {formatCost(getChatCost(usage))}
+      </div>
+    </WithTooltip>
+  );
+}
@@ -3,6 +3,7 @@ import { ClientOnly } from 'remix-utils/client-only';
 import { chatStore } from '~/lib/stores/chat';
 import { classNames } from '~/utils/classNames';
 import { HeaderActionButtons } from './HeaderActionButtons.client';
+import { ChatCost } from './ChatCost.client';
 import { ChatDescription } from '~/lib/persistence/ChatDescription.client';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Link } from '@remix-run/react';
@@ -232,6 +233,7 @@ export function Header() {
               <ClientOnly>
                 {() => (
                   <div className="flex items-center gap-2">
+                    <ChatCost />
                     <HeaderActionButtons />
                   </div>
                 )}
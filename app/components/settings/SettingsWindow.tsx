@@ -11,6 +11,8 @@ import DebugTab from './debug/DebugTab';
 import EventLogsTab from './event-logs/EventLogsTab';
 import ConnectionsTab from './connections/ConnectionsTab';
 import DataTab from './data/DataTab';
+import UsageTab from './usage/UsageTab';
+import ParametersTab from './parameters/ParametersTab';
 
 interface SettingsProps {
   open: boolean;
@@ -18,7 +20,15 @@ interface SettingsProps {
   initialTab?: TabType;
 }
 
-export type TabType = 'data' | 'providers' | 'features' | 'debug' | 'event-logs' | 'connection';
+export type TabType =
+  | 'data'
+  | 'usage'
+  | 'providers'
+  | 'parameters'
+  | 'features'
+  | 'debug'
+  | 'event-logs'
+  | 'connection';
 
 export const SettingsWindow = ({ open, onClose, initialTab = 'data' }: SettingsProps) => {
   const { debug, eventLogs } = useSettings();
@@ -26,7 +36,9 @@ export const SettingsWindow = ({ open, onClose, initialTab = 'data' }: SettingsP
 
   const tabs: { id: TabType; label: string; icon: string; component?: ReactElement }[] = [
     { id: 'data', label: 'Data', icon: 'i-ph:database', component: <DataTab /> },
+    { id: 'usage', label: 'Usage', icon: 'i-ph:coins', component: <UsageTab /> },
     { id: 'providers', label: 'Providers', icon: 'i-ph:key', component: <ProvidersTab /> },
+    { id: 'parameters', label: 'Parameters', icon: 'i-ph:sliders-horizontal', component: <ParametersTab /> },
     { id: 'connection', label: 'Extensions', icon: 'i-ph:link', component: <ConnectionsTab /> },
     { id: 'features', label: 'Features', icon: 'i-ph:star', component: <FeaturesTab /> },
     ...(debug
@@ -2,10 +2,20 @@ import React, { useState } from 'react';
 import { useNavigate } from '@remix-run/react';
 import Cookies from 'js-cookie';
 import { toast } from 'react-toastify';
-import { db, deleteById, getAll, setMessages } from '~/lib/persistence';
+import {
+  createPricingLookup,
+  createUsageLedger,
+  db,
+  deleteById,
+  getAll,
+  inheritUsage,
+  setMessages,
+  type MessageUsage,
+} from '~/lib/persistence';
 import { logStore } from '~/lib/stores/logs';
 import { classNames } from '~/utils/classNames';
 import type { Message } from 'ai';
+import { MODEL_LIST } from '~/utils/constants';
 
 // List of supported providers that can have API keys
 const API_KEY_PROVIDERS = [
@@ -240,6 +250,7 @@ export default function DataTab() {
     messages: Message[];
     description: string;
     urlId?: string;
+    usage?: MessageUsage[];
   }> => {
     // Handle Bolt standard format (single chat)
     if (data.messages && Array.isArray(data.messages)) {
@@ -250,18 +261,23 @@ export default function DataTab() {
           messages: data.messages,
           description: data.description || 'Imported Chat',
           urlId: chatId,
+          usage: inheritUsage(createUsageLedger(data.messages, [], createPricingLookup(MODEL_LIST)), data.messages),
         },
       ];
     }
 
     // Handle Bolt export format (multiple chats)
     if (data.chats && Array.isArray(data.chats)) {
-      return data.chats.map((chat: { id?: string; messages: Message[]; description?: string; urlId?: string }) => ({
-        id: chat.id || crypto.randomUUID(),
-        messages: chat.messages,
-        description: chat.description || 'Imported Chat',
-        urlId: chat.urlId,
-      }));
+      // a full export restores the chats with their own ledgers
+      return data.chats.map(
+        (chat: { id?: string; messages: Message[]; description?: string; urlId?: string; usage?: MessageUsage[] }) => ({
+          id: chat.id || crypto.randomUUID(),
+          messages: chat.messages,
+          description: chat.description || 'Imported Chat',
+          urlId: chat.urlId,
+          usage: chat.usage,
+        }),
+      );
     }
 
     console.error('No matching format found for:', data);
@@ -287,7 +303,7 @@ export default function DataTab() {
         const chatsToImport = processChatData(data);
 
         for (const chat of chatsToImport) {
-          await setMessages(db, chat.id, chat.messages, chat.urlId, chat.description);
+          await setMessages(db, chat.id, chat.messages, chat.urlId, chat.description, undefined, chat.usage);
         }
 
         logStore.logSystem('Chats imported successfully', { count: chatsToImport.length });
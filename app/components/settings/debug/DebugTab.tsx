@@ -1,18 +1,9 @@
+import { useStore } from '@nanostores/react';
 import React, { useCallback, useEffect, useState } from 'react';
 import { useSettings } from '~/lib/hooks/useSettings';
 import { toast } from 'react-toastify';
-import { providerBaseUrlEnvKeys } from '~/utils/constants';
-
-interface ProviderStatus {
-  name: string;
-  enabled: boolean;
-  isLocal: boolean;
-  isRunning: boolean | null;
-  error?: string;
-  lastChecked: Date;
-  responseTime?: number;
-  url: string | null;
-}
+import { contextAllocationStore } from '~/lib/stores/chat';
+import { checkProviderHealth, providerHealthStore } from '~/lib/stores/provider-health';
 
 interface SystemInfo {
   os: string;
@@ -30,14 +21,6 @@ interface SystemInfo {
   doNotTrack: boolean;
 }
 
-interface IProviderConfig {
-  name: string;
-  settings: {
-    enabled: boolean;
-    baseUrl?: string;
-  };
-}
-
 interface CommitData {
   commit: string;
   version?: string;
@@ -48,8 +31,6 @@ const connitJson: CommitData = {
   version: __APP_VERSION,
 };
 
-const LOCAL_PROVIDERS = ['Ollama', 'LMStudio', 'OpenAILike'];
-
 const versionHash = connitJson.commit;
 const versionTag = connitJson.version;
 
@@ -187,196 +168,31 @@ function getSystemInfo(): SystemInfo {
   };
 }
 
-const checkProviderStatus = async (url: string | null, providerName: string): Promise<ProviderStatus> => {
-  if (!url) {
-    console.log(`[Debug] No URL provided for ${providerName}`);
-    return {
-      name: providerName,
-      enabled: false,
-      isLocal: true,
-      isRunning: false,
-      error: 'No URL configured',
-      lastChecked: new Date(),
-      url: null,
-    };
-  }
-
-  console.log(`[Debug] Checking status for ${providerName} at ${url}`);
-
-  const startTime = performance.now();
-
-  try {
-    if (providerName.toLowerCase() === 'ollama') {
-      // Special check for Ollama root endpoint
-      try {
-        console.log(`[Debug] Checking Ollama root endpoint: ${url}`);
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
-
-        const response = await fetch(url, {
-          signal: controller.signal,
-          headers: {
-            Accept: 'text/plain,application/json',
-          },
-        });
-        clearTimeout(timeoutId);
-
-        const text = await response.text();
-        console.log(`[Debug] Ollama root response:`, text);
-
-        if (text.includes('Ollama is running')) {
-          console.log(`[Debug] Ollama running confirmed via root endpoint`);
-          return {
-            name: providerName,
-            enabled: false,
-            isLocal: true,
-            isRunning: true,
-            lastChecked: new Date(),
-            responseTime: performance.now() - startTime,
-            url,
-          };
-        }
-      } catch (error) {
-        console.log(`[Debug] Ollama root check failed:`, error);
-
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-        if (errorMessage.includes('aborted')) {
-          return {
-            name: providerName,
-            enabled: false,
-            isLocal: true,
-            isRunning: false,
-            error: 'Connection timeout',
-            lastChecked: new Date(),
-            responseTime: performance.now() - startTime,
-            url,
-          };
-        }
-      }
-    }
-
-    // Try different endpoints based on provider
-    const checkUrls = [`${url}/api/health`, url.endsWith('v1') ? `${url}/models` : `${url}/v1/models`];
-    console.log(`[Debug] Checking additional endpoints:`, checkUrls);
-
-    const results = await Promise.all(
-      checkUrls.map(async (checkUrl) => {
-        try {
-          console.log(`[Debug] Trying endpoint: ${checkUrl}`);
-
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-          const response = await fetch(checkUrl, {
-            signal: controller.signal,
-            headers: {
-              Accept: 'application/json',
-            },
-          });
-          clearTimeout(timeoutId);
-
-          const ok = response.ok;
-          console.log(`[Debug] Endpoint ${checkUrl} response:`, ok);
-
-          if (ok) {
-            try {
-              const data = await response.json();
-              console.log(`[Debug] Endpoint ${checkUrl} data:`, data);
-            } catch {
-              console.log(`[Debug] Could not parse JSON from ${checkUrl}`);
-            }
-          }
-
-          return ok;
-        } catch (error) {
-          console.log(`[Debug] Endpoint ${checkUrl} failed:`, error);
-          return false;
-        }
-      }),
-    );
-
-    const isRunning = results.some((result) => result);
-    console.log(`[Debug] Final status for ${providerName}:`, isRunning);
-
-    return {
-      name: providerName,
-      enabled: false,
-      isLocal: true,
-      isRunning,
-      lastChecked: new Date(),
-      responseTime: performance.now() - startTime,
-      url,
-    };
-  } catch (error) {
-    console.log(`[Debug] Provider check failed for ${providerName}:`, error);
-    return {
-      name: providerName,
-      enabled: false,
-      isLocal: true,
-      isRunning: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      lastChecked: new Date(),
-      responseTime: performance.now() - startTime,
-      url,
-    };
-  }
-};
-
 export default function DebugTab() {
   const { providers, isLatestBranch } = useSettings();
-  const [activeProviders, setActiveProviders] = useState<ProviderStatus[]>([]);
   const [updateMessage, setUpdateMessage] = useState<string>('');
   const [systemInfo] = useState<SystemInfo>(getSystemInfo());
   const [isCheckingUpdate, setIsCheckingUpdate] = useState(false);
+  const contextAllocation = useStore(contextAllocationStore);
 
-  const updateProviderStatuses = async () => {
-    if (!providers) {
-      return;
-    }
+  const providerHealth = useStore(providerHealthStore);
+  const [isCheckingProviders, setIsCheckingProviders] = useState(false);
 
-    try {
-      const entries = Object.entries(providers) as [string, IProviderConfig][];
-      const statuses = await Promise.all(
-        entries
-          .filter(([, provider]) => LOCAL_PROVIDERS.includes(provider.name))
-          .map(async ([, provider]) => {
-            const envVarName =
-              providerBaseUrlEnvKeys[provider.name].baseUrlKey || `REACT_APP_${provider.name.toUpperCase()}_URL`;
-
-            // Access environment variables through import.meta.env
-            let settingsUrl = provider.settings.baseUrl;
-
-            if (settingsUrl && settingsUrl.trim().length === 0) {
-              settingsUrl = undefined;
-            }
-
-            const url = settingsUrl || import.meta.env[envVarName] || null; // Ensure baseUrl is used
-            console.log(`[Debug] Using URL for ${provider.name}:`, url, `(from ${envVarName})`);
-
-            const status = await checkProviderStatus(url, provider.name);
-
-            return {
-              ...status,
-              enabled: provider.settings.enabled ?? false,
-            };
-          }),
-      );
+  const activeProviders = Object.entries(providers)
+    .filter(([, provider]) => provider.settings.enabled)
+    .map(([name]) => providerHealth[name])
+    .filter(Boolean);
 
-      setActiveProviders(statuses);
-    } catch (error) {
-      console.error('[Debug] Failed to update provider statuses:', error);
-    }
-  };
+  // every check lists the models or runs a completion with the user's keys, so it only runs when asked to
+  const updateProviderStatuses = useCallback(async () => {
+    setIsCheckingProviders(true);
+    await checkProviderHealth();
+    setIsCheckingProviders(false);
+  }, []);
 
   useEffect(() => {
     updateProviderStatuses();
-
-    const interval = setInterval(updateProviderStatuses, 30000);
-
-    return () => clearInterval(interval);
-  }, [providers]);
+  }, [updateProviderStatuses]);
 
   const handleCheckForUpdate = useCallback(async () => {
     if (isCheckingUpdate) {
@@ -415,27 +231,19 @@ export default function DebugTab() {
   const handleCopyToClipboard = useCallback(() => {
     const debugInfo = {
       System: systemInfo,
-      Providers: activeProviders.map((provider) => ({
-        name: provider.name,
-        enabled: provider.enabled,
-        isLocal: provider.isLocal,
-        running: provider.isRunning,
-        error: provider.error,
-        lastChecked: provider.lastChecked,
-        responseTime: provider.responseTime,
-        url: provider.url,
-      })),
+      Providers: activeProviders,
       Version: {
         hash: versionHash.slice(0, 7),
         branch: isLatestBranch ? 'main' : 'stable',
       },
+      ContextAllocation: contextAllocation,
       Timestamp: new Date().toISOString(),
     };
 
     navigator.clipboard.writeText(JSON.stringify(debugInfo, null, 2)).then(() => {
       toast.success('Debug information copied to clipboard!');
     });
-  }, [activeProviders, systemInfo, isLatestBranch]);
+  }, [activeProviders, systemInfo, isLatestBranch, contextAllocation]);
 
   return (
     <div className="p-4 space-y-6">
@@ -550,85 +358,134 @@ export default function DebugTab() {
         </div>
 
         <div>
-          <h4 className="text-md font-medium text-bolt-elements-textPrimary mb-2">Local LLM Status</h4>
+          <h4 className="text-md font-medium text-bolt-elements-textPrimary mb-2">Context Budget</h4>
+          <div className="bg-bolt-elements-surface rounded-lg p-4">
+            {contextAllocation ? (
+              <>
+                <p className="text-xs text-bolt-elements-textSecondary mb-3">
+                  Estimated tokens of the last request to {contextAllocation.provider} / {contextAllocation.model}
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  <div>
+                    <p className="text-xs text-bolt-elements-textSecondary">Context Window</p>
+                    <p className="text-sm font-medium text-bolt-elements-textPrimary">
+                      {contextAllocation.contextWindow.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-bolt-elements-textSecondary">Reserved For Output</p>
+                    <p className="text-sm font-medium text-bolt-elements-textPrimary">
+                      {contextAllocation.outputTokens.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-bolt-elements-textSecondary">Total Prompt</p>
+                    <p className="text-sm font-medium text-bolt-elements-textPrimary">
+                      {contextAllocation.totalTokens.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-bolt-elements-textSecondary">System Prompt</p>
+                    <p className="text-sm font-medium text-bolt-elements-textPrimary">
+                      {contextAllocation.systemPromptTokens.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-bolt-elements-textSecondary">File Context</p>
+                    <p className="text-sm font-medium text-bolt-elements-textPrimary">
+                      {contextAllocation.files.tokens.toLocaleString()}
+                      <span className="ml-2 text-xs text-bolt-elements-textSecondary">
+                        ({contextAllocation.files.included} files, {contextAllocation.files.omitted} left out)
+                      </span>
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-bolt-elements-textSecondary">Chat History</p>
+                    <p className="text-sm font-medium text-bolt-elements-textPrimary">
+                      {contextAllocation.history.tokens.toLocaleString()}
+                      <span className="ml-2 text-xs text-bolt-elements-textSecondary">
+                        ({contextAllocation.history.included} messages, {contextAllocation.history.omitted}{' '}
+                        {contextAllocation.history.summarized ? 'summarized' : 'left out'})
+                      </span>
+                    </p>
+                  </div>
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-center text-bolt-elements-textSecondary">
+                Send a message to see how the context window is used
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-md font-medium text-bolt-elements-textPrimary">Provider Status</h4>
+            <button
+              onClick={updateProviderStatuses}
+              disabled={isCheckingProviders}
+              className="text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary disabled:opacity-50"
+            >
+              {isCheckingProviders ? 'Checking...' : 'Check again'}
+            </button>
+          </div>
           <div className="bg-bolt-elements-surface rounded-lg">
             <div className="grid grid-cols-1 divide-y">
               {activeProviders.map((provider) => (
-                <div key={provider.name} className="p-3 flex flex-col space-y-2">
+                <div key={provider.provider} className="p-3 flex flex-col space-y-2">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       <div className="flex-shrink-0">
                         <div
                           className={`w-2 h-2 rounded-full ${
-                            !provider.enabled ? 'bg-gray-300' : provider.isRunning ? 'bg-green-400' : 'bg-red-400'
+                            provider.status === 'ok'
+                              ? 'bg-green-400'
+                              : provider.status === 'error'
+                                ? 'bg-red-400'
+                                : 'bg-gray-300'
                           }`}
                         />
                       </div>
-                      <div>
-                        <p className="text-sm font-medium text-bolt-elements-textPrimary">{provider.name}</p>
-                        {provider.url && (
-                          <p className="text-xs text-bolt-elements-textSecondary truncate max-w-[300px]">
-                            {provider.url}
-                          </p>
-                        )}
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <span
-                        className={`px-2 py-0.5 text-xs rounded-full ${
-                          provider.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
-                        }`}
-                      >
-                        {provider.enabled ? 'Enabled' : 'Disabled'}
-                      </span>
-                      {provider.enabled && (
-                        <span
-                          className={`px-2 py-0.5 text-xs rounded-full ${
-                            provider.isRunning ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
-                          }`}
-                        >
-                          {provider.isRunning ? 'Running' : 'Not Running'}
-                        </span>
-                      )}
+                      <p className="text-sm font-medium text-bolt-elements-textPrimary">{provider.provider}</p>
                     </div>
+                    <span
+                      className={`px-2 py-0.5 text-xs rounded-full ${
+                        provider.status === 'ok'
+                          ? 'bg-green-100 text-green-800'
+                          : provider.status === 'error'
+                            ? 'bg-red-100 text-red-800'
+                            : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {provider.status === 'ok' ? 'Available' : provider.status === 'error' ? 'Unavailable' : 'No Key'}
+                    </span>
                   </div>
 
                   <div className="pl-5 flex flex-col space-y-1 text-xs">
-                    {/* Status Details */}
-                    <div className="flex flex-wrap gap-2">
-                      <span className="text-bolt-elements-textSecondary">
-                        Last checked: {new Date(provider.lastChecked).toLocaleTimeString()}
+                    <div className="flex flex-wrap gap-2 text-bolt-elements-textSecondary">
+                      <span>Last checked: {new Date(provider.checkedAt).toLocaleTimeString()}</span>
+                      {provider.latency !== undefined && <span>Response time: {provider.latency}ms</span>}
+                      <span>
+                        Checked by {provider.check === 'models' ? 'listing the models' : 'a one-token completion'}
                       </span>
-                      {provider.responseTime && (
-                        <span className="text-bolt-elements-textSecondary">
-                          Response time: {Math.round(provider.responseTime)}ms
-                        </span>
-                      )}
                     </div>
 
-                    {/* Error Message */}
                     {provider.error && (
                       <div className="mt-1 text-red-600 bg-red-50 rounded-md p-2">
-                        <span className="font-medium">Error:</span> {provider.error}
-                      </div>
-                    )}
-
-                    {/* Connection Info */}
-                    {provider.url && (
-                      <div className="text-bolt-elements-textSecondary">
-                        <span className="font-medium">Endpoints checked:</span>
-                        <ul className="list-disc list-inside pl-2 mt-1">
-                          <li>{provider.url} (root)</li>
-                          <li>{provider.url}/api/health</li>
-                          <li>{provider.url}/v1/models</li>
-                        </ul>
+                        <span className="font-medium">
+                          Error{provider.statusCode ? ` (${provider.statusCode})` : ''}:
+                        </span>{' '}
+                        {provider.error}
                       </div>
                     )}
                   </div>
                 </div>
               ))}
               {activeProviders.length === 0 && (
-                <div className="p-4 text-center text-bolt-elements-textSecondary">No local LLMs configured</div>
+                <div className="p-4 text-center text-bolt-elements-textSecondary">
+                  {isCheckingProviders ? 'Checking the enabled providers...' : 'No providers enabled'}
+                </div>
               )}
             </div>
           </div>
@@ -1,7 +1,10 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Switch } from '~/components/ui/Switch';
 import { PromptLibrary } from '~/lib/common/prompt-library';
 import { useSettings } from '~/lib/hooks/useSettings';
+import { COMMAND_POLICY_MODES, type CommandPolicyMode } from '~/lib/runtime/command-policy';
+import { MOCK_PROVIDER_AVAILABLE } from '~/lib/stores/settings';
+import type { ModelFallback, ProviderInfo } from '~/types/model';
 
 export default function FeaturesTab() {
   const {
@@ -18,6 +21,21 @@ export default function FeaturesTab() {
     setAutoSelectTemplate,
     enableContextOptimization,
     contextOptimizationEnabled,
+    autoRollback,
+    enableAutoRollback,
+    toolCallingEnabled,
+    enableToolCalling,
+    shellExecutionSettings,
+    updateShellExecutionSettings,
+    commandPolicy,
+    updateCommandPolicy,
+    autoFix,
+    updateAutoFix,
+    activeProviders,
+    fallbackModels,
+    updateFallbackModels,
+    isMockProvider,
+    enableMockProvider,
   } = useSettings();
 
   const handleToggle = (enabled: boolean) => {
@@ -65,9 +83,125 @@ export default function FeaturesTab() {
               onCheckedChange={enableContextOptimization}
             />
           </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <span className="text-bolt-elements-textPrimary">Auto Rollback Failed Artifacts</span>
+              <p className="text-xs text-bolt-elements-textTertiary">
+                Restore the files an artifact changed when one of its actions fails
+              </p>
+            </div>
+            <Switch className="ml-auto" checked={autoRollback} onCheckedChange={enableAutoRollback} />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <span className="text-bolt-elements-textPrimary">Shell Command Timeout</span>
+              <p className="text-xs text-bolt-elements-textTertiary">
+                Seconds before a shell command gets interrupted, 0 disables the timeout
+              </p>
+            </div>
+            <input
+              type="number"
+              min={0}
+              value={shellExecutionSettings.timeout}
+              onChange={(e) => updateShellExecutionSettings({ timeout: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-24 p-2 ml-auto rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all text-sm"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <span className="text-bolt-elements-textPrimary">Shell Command Retries</span>
+              <p className="text-xs text-bolt-elements-textTertiary">
+                How often a failed or timed out shell command is retried
+              </p>
+            </div>
+            <input
+              type="number"
+              min={0}
+              value={shellExecutionSettings.retries}
+              onChange={(e) =>
+                updateShellExecutionSettings({ retries: Math.max(0, Math.floor(Number(e.target.value) || 0)) })
+              }
+              className="w-24 p-2 ml-auto rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all text-sm"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <span className="text-bolt-elements-textPrimary">Auto Fix Failed Commands</span>
+              <p className="text-xs text-bolt-elements-textTertiary">
+                Send failed shell and start commands back to the model and run its fix automatically
+              </p>
+            </div>
+            <Switch
+              className="ml-auto"
+              checked={autoFix.enabled}
+              onCheckedChange={(enabled) => updateAutoFix({ enabled })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <span className="text-bolt-elements-textPrimary">Auto Fix Attempts</span>
+              <p className="text-xs text-bolt-elements-textTertiary">
+                How many fixes are tried in a row before asking you
+              </p>
+            </div>
+            <input
+              type="number"
+              min={1}
+              value={autoFix.maxAttempts}
+              disabled={!autoFix.enabled}
+              onChange={(e) => updateAutoFix({ maxAttempts: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+              className="w-24 p-2 ml-auto rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all text-sm disabled:opacity-50"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-6 border-t border-bolt-elements-borderColor pt-4">
+        <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-4">Command Policy</h3>
+        <div className="space-y-4">
+          <div className="flex items-start justify-between gap-2">
+            <div className="flex-1 max-w-[200px]">
+              <span className="text-bolt-elements-textPrimary">Approval Mode</span>
+              <p className="text-xs text-bolt-elements-textTertiary">
+                Choose which shell commands need your approval before they run.
+              </p>
+            </div>
+            <select
+              value={commandPolicy.mode}
+              onChange={(e) => updateCommandPolicy({ mode: e.target.value as CommandPolicyMode })}
+              className="flex-1 p-2 ml-auto rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all text-sm min-w-[100px]"
+            >
+              {COMMAND_POLICY_MODES.map((mode) => (
+                <option key={mode.value} value={mode.value}>
+                  {mode.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <PatternList
+            label="Allowed Commands"
+            description="Regular expressions, one per line, for commands that never need approval."
+            patterns={commandPolicy.allowlist}
+            onChange={(allowlist) => updateCommandPolicy({ allowlist })}
+          />
+          <PatternList
+            label="Denied Commands"
+            description="Regular expressions, one per line, for commands that are always rejected."
+            patterns={commandPolicy.denylist}
+            onChange={(denylist) => updateCommandPolicy({ denylist })}
+          />
         </div>
       </div>
 
+      <div className="mb-6 border-t border-bolt-elements-borderColor pt-4">
+        <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-4">Model Fallbacks</h3>
+        <p className="text-xs text-bolt-elements-textTertiary mb-4">
+          When the selected model is rate limited, overloaded or unavailable, these models are tried in order before the
+          response starts.
+        </p>
+        <FallbackModelList providers={activeProviders} models={fallbackModels} onChange={updateFallbackModels} />
+      </div>
+
       <div className="mb-6 border-t border-bolt-elements-borderColor pt-4">
         <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-4">Experimental Features</h3>
         <p className="text-sm text-bolt-elements-textSecondary mb-10">
@@ -82,6 +216,29 @@ export default function FeaturesTab() {
             Enable experimental providers such as Ollama, LMStudio, and OpenAILike.
           </p>
         </div>
+        {MOCK_PROVIDER_AVAILABLE && (
+          <div className="flex flex-col">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-bolt-elements-textPrimary">Mock Provider</span>
+              <Switch className="ml-auto" checked={isMockProvider} onCheckedChange={enableMockProvider} />
+            </div>
+            <p className="text-xs text-bolt-elements-textTertiary mb-4">
+              Add a Mock provider that replays the fixtures in <code>app/lib/modules/llm/mock-fixtures</code> instead of
+              calling a model, to try out the chat, artifacts and actions offline without an API key. Only available in
+              development builds.
+            </p>
+          </div>
+        )}
+        <div className="flex flex-col">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-bolt-elements-textPrimary">Tool Calling Mode</span>
+            <Switch className="ml-auto" checked={toolCallingEnabled} onCheckedChange={enableToolCalling} />
+          </div>
+          <p className="text-xs text-bolt-elements-textTertiary mb-4">
+            Let the model write files and run commands through tool calls instead of artifact tags. Works better with
+            smaller local models, the model has to support tool calling.
+          </p>
+        </div>
         <div className="flex items-start justify-between pt-4 mb-2 gap-2">
           <div className="flex-1 max-w-[200px]">
             <span className="text-bolt-elements-textPrimary">Prompt Library</span>
@@ -105,3 +262,129 @@ export default function FeaturesTab() {
     </div>
   );
 }
+
+interface PatternListProps {
+  label: string;
+  description: string;
+  patterns: string[];
+  onChange: (patterns: string[]) => void;
+}
+
+function PatternList({ label, description, patterns, onChange }: PatternListProps) {
+  const [value, setValue] = useState(patterns.join('\n'));
+
+  useEffect(() => {
+    setValue(patterns.join('\n'));
+  }, [patterns]);
+
+  return (
+    <div className="flex items-start justify-between gap-2">
+      <div className="flex-1 max-w-[200px]">
+        <span className="text-bolt-elements-textPrimary">{label}</span>
+        <p className="text-xs text-bolt-elements-textTertiary">{description}</p>
+      </div>
+      <textarea
+        value={value}
+        rows={3}
+        spellCheck={false}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={() =>
+          onChange(
+            value
+              .split('\n')
+              .map((pattern) => pattern.trim())
+              .filter(Boolean),
+          )
+        }
+        className="flex-1 p-2 ml-auto rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all text-sm font-mono min-w-[100px]"
+      />
+    </div>
+  );
+}
+
+interface FallbackModelListProps {
+  providers: ProviderInfo[];
+  models: ModelFallback[];
+  onChange: (models: ModelFallback[]) => void;
+}
+
+function FallbackModelList({ providers, models, onChange }: FallbackModelListProps) {
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
+
+  const selectedProvider = providers.find((p) => p.name === provider) ?? providers[0];
+
+  const addModel = () => {
+    if (!selectedProvider || !model.trim()) {
+      return;
+    }
+
+    onChange([...models, { provider: selectedProvider.name, model: model.trim() }]);
+    setModel('');
+  };
+
+  const moveUp = (index: number) => {
+    const reordered = [...models];
+    [reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-2">
+      {models.map((fallback, index) => (
+        <div
+          key={`${fallback.provider}/${fallback.model}/${index}`}
+          className="flex items-center gap-2 p-2 rounded-lg border border-bolt-elements-borderColor text-sm"
+        >
+          <span className="text-bolt-elements-textTertiary">{index + 1}.</span>
+          <span className="flex-1 truncate text-bolt-elements-textPrimary">
+            {fallback.provider} / {fallback.model}
+          </span>
+          <button
+            title="Move up"
+            disabled={index === 0}
+            onClick={() => moveUp(index)}
+            className="i-ph:arrow-up text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary disabled:opacity-30"
+          />
+          <button
+            title="Remove"
+            onClick={() => onChange(models.filter((_, i) => i !== index))}
+            className="i-ph:trash text-bolt-elements-textSecondary hover:text-bolt-elements-icon-error"
+          />
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedProvider?.name ?? ''}
+          onChange={(e) => setProvider(e.target.value)}
+          className="p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all text-sm"
+        >
+          {providers.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={model}
+          list="fallback-model-options"
+          placeholder="Model name"
+          onChange={(e) => setModel(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addModel()}
+          className="flex-1 p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all text-sm min-w-[100px]"
+        />
+        <datalist id="fallback-model-options">
+          {selectedProvider?.staticModels.map((m) => <option key={m.name} value={m.name} label={m.label} />)}
+        </datalist>
+        <button
+          onClick={addModel}
+          disabled={!model.trim()}
+          className="px-3 py-2 rounded-lg text-sm bg-bolt-elements-button-primary-background hover:bg-bolt-elements-button-primary-backgroundHover text-bolt-elements-button-primary-text disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
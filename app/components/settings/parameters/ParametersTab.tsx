@@ -0,0 +1,232 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Switch } from '~/components/ui/Switch';
+import { useSettings } from '~/lib/hooks/useSettings';
+import {
+  COMMON_PARAMETERS,
+  getParameterKey,
+  PARAMETER_DEFINITIONS,
+  REASONING_EFFORTS,
+  validateGenerationParameters,
+} from '~/lib/modules/llm/generation-parameters';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { GenerationParameterName, GenerationParameters } from '~/types/model';
+
+const inputClassName =
+  'w-full p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all text-sm';
+
+export default function ParametersTab() {
+  const { activeProviders, generationParameters, updateGenerationParameters } = useSettings();
+  const [provider, setProvider] = useState('');
+  const [model, setModel] = useState('');
+  const [draft, setDraft] = useState<GenerationParameters>({});
+
+  const selectedProvider = activeProviders.find((p) => p.name === provider) ?? activeProviders[0];
+  const key = selectedProvider ? getParameterKey(selectedProvider.name, model.trim() || undefined) : '';
+
+  // the provider entries in the settings are copies, the registered provider knows what it supports
+  const supported: GenerationParameterName[] = selectedProvider
+    ? (LLMManager.getInstance().getProvider(selectedProvider.name)?.supportedParameters ?? COMMON_PARAMETERS)
+    : [];
+  const { errors } = validateGenerationParameters(draft, supported);
+
+  useEffect(() => {
+    setDraft(generationParameters[key] ?? {});
+  }, [key]);
+
+  const setParameter = <Name extends GenerationParameterName>(name: Name, value: GenerationParameters[Name]) => {
+    setDraft((current) => ({ ...current, [name]: value }));
+  };
+
+  const save = () => {
+    updateGenerationParameters(key, draft);
+    toast.success(`Saved the parameters for ${key}`);
+  };
+
+  const reset = () => {
+    setDraft({});
+    updateGenerationParameters(key, {});
+  };
+
+  return (
+    <div className="p-4 bg-bolt-elements-bg-depth-2 border border-bolt-elements-borderColor rounded-lg mb-4">
+      <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-2">Generation Parameters</h3>
+      <p className="text-sm text-bolt-elements-textSecondary mb-4">
+        Sampling settings and provider options sent with every chat request. Parameters of a single model take
+        precedence over the ones of its provider, empty fields are left to the provider.
+      </p>
+
+      <div className="flex items-center gap-2 mb-4">
+        <select
+          value={selectedProvider?.name ?? ''}
+          onChange={(e) => setProvider(e.target.value)}
+          className="p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus transition-all text-sm"
+        >
+          {activeProviders.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={model}
+          list="parameter-model-options"
+          placeholder="All models"
+          onChange={(e) => setModel(e.target.value)}
+          className={`${inputClassName} flex-1 min-w-[100px]`}
+        />
+        <datalist id="parameter-model-options">
+          {selectedProvider?.staticModels.map((m) => <option key={m.name} value={m.name} label={m.label} />)}
+        </datalist>
+      </div>
+
+      {selectedProvider && (
+        <div className="space-y-4">
+          {supported.map((name) => (
+            <div key={name}>
+              <ParameterInput name={name} parameters={draft} onChange={setParameter} />
+              <p className="text-xs text-bolt-elements-textTertiary mt-1">{PARAMETER_DEFINITIONS[name].description}</p>
+            </div>
+          ))}
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-bolt-elements-icon-error space-y-1">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={reset}
+              className="px-3 py-2 rounded-lg text-sm bg-bolt-elements-button-secondary-background hover:bg-bolt-elements-button-secondary-backgroundHover text-bolt-elements-button-secondary-text"
+            >
+              Reset
+            </button>
+            <button
+              onClick={save}
+              disabled={errors.length > 0}
+              className="px-3 py-2 rounded-lg text-sm bg-bolt-elements-button-primary-background hover:bg-bolt-elements-button-primary-backgroundHover text-bolt-elements-button-primary-text disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      )}
+
+      {Object.keys(generationParameters).length > 0 && (
+        <div className="mt-6 border-t border-bolt-elements-borderColor pt-4">
+          <h4 className="text-sm font-medium text-bolt-elements-textPrimary mb-2">Saved Parameters</h4>
+          <div className="space-y-2">
+            {Object.entries(generationParameters).map(([savedKey, parameters]) => (
+              <div
+                key={savedKey}
+                className="flex items-center gap-2 p-2 rounded-lg border border-bolt-elements-borderColor text-sm"
+              >
+                <span className="text-bolt-elements-textPrimary">{savedKey}</span>
+                <span className="flex-1 truncate text-xs text-bolt-elements-textTertiary">
+                  {formatParameters(parameters)}
+                </span>
+                <button
+                  title="Remove"
+                  onClick={() => updateGenerationParameters(savedKey, {})}
+                  className="i-ph:trash text-bolt-elements-textSecondary hover:text-bolt-elements-icon-error"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ParameterInputProps {
+  name: GenerationParameterName;
+  parameters: GenerationParameters;
+  onChange: <Name extends GenerationParameterName>(name: Name, value: GenerationParameters[Name]) => void;
+}
+
+function ParameterInput({ name, parameters, onChange }: ParameterInputProps) {
+  const { label, min, max, step } = PARAMETER_DEFINITIONS[name];
+
+  switch (name) {
+    case 'promptCaching': {
+      return (
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-bolt-elements-textPrimary">{label}</span>
+          <Switch
+            checked={parameters.promptCaching ?? false}
+            onCheckedChange={(checked) => onChange('promptCaching', checked || undefined)}
+          />
+        </div>
+      );
+    }
+    case 'reasoningEffort': {
+      return (
+        <label className="block">
+          <span className="text-sm text-bolt-elements-textPrimary">{label}</span>
+          <select
+            value={parameters.reasoningEffort ?? ''}
+            onChange={(e) =>
+              onChange('reasoningEffort', (e.target.value || undefined) as GenerationParameters['reasoningEffort'])
+            }
+            className={`${inputClassName} mt-1`}
+          >
+            <option value="">Default</option>
+            {REASONING_EFFORTS.map((effort) => (
+              <option key={effort} value={effort}>
+                {effort}
+              </option>
+            ))}
+          </select>
+        </label>
+      );
+    }
+    case 'stopSequences': {
+      return (
+        <label className="block">
+          <span className="text-sm text-bolt-elements-textPrimary">{label}</span>
+          <textarea
+            rows={2}
+            value={parameters.stopSequences?.join('\n') ?? ''}
+            onChange={(e) => {
+              const sequences = e.target.value.split('\n').filter((sequence) => sequence.length > 0);
+              onChange('stopSequences', sequences.length > 0 ? sequences : undefined);
+            }}
+            className={`${inputClassName} mt-1 font-mono`}
+          />
+        </label>
+      );
+    }
+    default: {
+      return (
+        <label className="block">
+          <span className="text-sm text-bolt-elements-textPrimary">{label}</span>
+          <input
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            placeholder="Default"
+            value={parameters[name] ?? ''}
+            onChange={(e) => onChange(name, e.target.value === '' ? undefined : Number(e.target.value))}
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+      );
+    }
+  }
+}
+
+function formatParameters(parameters: GenerationParameters) {
+  return Object.entries(parameters)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => {
+      const { label } = PARAMETER_DEFINITIONS[name as GenerationParameterName];
+      return `${label}: ${Array.isArray(value) ? value.join(', ') : String(value)}`;
+    })
+    .join(' · ');
+}
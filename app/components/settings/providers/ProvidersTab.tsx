@@ -1,8 +1,18 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import Cookies from 'js-cookie';
+import { toast } from 'react-toastify';
 import { Switch } from '~/components/ui/Switch';
+import { getApiKeysFromCookies } from '~/components/chat/APIKeyManager';
+import {
+  CustomOpenAIProvider,
+  formatHeaders,
+  parseHeaders,
+  validateCustomProvider,
+} from '~/lib/modules/llm/custom-provider';
+import type { KeyStatus, ProviderKeyStatus } from '~/lib/modules/llm/key-pool';
 import { useSettings } from '~/lib/hooks/useSettings';
-import { LOCAL_PROVIDERS, URL_CONFIGURABLE_PROVIDERS } from '~/lib/stores/settings';
-import type { IProviderConfig } from '~/types/model';
+import { LOCAL_PROVIDERS, MOCK_PROVIDER, URL_CONFIGURABLE_PROVIDERS } from '~/lib/stores/settings';
+import type { CustomProviderConfig, IProviderConfig } from '~/types/model';
 import { logStore } from '~/lib/stores/logs';
 
 // Import a default fallback icon
@@ -11,11 +21,26 @@ import { providerBaseUrlEnvKeys } from '~/utils/constants';
 const DefaultIcon = '/icons/Default.svg'; // Adjust the path as necessary
 
 export default function ProvidersTab() {
-  const { providers, updateProviderSettings, isLocalModel } = useSettings();
+  const { providers, updateProviderSettings, isLocalModel, isMockProvider, customProviders, updateCustomProviders } =
+    useSettings();
   const [filteredProviders, setFilteredProviders] = useState<IProviderConfig[]>([]);
 
   // Load base URLs from cookies
   const [searchTerm, setSearchTerm] = useState('');
+  const [keyStatus, setKeyStatus] = useState<Record<string, ProviderKeyStatus>>({});
+
+  const loadKeyStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/key-status');
+      setKeyStatus((await response.json()) as Record<string, ProviderKeyStatus>);
+    } catch (error) {
+      console.error('Failed to load the API key status:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeyStatus();
+  }, [loadKeyStatus]);
 
   useEffect(() => {
     let newFilteredProviders: IProviderConfig[] = Object.entries(providers).map(([key, value]) => ({
@@ -33,6 +58,10 @@ export default function ProvidersTab() {
       newFilteredProviders = newFilteredProviders.filter((provider) => !LOCAL_PROVIDERS.includes(provider.name));
     }
 
+    if (!isMockProvider) {
+      newFilteredProviders = newFilteredProviders.filter((provider) => provider.name !== MOCK_PROVIDER);
+    }
+
     newFilteredProviders.sort((a, b) => a.name.localeCompare(b.name));
 
     // Split providers into regular and URL-configurable
@@ -40,10 +69,10 @@ export default function ProvidersTab() {
     const urlConfigurable = newFilteredProviders.filter((p) => URL_CONFIGURABLE_PROVIDERS.includes(p.name));
 
     setFilteredProviders([...regular, ...urlConfigurable]);
-  }, [providers, searchTerm, isLocalModel]);
+  }, [providers, searchTerm, isLocalModel, isMockProvider]);
 
   const renderProviderCard = (provider: IProviderConfig) => {
-    const envBaseUrlKey = providerBaseUrlEnvKeys[provider.name].baseUrlKey;
+    const envBaseUrlKey = providerBaseUrlEnvKeys[provider.name]?.baseUrlKey;
     const envBaseUrl = envBaseUrlKey ? import.meta.env[envBaseUrlKey] : undefined;
     const isUrlConfigurable = URL_CONFIGURABLE_PROVIDERS.includes(provider.name);
 
@@ -78,6 +107,9 @@ export default function ProvidersTab() {
             }}
           />
         </div>
+        {provider.settings.enabled && keyStatus[provider.name]?.set && (
+          <KeyPoolStatus keys={keyStatus[provider.name].keys} onRefresh={loadKeyStatus} />
+        )}
         {isUrlConfigurable && provider.settings.enabled && (
           <div className="mt-2">
             {envBaseUrl && (
@@ -113,7 +145,10 @@ export default function ProvidersTab() {
     );
   };
 
-  const regularProviders = filteredProviders.filter((p) => !URL_CONFIGURABLE_PROVIDERS.includes(p.name));
+  const isCustom = (name: string) => customProviders.some((config) => config.name === name);
+  const regularProviders = filteredProviders.filter(
+    (p) => !URL_CONFIGURABLE_PROVIDERS.includes(p.name) && !isCustom(p.name),
+  );
   const urlConfigurableProviders = filteredProviders.filter((p) => URL_CONFIGURABLE_PROVIDERS.includes(p.name));
 
   return (
@@ -142,6 +177,241 @@ export default function ProvidersTab() {
           <div className="space-y-4">{urlConfigurableProviders.map(renderProviderCard)}</div>
         </div>
       )}
+
+      <div className="mt-8">
+        <h3 className="text-lg font-semibold mb-2 text-bolt-elements-textPrimary">Custom Endpoints</h3>
+        <p className="text-sm text-bolt-elements-textSecondary mb-4">
+          Add any number of OpenAI-compatible endpoints like vLLM, a LiteLLM gateway or an internal proxy. Each one
+          shows up as its own provider with the models its <code>/models</code> route lists.
+        </p>
+        <CustomProviderList
+          configs={customProviders}
+          takenNames={Object.keys(providers)}
+          onChange={updateCustomProviders}
+          renderProviderCard={(name) => providers[name] && renderProviderCard({ ...providers[name], name })}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The keys of a provider's pool, shown once there is more than one key or a key got quarantined.
+ */
+function KeyPoolStatus({ keys, onRefresh }: { keys: KeyStatus[]; onRefresh: () => void }) {
+  if (keys.length < 2 && keys.every((key) => key.state === 'active')) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 text-xs text-bolt-elements-textSecondary">
+      <div className="flex items-center justify-between mb-1">
+        <span>
+          {keys.filter((key) => key.state === 'active').length} of {keys.length} keys active
+        </span>
+        <button onClick={onRefresh} title="Refresh" className="hover:text-bolt-elements-textPrimary">
+          <div className="i-ph:arrow-clockwise" />
+        </button>
+      </div>
+      <ul className="space-y-0.5">
+        {keys.map((key, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <div
+              className={
+                key.state === 'active' ? 'i-ph:check-circle-fill text-green-500' : 'i-ph:clock-fill text-yellow-500'
+              }
+            />
+            <span>Key {index + 1}</span>
+            {key.state === 'quarantined' && (
+              <span>
+                {key.lastStatusCode === 401 ? 'rejected' : 'rate limited'} until{' '}
+                {new Date(key.quarantinedUntil!).toLocaleTimeString()}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+interface CustomProviderListProps {
+  configs: CustomProviderConfig[];
+  takenNames: string[];
+  onChange: (configs: CustomProviderConfig[]) => void;
+  renderProviderCard: (name: string) => React.ReactNode;
+}
+
+const EMPTY_FORM = { name: '', baseUrl: '', apiKey: '', headers: '' };
+
+function CustomProviderList({ configs, takenNames, onChange, renderProviderCard }: CustomProviderListProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editing, setEditing] = useState<string>();
+  const [isChecking, setIsChecking] = useState(false);
+
+  const inputClassName =
+    'w-full bg-white dark:bg-bolt-elements-background-depth-4 relative px-2 py-1.5 rounded-md focus:outline-none placeholder-bolt-elements-textTertiary text-bolt-elements-textPrimary dark:text-bolt-elements-textPrimary border border-bolt-elements-borderColor';
+
+  const getConfig = (): CustomProviderConfig => ({
+    name: form.name.trim(),
+    baseUrl: form.baseUrl.trim(),
+    headers: parseHeaders(form.headers),
+  });
+
+  const saveApiKey = (name: string, apiKey: string, previousName?: string) => {
+    const apiKeys = { ...getApiKeysFromCookies() };
+
+    if (previousName) {
+      delete apiKeys[previousName];
+    }
+
+    if (apiKey) {
+      apiKeys[name] = apiKey;
+    } else {
+      delete apiKeys[name];
+    }
+
+    Cookies.set('apiKeys', JSON.stringify(apiKeys));
+  };
+
+  const save = () => {
+    const config = getConfig();
+    const error = validateCustomProvider(
+      config,
+      takenNames.filter((name) => name !== editing),
+    );
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    saveApiKey(config.name, form.apiKey.trim(), editing);
+    onChange(editing ? configs.map((c) => (c.name === editing ? config : c)) : [...configs, config]);
+    logStore.logProvider(`Custom endpoint ${config.name} ${editing ? 'updated' : 'added'}`, {
+      provider: config.name,
+      baseUrl: config.baseUrl,
+    });
+
+    setForm(EMPTY_FORM);
+    setEditing(undefined);
+  };
+
+  const edit = (config: CustomProviderConfig) => {
+    setEditing(config.name);
+    setForm({
+      name: config.name,
+      baseUrl: config.baseUrl,
+      apiKey: getApiKeysFromCookies()[config.name] ?? '',
+      headers: formatHeaders(config.headers),
+    });
+  };
+
+  const remove = (name: string) => {
+    saveApiKey(name, '');
+    onChange(configs.filter((config) => config.name !== name));
+    logStore.logProvider(`Custom endpoint ${name} removed`, { provider: name });
+  };
+
+  const checkModels = async () => {
+    const config = getConfig();
+
+    setIsChecking(true);
+
+    try {
+      const provider = new CustomOpenAIProvider(config);
+      const models = await provider.getDynamicModels({ [config.name]: form.apiKey.trim() });
+      toast.success(`Found ${models.length} model${models.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to list the models');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {configs.map((config) => (
+        <div key={config.name} className="relative">
+          {renderProviderCard(config.name)}
+          <div className="absolute top-4 right-16 flex items-center gap-2">
+            <button
+              title="Edit"
+              onClick={() => edit(config)}
+              className="i-ph:pencil-simple text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+            />
+            <button
+              title="Remove"
+              onClick={() => remove(config.name)}
+              className="i-ph:trash text-bolt-elements-textSecondary hover:text-bolt-elements-icon-error"
+            />
+          </div>
+          <p className="px-4 -mt-2 pb-2 text-xs text-bolt-elements-textTertiary truncate">{config.baseUrl}</p>
+        </div>
+      ))}
+
+      <div className="flex flex-col gap-2 p-4 rounded-lg border border-dashed border-bolt-elements-borderColor">
+        <span className="text-sm text-bolt-elements-textPrimary">
+          {editing ? `Edit ${editing}` : 'Add an endpoint'}
+        </span>
+        <div className="grid grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={form.name}
+            placeholder="Name, e.g. vLLM"
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={form.baseUrl}
+            placeholder="Base URL, e.g. http://localhost:8000/v1"
+            onChange={(e) => setForm({ ...form, baseUrl: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <input
+          type="password"
+          value={form.apiKey}
+          placeholder="API key (optional)"
+          onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+          className={inputClassName}
+        />
+        <textarea
+          value={form.headers}
+          rows={2}
+          placeholder={'Extra headers, one per line (optional)\nX-Team: platform'}
+          onChange={(e) => setForm({ ...form, headers: e.target.value })}
+          className={`${inputClassName} font-mono text-sm`}
+        />
+        <div className="flex justify-end gap-2">
+          {editing && (
+            <button
+              onClick={() => {
+                setEditing(undefined);
+                setForm(EMPTY_FORM);
+              }}
+              className="px-3 py-2 rounded-lg text-sm text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={checkModels}
+            disabled={!form.baseUrl.trim() || isChecking}
+            className="px-3 py-2 rounded-lg text-sm border border-bolt-elements-borderColor text-bolt-elements-textPrimary hover:bg-bolt-elements-bg-depth-3 disabled:opacity-50"
+          >
+            {isChecking ? 'Checking...' : 'Check models'}
+          </button>
+          <button
+            onClick={save}
+            disabled={!form.name.trim() || !form.baseUrl.trim()}
+            className="px-3 py-2 rounded-lg text-sm bg-bolt-elements-button-primary-background hover:bg-bolt-elements-button-primary-backgroundHover text-bolt-elements-button-primary-text disabled:opacity-50"
+          >
+            {editing ? 'Save' : 'Add'}
+          </button>
+        </div>
+      </div>
     </div>
   );
 }
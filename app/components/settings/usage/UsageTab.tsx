@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { formatTokenCount } from '~/lib/modules/llm/capabilities';
+import { createUsageReport, db, formatCost, getAll, type UsageReportRow } from '~/lib/persistence';
+import { logStore } from '~/lib/stores/logs';
+
+export default function UsageTab() {
+  const [report, setReport] = useState<UsageReportRow[]>();
+
+  useEffect(() => {
+    if (!db) {
+      setReport([]);
+      return;
+    }
+
+    getAll(db)
+      .then((chats) => setReport(createUsageReport(chats.map((chat) => chat.usage ?? []))))
+      .catch((error) => {
+        logStore.logError('Failed to load the usage report', error);
+        toast.error('Failed to load the usage report');
+      });
+  }, []);
+
+  const totalCost = report?.reduce((cost, row) => cost + row.cost, 0) ?? 0;
+  const totalTokens = report?.reduce((tokens, row) => tokens + row.totalTokens, 0) ?? 0;
+  const hasUnpriced = report?.some((row) => row.unpricedMessages > 0);
+
+  return (
+    <div className="p-4 bg-bolt-elements-bg-depth-2 border border-bolt-elements-borderColor rounded-lg mb-4">
+      <h3 className="text-lg font-medium text-bolt-elements-textPrimary mb-2">Usage</h3>
+      <p className="text-sm text-bolt-elements-textSecondary mb-4">
+        Tokens and estimated cost of all chats, priced with the rates of each model when the response came in. Forked,
+        duplicated and imported messages are only counted in the chat they were first sent in.
+      </p>
+
+      {!report ? (
+        <p className="text-sm text-center text-bolt-elements-textSecondary">Loading usage...</p>
+      ) : report.length === 0 ? (
+        <p className="text-sm text-center text-bolt-elements-textSecondary">No usage recorded yet</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="bg-bolt-elements-surface rounded-lg p-4">
+              <p className="text-xs text-bolt-elements-textSecondary">Total Cost</p>
+              <p className="text-lg font-medium text-bolt-elements-textPrimary">{formatCost(totalCost)}</p>
+            </div>
+            <div className="bg-bolt-elements-surface rounded-lg p-4">
+              <p className="text-xs text-bolt-elements-textSecondary">Total Tokens</p>
+              <p className="text-lg font-medium text-bolt-elements-textPrimary">{formatTokenCount(totalTokens)}</p>
+            </div>
+          </div>
+
+          <div className="bg-bolt-elements-surface rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-bolt-elements-textSecondary border-b border-bolt-elements-borderColor">
+                  <th className="p-3 font-medium">Provider</th>
+                  <th className="p-3 font-medium">Model</th>
+                  <th className="p-3 font-medium text-right">Chats</th>
+                  <th className="p-3 font-medium text-right">Responses</th>
+                  <th className="p-3 font-medium text-right">Prompt</th>
+                  <th className="p-3 font-medium text-right">Completion</th>
+                  <th className="p-3 font-medium text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map((row) => (
+                  <tr
+                    key={`${row.provider}/${row.model}`}
+                    className="text-bolt-elements-textPrimary border-b border-bolt-elements-borderColor last:border-0"
+                  >
+                    <td className="p-3">{row.provider}</td>
+                    <td className="p-3 break-all">{row.model}</td>
+                    <td className="p-3 text-right">{row.chats}</td>
+                    <td className="p-3 text-right">{row.messages}</td>
+                    <td className="p-3 text-right">{formatTokenCount(row.promptTokens)}</td>
+                    <td className="p-3 text-right">{formatTokenCount(row.completionTokens)}</td>
+                    <td className="p-3 text-right">
+                      {row.unpricedMessages === row.messages ? '—' : formatCost(row.cost)}
+                      {row.unpricedMessages > 0 && row.unpricedMessages < row.messages && '*'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {hasUnpriced && (
+            <p className="text-xs text-bolt-elements-textSecondary mt-2">
+              Rates aren't known for some models, e.g. local ones. Their tokens are counted but not priced (— or *).
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
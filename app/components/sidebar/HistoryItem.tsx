@@ -1,7 +1,7 @@
 import { useParams } from '@remix-run/react';
 import { classNames } from '~/utils/classNames';
 import * as Dialog from '@radix-ui/react-dialog';
-import { type ChatHistoryItem } from '~/lib/persistence';
+import { formatCost, getChatCost, type ChatHistoryItem } from '~/lib/persistence';
 import WithTooltip from '~/components/ui/Tooltip';
 import { useEditChatDescription } from '~/lib/hooks';
 import { forwardRef, type ForwardedRef } from 'react';
@@ -60,6 +60,11 @@ export function HistoryItem({ item, onDelete, onDuplicate, exportChat }: History
           <div className="flex items-center gap-2 w-full">
             <div className="h-1.5 w-1.5 rounded-full bg-gradient-to-r from-cyan-500 to-purple-500 opacity-0 group-hover:opacity-100 transition-opacity" />
             <span className="truncate">{currentDescription}</span>
+            {item.usage && item.usage.length > 0 && (
+              <span className="ml-auto shrink-0 text-xs opacity-60 group-hover:opacity-0 transition-opacity">
+                {formatCost(getChatCost(item.usage))}
+              </span>
+            )}
           </div>
           <div
             className={classNames(
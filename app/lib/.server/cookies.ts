@@ -0,0 +1,18 @@
+/**
+ * Reads the `Cookie` header of a request, the settings of the browser (keys, providers, parameters) are sent
+ * along as cookies.
+ */
+export function parseCookies(cookieHeader: string | null): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  for (const item of (cookieHeader || '').split(';').map((cookie) => cookie.trim())) {
+    const [name, ...rest] = item.split('=');
+
+    if (name && rest) {
+      // join the value parts in case it contains '='
+      cookies[decodeURIComponent(name.trim())] = decodeURIComponent(rest.join('=').trim());
+    }
+  }
+
+  return cookies;
+}
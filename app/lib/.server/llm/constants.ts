@@ -3,3 +3,6 @@ export const MAX_TOKENS = 8000;
 
 // limits the number of model responses that can be returned in a single request
 export const MAX_RESPONSE_SEGMENTS = 2;
+
+// limits the number of tool call round trips in a single model response when tool calling is enabled
+export const MAX_TOOL_STEPS = 10;
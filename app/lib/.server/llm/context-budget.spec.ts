@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { budgetContext, getContextWindow, getTokenEstimator } from './context-budget';
+
+// one token per character keeps the numbers easy to follow
+const estimate = (text: string) => text.length;
+
+const message = (role: 'user' | 'assistant', length: number, text = 'x') => ({
+  role,
+  content: text.padEnd(length, 'x'),
+});
+
+describe('budgetContext', () => {
+  const options = {
+    provider: 'OpenAI',
+    model: 'gpt-4o',
+    contextWindow: 1_000,
+    outputTokens: 100,
+    systemPrompt: 'x'.repeat(100),
+    estimate,
+  };
+
+  it('should keep everything that fits', () => {
+    const messages = [message('user', 50), message('assistant', 50), message('user', 50)];
+    const budget = budgetContext({ ...options, fileContexts: ['a'.repeat(100)], messages });
+
+    expect(budget.messages).toEqual(messages);
+    expect(budget.fileContexts).toHaveLength(1);
+    expect(budget.historySummary).toBeUndefined();
+    expect(budget.allocation).toMatchObject({
+      systemPromptTokens: 100,
+      files: { tokens: 100, included: 1, omitted: 0 },
+      history: { tokens: 162, included: 3, omitted: 0, summarized: false },
+      totalTokens: 362,
+    });
+  });
+
+  it('should leave out files beyond their share of the budget', () => {
+    const budget = budgetContext({
+      ...options,
+      fileContexts: ['a'.repeat(300), 'b'.repeat(300), 'c'.repeat(20)],
+      messages: [message('user', 50)],
+    });
+
+    expect(budget.fileContexts).toEqual(['a'.repeat(300), 'c'.repeat(20)]);
+    expect(budget.allocation.files).toEqual({ tokens: 320, included: 2, omitted: 1 });
+  });
+
+  it('should drop the oldest messages and summarize what the user asked for', () => {
+    const messages = [
+      message('user', 300, 'build a todo app'),
+      message('assistant', 300),
+      message('user', 400, '<bolt_file_modifications>diff</bolt_file_modifications> add dark mode'),
+      message('assistant', 200),
+      message('user', 100, 'fix the button'),
+    ];
+    const budget = budgetContext({ ...options, fileContexts: [], messages });
+
+    // the fourth message would still fit, but the history has to start with a user message
+    expect(budget.messages).toEqual(messages.slice(4));
+    expect(budget.allocation.history).toEqual({ tokens: 104, included: 1, omitted: 4, summarized: true });
+    expect(budget.historySummary).toContain('4 earlier messages');
+    expect(budget.historySummary).toContain('- build a todo app');
+    expect(budget.historySummary).toContain(`- add dark mode${'x'.repeat(187)}...`);
+    expect(budget.historySummary).not.toContain('bolt_file_modifications');
+  });
+
+  it('should leave out more messages when the summary would not fit otherwise', () => {
+    const messages = [
+      message('user', 250, 'build a todo app'),
+      message('assistant', 10),
+      message('user', 250, 'add dark mode'),
+      message('assistant', 250),
+      message('user', 100, 'fix the button'),
+    ];
+    const budget = budgetContext({ ...options, fileContexts: [], messages });
+
+    // the last three messages would fit on their own, but not together with the summary of the first two
+    expect(budget.messages).toEqual(messages.slice(4));
+    expect(budget.historySummary).toContain('- add dark mode');
+    expect(budget.allocation.totalTokens).toBeLessThanOrEqual((1_000 - 100) * 0.9);
+  });
+
+  it('should always send the latest message', () => {
+    const messages = [message('user', 2_000)];
+    const budget = budgetContext({ ...options, fileContexts: ['a'], messages });
+
+    expect(budget.messages).toEqual(messages);
+    expect(budget.fileContexts).toEqual([]);
+  });
+});
+
+describe('getContextWindow', () => {
+  it('should look up the window of the model family', () => {
+    expect(getContextWindow('claude-3-5-sonnet-latest')).toBe(200_000);
+    expect(getContextWindow('gpt-4o-mini')).toBe(128_000);
+    expect(getContextWindow('gpt-4')).toBe(8_192);
+    expect(getContextWindow('some-local-model')).toBeUndefined();
+  });
+});
+
+describe('getTokenEstimator', () => {
+  it('should use the ratio of the provider family', () => {
+    expect(getTokenEstimator('OpenAI')('x'.repeat(400))).toBe(100);
+    expect(getTokenEstimator('Ollama')('x'.repeat(320))).toBe(100);
+  });
+});
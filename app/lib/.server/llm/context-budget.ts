@@ -0,0 +1,235 @@
+import type { ContextAllocation } from '~/types/context';
+
+export type TokenEstimator = (text: string) => number;
+
+/**
+ * Rough characters per token for the tokenizers of each provider family. Estimates are good enough here,
+ * the budget keeps a safety margin and real tokenizers would add megabytes to the worker.
+ */
+const CHARS_PER_TOKEN: Record<string, number> = {
+  Anthropic: 3.5,
+  'Val-X': 3.5,
+  AmazonBedrock: 3.5,
+  Google: 4,
+  OpenAI: 4,
+  xAI: 4,
+  Deepseek: 3.5,
+  Mistral: 3.5,
+  Cohere: 4,
+};
+
+// open models served by Ollama, LMStudio, Groq etc. mostly use llama-style tokenizers
+const DEFAULT_CHARS_PER_TOKEN = 3.2;
+
+// context windows of the model families for models without metadata, the first match wins
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/claude|^Z\d/i, 200_000],
+  [/gemini-1\.5-pro|gemini-2/i, 2_000_000],
+  [/gemini/i, 1_000_000],
+  [/gpt-4o|gpt-4-turbo|\bo[13]\b/i, 128_000],
+  [/gpt-3\.5/i, 16_385],
+  [/gpt-4/i, 8_192],
+  [/grok/i, 131_072],
+  [/deepseek/i, 64_000],
+  [/llama-3\.[123]|qwen2\.5|mistral-large|codestral/i, 128_000],
+  [/mixtral|mistral/i, 32_000],
+];
+
+// what models that aren't in the list above get when the user optimizes the context
+export const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+// images count about the same for the providers that accept them
+const IMAGE_TOKENS = 1_000;
+
+// every message adds a few tokens for the role and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// the estimate can be off by a few percent, keep some headroom
+const SAFETY_MARGIN = 0.9;
+
+// share of the prompt budget the file context may use before the history gets to keep the rest
+const MAX_FILES_SHARE = 0.5;
+
+const MAX_SUMMARY_ENTRY_LENGTH = 200;
+
+export function getTokenEstimator(providerName: string): TokenEstimator {
+  const charsPerToken = CHARS_PER_TOKEN[providerName] ?? DEFAULT_CHARS_PER_TOKEN;
+
+  return (text) => Math.ceil(text.length / charsPerToken);
+}
+
+/**
+ * The context window of the model family, `undefined` for models we don't know.
+ */
+export function getContextWindow(modelName: string): number | undefined {
+  return CONTEXT_WINDOWS.find(([pattern]) => pattern.test(modelName))?.[1];
+}
+
+export interface BudgetMessage {
+  role: string;
+  content: string | Array<{ type: string; text?: string }>;
+  toolInvocations?: unknown[];
+}
+
+export interface ContextBudgetOptions<T extends BudgetMessage> {
+  provider: string;
+  model: string;
+  contextWindow: number;
+  outputTokens: number;
+  systemPrompt: string;
+  fileContexts: string[];
+  messages: T[];
+  estimate: TokenEstimator;
+}
+
+export interface ContextBudget<T> {
+  fileContexts: string[];
+  messages: T[];
+
+  /**
+   * Short description of the messages that didn't fit, to be added to the system prompt.
+   */
+  historySummary?: string;
+  allocation: ContextAllocation;
+}
+
+/**
+ * Splits the context window between the system prompt, the file context and the chat history. The system
+ * prompt and the latest message are always sent. Files get up to half of what's left, the history takes the
+ * rest from the newest message backwards, and older messages are replaced with a short summary.
+ */
+export function budgetContext<T extends BudgetMessage>(options: ContextBudgetOptions<T>): ContextBudget<T> {
+  const { contextWindow, outputTokens, systemPrompt, fileContexts, messages, estimate } = options;
+
+  const promptBudget = Math.floor(Math.max(contextWindow - outputTokens, 0) * SAFETY_MARGIN);
+  const systemPromptTokens = estimate(systemPrompt);
+  const messageTokens = messages.map((message) => estimateMessage(message, estimate));
+
+  const lastMessageTokens = messageTokens.at(-1) ?? 0;
+  let remaining = promptBudget - systemPromptTokens - lastMessageTokens;
+
+  const includedFiles: string[] = [];
+  let fileTokens = 0;
+  const filesBudget = Math.max(remaining, 0) * MAX_FILES_SHARE;
+
+  for (const fileContext of fileContexts) {
+    const tokens = estimate(fileContext);
+
+    if (fileTokens + tokens <= filesBudget) {
+      includedFiles.push(fileContext);
+      fileTokens += tokens;
+    }
+  }
+
+  remaining -= fileTokens;
+
+  // the summary of the messages left out shares the budget with the history, it grows as more are left out
+  const summaries = new Map<number, { summary?: string; tokens: number }>();
+  const summarize = (omitted: number) => {
+    if (!summaries.has(omitted)) {
+      const summary = omitted > 0 ? summarizeMessages(messages.slice(0, omitted)) : undefined;
+      summaries.set(omitted, { summary, tokens: summary ? estimate(summary) : 0 });
+    }
+
+    return summaries.get(omitted)!;
+  };
+  const fits = (first: number, tokens: number) => tokens - lastMessageTokens + summarize(first).tokens <= remaining;
+
+  // walk backwards from the message before the latest one until the budget runs out
+  let firstIncluded = messages.length - 1;
+  let historyTokens = lastMessageTokens;
+
+  while (firstIncluded > 0 && fits(firstIncluded - 1, historyTokens + messageTokens[firstIncluded - 1])) {
+    firstIncluded--;
+    historyTokens += messageTokens[firstIncluded];
+  }
+
+  // the history has to start with a user message for most providers
+  while (
+    firstIncluded < messages.length - 1 &&
+    (messages[firstIncluded].role !== 'user' || !fits(firstIncluded, historyTokens))
+  ) {
+    historyTokens -= messageTokens[firstIncluded];
+    firstIncluded++;
+  }
+
+  const omittedMessages = messages.slice(0, Math.max(firstIncluded, 0));
+
+  // without room for the summary the model only gets the latest message
+  const historySummary = fits(firstIncluded, historyTokens) ? summarize(firstIncluded).summary : undefined;
+  const summaryTokens = historySummary ? estimate(historySummary) : 0;
+
+  return {
+    fileContexts: includedFiles,
+    messages: messages.slice(Math.max(firstIncluded, 0)),
+    historySummary,
+    allocation: {
+      provider: options.provider,
+      model: options.model,
+      contextWindow,
+      outputTokens,
+      systemPromptTokens: systemPromptTokens + summaryTokens,
+      files: {
+        tokens: fileTokens,
+        included: includedFiles.length,
+        omitted: fileContexts.length - includedFiles.length,
+      },
+      history: {
+        tokens: historyTokens,
+        included: messages.length - omittedMessages.length,
+        omitted: omittedMessages.length,
+        summarized: !!historySummary,
+      },
+      totalTokens: systemPromptTokens + summaryTokens + fileTokens + historyTokens,
+    },
+  };
+}
+
+function estimateMessage(message: BudgetMessage, estimate: TokenEstimator) {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  if (typeof message.content === 'string') {
+    tokens += estimate(message.content);
+  } else {
+    for (const part of message.content) {
+      tokens += part.type === 'text' ? estimate(part.text ?? '') : IMAGE_TOKENS;
+    }
+  }
+
+  if (message.toolInvocations?.length) {
+    tokens += estimate(JSON.stringify(message.toolInvocations));
+  }
+
+  return tokens;
+}
+
+/**
+ * Keeps what the user asked for in the dropped messages, the assistant's answers are mostly code that
+ * the file context already covers.
+ */
+function summarizeMessages(messages: BudgetMessage[]) {
+  const requests = messages
+    .filter((message) => message.role === 'user')
+    .map((message) => {
+      const text =
+        typeof message.content === 'string'
+          ? message.content
+          : message.content.map((part) => (part.type === 'text' ? part.text : '')).join(' ');
+
+      // drop the metadata blocks like file modifications that are prepended to user messages
+      const request = text
+        .replace(/<(\w+)[^>]*>[\s\S]*?<\/\1>/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+      return request.length > MAX_SUMMARY_ENTRY_LENGTH ? `${request.slice(0, MAX_SUMMARY_ENTRY_LENGTH)}...` : request;
+    })
+    .filter(Boolean);
+
+  return [
+    `<chat_history_summary>`,
+    `  ${messages.length} earlier messages of this conversation were left out to fit the context window.`,
+    ...(requests.length > 0 ? ['  In those messages the user asked for:', ...requests.map((r) => `  - ${r}`)] : []),
+    `</chat_history_summary>`,
+  ].join('\n');
+}
@@ -0,0 +1,53 @@
+import { APICallError, RetryError, type StreamTextResult } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { getStreamStartError, isRetryableError } from './failover';
+
+describe('isRetryableError', () => {
+  const apiError = (statusCode: number) =>
+    new APICallError({ message: 'failed', url: 'https://api.example.com', requestBodyValues: {}, statusCode });
+
+  it('should retry rate limits and overloaded or unavailable providers', () => {
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(529))).toBe(true);
+    expect(isRetryableError(apiError(503))).toBe(true);
+  });
+
+  it('should not retry errors that would fail the same way with every model', () => {
+    expect(isRetryableError(apiError(400))).toBe(false);
+    expect(isRetryableError(apiError(401))).toBe(false);
+    expect(isRetryableError(new Error('Missing API key'))).toBe(false);
+  });
+
+  it('should look at the last error once the provider gave up retrying', () => {
+    const retryError = (lastError: unknown) =>
+      new RetryError({ message: 'gave up', reason: 'maxRetriesExceeded', errors: [lastError] });
+
+    expect(isRetryableError(retryError(apiError(429)))).toBe(true);
+    expect(isRetryableError(retryError(apiError(400)))).toBe(false);
+  });
+});
+
+describe('getStreamStartError', () => {
+  const createResult = (...parts: unknown[]) =>
+    ({
+      fullStream: new ReadableStream({
+        start(controller) {
+          parts.forEach((part) => controller.enqueue(part));
+          controller.close();
+        },
+      }),
+    }) as unknown as StreamTextResult<any, any>;
+
+  it('should return the error of a stream that fails right away', async () => {
+    const error = new Error('overloaded');
+
+    expect(await getStreamStartError(createResult({ type: 'error', error }))).toBe(error);
+  });
+
+  it('should ignore errors after the response started', async () => {
+    const result = createResult({ type: 'text-delta', textDelta: 'Hi' }, { type: 'error', error: new Error() });
+
+    expect(await getStreamStartError(result)).toBeUndefined();
+    expect(await getStreamStartError(createResult())).toBeUndefined();
+  });
+});
@@ -0,0 +1,36 @@
+import { APICallError, RetryError, type StreamTextResult } from 'ai';
+
+// 529 is Anthropic's "overloaded" status, the rest are rate limits, timeouts and unavailable upstreams
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504, 529];
+
+/**
+ * Whether the next model in the fallback chain should get a chance, errors like an invalid request would
+ * fail the same way everywhere.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (RetryError.isInstance(error)) {
+    return isRetryableError(error.lastError);
+  }
+
+  if (APICallError.isInstance(error)) {
+    return error.statusCode !== undefined ? RETRYABLE_STATUS_CODES.includes(error.statusCode) : error.isRetryable;
+  }
+
+  return false;
+}
+
+/**
+ * Resolves with the error if the stream fails before producing any output, and with `undefined` as soon
+ * as the first chunk arrives. Reads from a copy of the stream, the result can still be consumed as a whole.
+ */
+export async function getStreamStartError(result: StreamTextResult<any, any>): Promise<unknown> {
+  const reader = result.fullStream.getReader();
+
+  try {
+    const { done, value } = await reader.read();
+
+    return !done && value.type === 'error' ? value.error : undefined;
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
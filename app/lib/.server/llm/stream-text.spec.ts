@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { streamText } from './stream-text';
+import { CustomOpenAIProvider } from '~/lib/modules/llm/custom-provider';
+import type { GenerationParameters } from '~/types/model';
+
+function sse(events: unknown[]) {
+  return new Response(events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join(''), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+const ANTHROPIC_EVENTS = [
+  {
+    type: 'message_start',
+    message: { id: 'msg_1', model: 'claude-3-5-sonnet-latest', usage: { input_tokens: 10, output_tokens: 1 } },
+  },
+  { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+  { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+  { type: 'content_block_stop', index: 0 },
+  { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 1 } },
+  { type: 'message_stop' },
+];
+
+const OPENAI_EVENTS = [
+  {
+    id: 'chatcmpl-1',
+    created: 0,
+    model: 'gpt-4o',
+    choices: [{ index: 0, delta: { role: 'assistant', content: 'Hi' }, finish_reason: null }],
+  },
+  {
+    id: 'chatcmpl-1',
+    created: 0,
+    model: 'gpt-4o',
+    choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 10, completion_tokens: 1 },
+  },
+];
+
+async function sendRequest(
+  provider: string,
+  model: string,
+  parameters: GenerationParameters,
+  response: Response,
+  props: Partial<Parameters<typeof streamText>[0]> = {},
+) {
+  const fetch = vi.fn().mockResolvedValue(response);
+  vi.stubGlobal('fetch', fetch);
+
+  const result = await streamText({
+    messages: [{ role: 'user', content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\nhi` }],
+    env: {} as Env,
+    apiKeys: { [provider]: 'secret' },
+    generationParameters: { [provider]: parameters },
+    ...props,
+  });
+
+  // the request is sent once the stream is read
+  const reader = result.textStream.getReader();
+
+  while (!(await reader.read()).done) {
+    // drain
+  }
+
+  const [, init] = fetch.mock.calls[0] as [string, RequestInit];
+
+  return { headers: init.headers as Record<string, string>, body: JSON.parse(init.body as string) };
+}
+
+describe('streamText', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should mark the system prompt for caching on Anthropic', async () => {
+    const { headers, body } = await sendRequest(
+      'Anthropic',
+      'claude-3-5-sonnet-latest',
+      { promptCaching: true },
+      sse(ANTHROPIC_EVENTS),
+    );
+
+    expect(headers['anthropic-beta']).toContain('prompt-caching-2024-07-31');
+    expect(body.system).toEqual([{ type: 'text', text: expect.any(String), cache_control: { type: 'ephemeral' } }]);
+  });
+
+  it('should leave the system prompt unmarked and skip the beta header without prompt caching', async () => {
+    const { headers, body } = await sendRequest('Anthropic', 'claude-3-5-sonnet-latest', {}, sse(ANTHROPIC_EVENTS));
+
+    expect(headers['anthropic-beta']).toBeUndefined();
+    expect(body.system[0].cache_control).toBeUndefined();
+  });
+
+  it('should send the reasoning effort to OpenAI', async () => {
+    const { body } = await sendRequest('OpenAI', 'gpt-4o', { reasoningEffort: 'high' }, sse(OPENAI_EVENTS));
+
+    expect(body.reasoning_effort).toBe('high');
+  });
+
+  describe('with a model of unknown context window', () => {
+    const provider = new CustomOpenAIProvider({ name: 'vLLM', baseUrl: 'http://gpu-box:8000/v1' });
+
+    vi.spyOn(provider, 'getDynamicModels').mockResolvedValue([
+      { name: 'long-context-model', label: 'long-context-model', provider: 'vLLM', maxTokenAllowed: 8000 },
+    ]);
+
+    // about 60k tokens, more than the default window
+    const messages = Array.from({ length: 20 }, (_, index) => [
+      {
+        id: `${index}u`,
+        role: 'user' as const,
+        content: `[Model: long-context-model]\n\n[Provider: vLLM]\n\n${'x'.repeat(10_000)}`,
+      },
+      { id: `${index}a`, role: 'assistant' as const, content: 'y'.repeat(10_000) },
+    ]).flat();
+
+    it('should send the whole history', async () => {
+      const { body } = await sendRequest('vLLM', 'long-context-model', {}, sse(OPENAI_EVENTS), {
+        messages,
+        customProviders: [provider],
+      });
+
+      expect(body.messages.filter((message: { role: string }) => message.role !== 'system')).toHaveLength(40);
+    });
+
+    it('should trim the history to the default window when the context is optimized', async () => {
+      const { body } = await sendRequest('vLLM', 'long-context-model', {}, sse(OPENAI_EVENTS), {
+        messages,
+        customProviders: [provider],
+        contextOptimization: true,
+      });
+
+      expect(body.messages.filter((message: { role: string }) => message.role !== 'system').length).toBeLessThan(40);
+    });
+  });
+});
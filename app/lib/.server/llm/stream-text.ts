@@ -1,20 +1,29 @@
 import { convertToCoreMessages, streamText as _streamText } from 'ai';
-import { MAX_TOKENS } from './constants';
+import { MAX_TOKENS, MAX_TOOL_STEPS } from './constants';
+import { budgetContext, DEFAULT_CONTEXT_WINDOW, getContextWindow, getTokenEstimator } from './context-budget';
+import { getStreamStartError, isRetryableError } from './failover';
+import { actionTools, TOOL_CALLING_PROMPT } from './tools';
 import { getSystemPrompt } from '~/lib/common/prompts/prompts';
 import {
   DEFAULT_MODEL,
   DEFAULT_PROVIDER,
   MODEL_REGEX,
   MODIFICATIONS_TAG_NAME,
-  PROVIDER_LIST,
   PROVIDER_REGEX,
   WORK_DIR,
 } from '~/utils/constants';
 import ignore from 'ignore';
-import type { IProviderSetting } from '~/types/model';
+import type { GenerationParameters, IProviderSetting, ModelFallback, RespondingModel } from '~/types/model';
+import type { ContextAllocation } from '~/types/context';
 import { PromptLibrary } from '~/lib/common/prompt-library';
 import { allowedHTMLElements } from '~/utils/markdown';
 import { LLMManager } from '~/lib/modules/llm/manager';
+import type { BaseProvider } from '~/lib/modules/llm/base-provider';
+import {
+  getSamplingParameters,
+  resolveGenerationParameters,
+  validateGenerationParameters,
+} from '~/lib/modules/llm/generation-parameters';
 import { createScopedLogger } from '~/utils/logger';
 
 interface ToolResult<Name extends string, Args, Result> {
@@ -50,8 +59,8 @@ type Dirent = File | Folder;
 export type FileMap = Record<string, Dirent | undefined>;
 
 export function simplifyBoltActions(input: string): string {
-  // Using regex to match boltAction tags that have type="file"
-  const regex = /(<boltAction[^>]*type="file"[^>]*>)([\s\S]*?)(<\/boltAction>)/g;
+  // Using regex to match boltAction tags that have type="file", skipping over CDATA sections in their content
+  const regex = /(<boltAction[^>]*type=["']file["'][^>]*>)((?:<!\[CDATA\[[\s\S]*?\]\]>|[\s\S])*?)(<\/boltAction>)/g;
 
   // Replace each matching occurrence
   return input.replace(regex, (_0, openingTag, _2, closingTag) => {
@@ -59,6 +68,17 @@ export function simplifyBoltActions(input: string): string {
   });
 }
 
+/**
+ * Drops the file contents from previous `writeFile` tool calls, the same way `simplifyBoltActions` does for file actions.
+ */
+function simplifyToolInvocation(invocation: ToolResult<string, unknown, unknown>) {
+  if (invocation.toolName !== 'writeFile') {
+    return invocation;
+  }
+
+  return { ...invocation, args: { ...(invocation.args as Record<string, unknown>), content: '...' } };
+}
+
 // Common patterns to ignore, similar to .gitignore
 const IGNORE_PATTERNS = [
   'node_modules/**',
@@ -80,7 +100,10 @@ const IGNORE_PATTERNS = [
 ];
 const ig = ignore().add(IGNORE_PATTERNS);
 
-function createFilesContext(files: FileMap) {
+/**
+ * One `<file>` block per file, so the context budget can leave out files that don't fit.
+ */
+function getFileContexts(files: FileMap) {
   let filePaths = Object.keys(files);
   filePaths = filePaths.filter((x) => {
     const relPath = x.replace('/home/project/', '');
@@ -88,7 +111,7 @@ function createFilesContext(files: FileMap) {
   });
 
   const fileContexts = filePaths
-    .filter((x) => files[x] && files[x].type == 'file')
+    .filter((x) => files[x] && files[x].type == 'file' && !files[x].isBinary)
     .map((path) => {
       const dirent = files[path];
 
@@ -104,10 +127,14 @@ function createFilesContext(files: FileMap) {
       return `<file path="${path}">\n${codeWithLinesNumbers}\n</file>`;
     });
 
+  return fileContexts;
+}
+
+function createFilesContext(fileContexts: string[]) {
   return `Below are the code files present in the webcontainer:\ncode format:\n<line number>|<line content>\n <codebase>${fileContexts.join('\n\n')}\n\n</codebase>`;
 }
 
-function extractPropertiesFromMessage(message: Message): { model: string; provider: string; content: string } {
+function extractPropertiesFromMessage(message: Message): { model?: string; provider?: string; content: string } {
   const textContent = Array.isArray(message.content)
     ? message.content.find((item) => item.type === 'text')?.text || ''
     : message.content;
@@ -119,13 +146,13 @@ function extractPropertiesFromMessage(message: Message): { model: string; provid
    * Extract model
    * const modelMatch = message.content.match(MODEL_REGEX);
    */
-  const model = modelMatch ? modelMatch[1] : DEFAULT_MODEL;
+  const model = modelMatch?.[1];
 
   /*
    * Extract provider
    * const providerMatch = message.content.match(PROVIDER_REGEX);
    */
-  const provider = providerMatch ? providerMatch[1] : DEFAULT_PROVIDER.name;
+  const provider = providerMatch?.[1];
 
   const cleanedContent = Array.isArray(message.content)
     ? message.content.map((item) => {
@@ -152,10 +179,44 @@ export async function streamText(props: {
   apiKeys?: Record<string, string>;
   files?: FileMap;
   providerSettings?: Record<string, IProviderSetting>;
+
+  /**
+   * The custom endpoints of the user, built for this request with `LLMManager.createCustomProviders`.
+   */
+  customProviders?: BaseProvider[];
   promptId?: string;
   contextOptimization?: boolean;
+  toolCalling?: boolean;
+
+  /**
+   * Models that answer instead when the one the user picked fails with a retryable error, e.g. a rate limit,
+   * before streaming anything.
+   */
+  fallbackModels?: ModelFallback[];
+
+  /**
+   * Parameters saved in the settings, keyed by provider and by provider and model.
+   */
+  generationParameters?: Record<string, GenerationParameters>;
+  onModelSelected?: (model: RespondingModel) => void;
+  onContextAllocated?: (allocation: ContextAllocation) => void;
 }) {
-  const { messages, env: serverEnv, options, apiKeys, files, providerSettings, promptId, contextOptimization } = props;
+  const {
+    messages,
+    env: serverEnv,
+    options,
+    apiKeys,
+    files,
+    providerSettings,
+    customProviders,
+    promptId,
+    contextOptimization,
+    toolCalling,
+    fallbackModels,
+    generationParameters,
+    onModelSelected,
+    onContextAllocated,
+  } = props;
 
   // console.log({serverEnv});
 
@@ -164,26 +225,181 @@ export async function streamText(props: {
   const processedMessages = messages.map((message) => {
     if (message.role === 'user') {
       const { model, provider, content } = extractPropertiesFromMessage(message);
-      currentModel = model;
-      currentProvider = provider;
+
+      // continuation prompts don't name a model, the conversation stays with the last one
+      currentModel = model ?? currentModel;
+      currentProvider = provider ?? currentProvider;
 
       return { ...message, content };
     } else if (message.role == 'assistant') {
       let content = message.content;
+      let toolInvocations = toolCalling ? message.toolInvocations : undefined;
 
       if (contextOptimization) {
         content = simplifyBoltActions(content);
+        toolInvocations = toolInvocations?.map(simplifyToolInvocation);
       }
 
-      return { ...message, content };
+      return { ...message, content, toolInvocations };
     }
 
     return message;
   });
 
-  const provider = PROVIDER_LIST.find((p) => p.name === currentProvider) || DEFAULT_PROVIDER;
+  let systemPrompt =
+    PromptLibrary.getPropmtFromLibrary(promptId || 'default', {
+      cwd: WORK_DIR,
+      allowedHtmlElements: allowedHTMLElements,
+      modificationTagName: MODIFICATIONS_TAG_NAME,
+    }) ?? getSystemPrompt();
+
+  if (toolCalling) {
+    systemPrompt = `${systemPrompt}\n\n${TOOL_CALLING_PROMPT}`;
+  }
+
+  const fileContexts = files && contextOptimization ? getFileContexts(files) : [];
+
+  const candidates = [
+    { provider: currentProvider, model: currentModel },
+    ...(fallbackModels ?? []).filter(
+      (fallback) => fallback.provider !== currentProvider || fallback.model !== currentModel,
+    ),
+  ];
+
+  let failedResult: Awaited<ReturnType<typeof _streamText>> | undefined;
+
+  for (const [index, candidate] of candidates.entries()) {
+    const isFallback = index > 0;
+    let model: Awaited<ReturnType<typeof resolveModel>>;
+
+    try {
+      model = await resolveModel(candidate, { serverEnv, apiKeys, providerSettings, customProviders });
+    } catch (error) {
+      // a misconfigured fallback shouldn't hide the error of the model the user picked
+      if (!isFallback) {
+        throw error;
+      }
+
+      logger.warn(`Skipping fallback ${candidate.provider}/${candidate.model}: ${error}`);
+      continue;
+    }
+
+    const { provider, modelDetails, instance } = model;
+    const maxTokens = Math.min(modelDetails.maxTokenAllowed || MAX_TOKENS, modelDetails.maxOutputTokens ?? Infinity);
+
+    /*
+     * Guessing the window of a model we don't know would drop the history of large-context custom and dynamic
+     * models, so they only get the default window when the user optimizes the context.
+     */
+    const contextWindow =
+      modelDetails.contextWindow ??
+      getContextWindow(candidate.model) ??
+      (contextOptimization ? DEFAULT_CONTEXT_WINDOW : undefined);
+
+    const budget =
+      contextWindow === undefined
+        ? undefined
+        : budgetContext({
+            provider: provider.name,
+            model: candidate.model,
+            contextWindow,
+            outputTokens: maxTokens,
+            systemPrompt,
+            fileContexts,
+            messages: processedMessages,
+            estimate: getTokenEstimator(provider.name),
+          });
+
+    if (budget && (budget.allocation.history.omitted > 0 || budget.allocation.files.omitted > 0)) {
+      logger.info(
+        `Context trimmed for ${candidate.model}: left out ${budget.allocation.history.omitted} messages and ${budget.allocation.files.omitted} files`,
+      );
+    }
+
+    let system = systemPrompt;
+
+    if (budget?.historySummary) {
+      system = `${system}\n\n${budget.historySummary}`;
+    }
+
+    if (contextOptimization && files) {
+      system = `${system}\n\n ${createFilesContext(budget?.fileContexts ?? fileContexts)}`;
+    }
+
+    const { parameters, errors } = validateGenerationParameters(
+      resolveGenerationParameters(generationParameters, provider.name, candidate.model),
+      provider.supportedParameters,
+    );
+
+    if (errors.length > 0) {
+      logger.warn(`Ignoring generation parameters for ${provider.name}/${candidate.model}: ${errors.join(', ')}`);
+    }
+
+    const { headers, providerMetadata, systemMetadata } = provider.getProviderOptions(parameters);
+    const coreMessages = convertToCoreMessages((budget?.messages ?? processedMessages) as any);
+
+    logger.info(`Sending llm call to ${provider.name} with model ${candidate.model}`);
+
+    const result = await _streamText({
+      model: instance,
+      maxTokens,
+
+      // metadata like cache markers can only be attached to the system prompt as a message
+      ...(systemMetadata
+        ? {
+            messages: [
+              { role: 'system' as const, content: system, experimental_providerMetadata: systemMetadata },
+              ...coreMessages,
+            ],
+          }
+        : { system, messages: coreMessages }),
+      ...getSamplingParameters(parameters),
+      headers,
+      experimental_providerMetadata: providerMetadata,
+      ...(toolCalling ? { tools: actionTools, maxSteps: MAX_TOOL_STEPS } : {}),
+      ...options,
+    });
+
+    if (index < candidates.length - 1) {
+      const error = await getStreamStartError(result);
+
+      if (error && isRetryableError(error)) {
+        logger.warn(`${provider.name}/${candidate.model} failed before responding, trying the next model: ${error}`);
+        failedResult = result;
+        continue;
+      }
+    }
+
+    onModelSelected?.({ provider: provider.name, model: candidate.model, isFallback });
+
+    if (budget) {
+      onContextAllocated?.(budget.allocation);
+    }
+
+    return result;
+  }
+
+  // every remaining fallback was skipped, the client gets the error of the last model that was tried
+  if (!failedResult) {
+    throw new Error('No model available to answer the request');
+  }
+
+  return failedResult;
+}
+
+async function resolveModel(
+  { provider: providerName, model: modelName }: ModelFallback,
+  options: {
+    serverEnv: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+    customProviders?: BaseProvider[];
+  },
+) {
+  const { serverEnv, apiKeys, providerSettings, customProviders } = options;
+  const provider = LLMManager.getInstance().getProvider(providerName, customProviders) || DEFAULT_PROVIDER;
   const staticModels = LLMManager.getInstance().getStaticModelListFromProvider(provider);
-  let modelDetails = staticModels.find((m) => m.name === currentModel);
+  let modelDetails = staticModels.find((m) => m.name === modelName);
 
   if (!modelDetails) {
     const modelsList = [
@@ -199,43 +415,23 @@ export async function streamText(props: {
       throw new Error(`No models found for provider ${provider.name}`);
     }
 
-    modelDetails = modelsList.find((m) => m.name === currentModel);
+    modelDetails = modelsList.find((m) => m.name === modelName);
 
     if (!modelDetails) {
       // Fallback to first model
       logger.warn(
-        `MODEL [${currentModel}] not found in provider [${provider.name}]. Falling back to first model. ${modelsList[0].name}`,
+        `MODEL [${modelName}] not found in provider [${provider.name}]. Falling back to first model. ${modelsList[0].name}`,
       );
       modelDetails = modelsList[0];
     }
   }
 
-  const dynamicMaxTokens = modelDetails && modelDetails.maxTokenAllowed ? modelDetails.maxTokenAllowed : MAX_TOKENS;
-
-  let systemPrompt =
-    PromptLibrary.getPropmtFromLibrary(promptId || 'default', {
-      cwd: WORK_DIR,
-      allowedHtmlElements: allowedHTMLElements,
-      modificationTagName: MODIFICATIONS_TAG_NAME,
-    }) ?? getSystemPrompt();
-
-  if (files && contextOptimization) {
-    const codeContext = createFilesContext(files);
-    systemPrompt = `${systemPrompt}\n\n ${codeContext}`;
-  }
-
-  logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
-
-  return await _streamText({
-    model: provider.getModelInstance({
-      model: currentModel,
-      serverEnv,
-      apiKeys,
-      providerSettings,
-    }),
-    system: systemPrompt,
-    maxTokens: dynamicMaxTokens,
-    messages: convertToCoreMessages(processedMessages as any),
-    ...options,
+  const instance = LLMManager.getInstance().getModelInstance(provider, {
+    model: modelName,
+    serverEnv,
+    apiKeys,
+    providerSettings,
   });
+
+  return { provider, modelDetails, instance };
 }
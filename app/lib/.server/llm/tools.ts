@@ -0,0 +1,45 @@
+import { tool, type CoreTool } from 'ai';
+import { z } from 'zod';
+import { WORK_DIR } from '~/utils/constants';
+
+/**
+ * Tools that replace the `<boltArtifact>` tags when tool calling is enabled. They only acknowledge the call,
+ * the actions themselves run in the browser once the client picks up the tool calls from the stream.
+ */
+export const actionTools: Record<string, CoreTool> = {
+  writeFile: tool({
+    description: 'Create a new file or replace the contents of an existing file in the project.',
+    parameters: z.object({
+      filePath: z.string().describe(`Path of the file relative to ${WORK_DIR}`),
+      content: z.string().describe('The complete content of the file, never truncated or abbreviated'),
+      encoding: z.enum(['utf8', 'base64']).optional().describe('Use base64 for binary files like images or fonts'),
+    }),
+    execute: async ({ filePath }) => `Writing ${filePath} in the workbench.`,
+  }),
+  runShell: tool({
+    description: 'Run a shell command, e.g. to install dependencies. Commands run one after another.',
+    parameters: z.object({
+      command: z.string().describe('The command to run, chain multiple commands with &&'),
+    }),
+    execute: async ({ command }) => `Running \`${command}\` in the workbench.`,
+  }),
+  startServer: tool({
+    description: 'Start the development server. Only call this once, after all files are written.',
+    parameters: z.object({
+      command: z.string().describe('The command that starts the dev server, e.g. `npm run dev`'),
+    }),
+    execute: async ({ command }) => `Starting \`${command}\` in the workbench.`,
+  }),
+};
+
+export const TOOL_CALLING_PROMPT = `
+<tool_calling_instructions>
+  IMPORTANT: Do NOT use \`<boltArtifact>\` or \`<boltAction>\` tags in this conversation. Use the following tools instead:
+
+  - writeFile: create or update a file, always pass the complete file content
+  - runShell: run shell commands like installing dependencies
+  - startServer: start the dev server, call it last
+
+  Call the tools in the order the actions have to run, e.g. write \`package.json\` before installing dependencies.
+</tool_calling_instructions>
+`;
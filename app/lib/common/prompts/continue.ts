@@ -0,0 +1,10 @@
+import { stripIndents } from '~/utils/stripIndent';
+
+/*
+ * Kept apart from the system prompt so the providers can use it without loading `~/utils/constants`, which
+ * needs the provider registry to be loaded already.
+ */
+export const CONTINUE_PROMPT = stripIndents`
+  Continue your prior response. IMPORTANT: Immediately begin from where you left off without any interruptions.
+  Do not repeat any content, including artifact and action tags.
+`;
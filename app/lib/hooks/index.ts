@@ -3,4 +3,5 @@ export * from './usePromptEnhancer';
 export * from './useShortcuts';
 export * from './useSnapScroll';
 export * from './useEditChatDescription';
+export * from './useModelComparison';
 export { default } from './useViewport';
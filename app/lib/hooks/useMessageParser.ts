@@ -1,47 +1,51 @@
 import type { Message } from 'ai';
 import { useCallback, useState } from 'react';
-import { StreamingMessageParser } from '~/lib/runtime/message-parser';
+import { StreamingMessageParser, type ParserCallbacks } from '~/lib/runtime/message-parser';
+import { ToolCallParser } from '~/lib/runtime/tool-call-parser';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('useMessageParser');
 
-const messageParser = new StreamingMessageParser({
-  callbacks: {
-    onArtifactOpen: (data) => {
-      logger.trace('onArtifactOpen', data);
+const callbacks: ParserCallbacks = {
+  onArtifactOpen: (data) => {
+    logger.trace('onArtifactOpen', data);
 
-      workbenchStore.showWorkbench.set(true);
-      workbenchStore.addArtifact(data);
-    },
-    onArtifactClose: (data) => {
-      logger.trace('onArtifactClose');
+    workbenchStore.showWorkbench.set(true);
+    workbenchStore.addArtifact(data);
+  },
+  onArtifactClose: (data) => {
+    logger.trace('onArtifactClose');
 
-      workbenchStore.updateArtifact(data, { closed: true });
-    },
-    onActionOpen: (data) => {
-      logger.trace('onActionOpen', data.action);
+    workbenchStore.updateArtifact(data, { closed: true });
+  },
+  onActionOpen: (data) => {
+    logger.trace('onActionOpen', data.action);
 
-      // we only add shell actions when when the close tag got parsed because only then we have the content
-      if (data.action.type === 'file') {
-        workbenchStore.addAction(data);
-      }
-    },
-    onActionClose: (data) => {
-      logger.trace('onActionClose', data.action);
+    // we only add shell actions when when the close tag got parsed because only then we have the content
+    if (data.action.type === 'file') {
+      workbenchStore.addAction(data);
+    }
+  },
+  onActionClose: (data) => {
+    logger.trace('onActionClose', data.action);
 
-      if (data.action.type !== 'file') {
-        workbenchStore.addAction(data);
-      }
+    if (data.action.type !== 'file') {
+      workbenchStore.addAction(data);
+    }
 
-      workbenchStore.runAction(data);
-    },
-    onActionStream: (data) => {
-      logger.trace('onActionStream', data.action);
-      workbenchStore.runAction(data, true);
-    },
+    workbenchStore.runAction(data);
+  },
+  onActionStream: (data) => {
+    logger.trace('onActionStream', data.action);
+    workbenchStore.runAction(data, true);
   },
-});
+};
+
+const messageParser = new StreamingMessageParser({ callbacks });
+
+// tool calls share the callbacks so both modes end up in the same workbench pipeline
+const toolCallParser = new ToolCallParser({ callbacks });
 
 export function useMessageParser() {
   const [parsedMessages, setParsedMessages] = useState<{ [key: number]: string }>({});
@@ -52,11 +56,15 @@ export function useMessageParser() {
     if (import.meta.env.DEV && !isLoading) {
       reset = true;
       messageParser.reset();
+      toolCallParser.reset();
     }
 
     for (const [index, message] of messages.entries()) {
       if (message.role === 'assistant') {
-        const newParsedContent = messageParser.parse(message.id, message.content);
+        const done = !isLoading || index < messages.length - 1;
+        const newParsedContent =
+          messageParser.parse(message.id, message.content) +
+          toolCallParser.parse(message.id, message.toolInvocations ?? [], done);
 
         setParsedMessages((prevParsed) => ({
           ...prevParsed,
@@ -0,0 +1,101 @@
+import { processDataStream, type Message } from 'ai';
+import { useCallback, useRef, useState } from 'react';
+import { withModel, type ComparedResponse, type ComparedUserMessage } from '~/lib/runtime/comparison';
+import type { ModelFallback } from '~/types/model';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('useModelComparison');
+
+interface CompareOptions {
+  messages: Message[];
+
+  userMessage: ComparedUserMessage;
+  models: ModelFallback[];
+  body: Record<string, unknown>;
+}
+
+/**
+ * Sends the same message to several models through `api.chat` and streams their responses side by side. Nothing
+ * reaches the chat or the workbench until one of them is picked.
+ */
+export function useModelComparison() {
+  const [responses, setResponses] = useState<ComparedResponse[]>([]);
+  const [userMessage, setUserMessage] = useState<ComparedUserMessage>();
+  const abortControllers = useRef<AbortController[]>([]);
+
+  const updateResponse = (index: number, update: (response: ComparedResponse) => Partial<ComparedResponse>) => {
+    setResponses((current) =>
+      current.map((response, i) => (i === index ? { ...response, ...update(response) } : response)),
+    );
+  };
+
+  const compare = useCallback(async ({ messages, userMessage, models, body }: CompareOptions) => {
+    abortControllers.current.forEach((controller) => controller.abort());
+    abortControllers.current = models.map(() => new AbortController());
+
+    setUserMessage(userMessage);
+    setResponses(models.map((model) => ({ ...model, content: '', annotations: [], isStreaming: true })));
+
+    await Promise.all(
+      models.map(async (model, index) => {
+        try {
+          const response = await fetch('/api/chat', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            signal: abortControllers.current[index].signal,
+            body: JSON.stringify({
+              ...body,
+
+              // tool calls would run against the workbench before anything was picked
+              toolCalling: false,
+              messages: [
+                ...messages,
+                { ...userMessage, id: `compare-${index}`, content: withModel(userMessage.content, model) },
+              ],
+            }),
+          });
+
+          if (!response.ok || !response.body) {
+            throw new Error((await response.text()) || response.statusText);
+          }
+
+          await processDataStream({
+            stream: response.body,
+            onTextPart: (text) => updateResponse(index, (current) => ({ content: current.content + text })),
+            onMessageAnnotationsPart: (annotations) =>
+              updateResponse(index, (current) => ({ annotations: [...current.annotations, ...annotations] })),
+            onErrorPart: (error) => updateResponse(index, () => ({ error })),
+          });
+        } catch (error) {
+          if (error instanceof Error && error.name === 'AbortError') {
+            return;
+          }
+
+          logger.error(`Comparison with ${model.provider}/${model.model} failed`, error);
+          updateResponse(index, () => ({ error: error instanceof Error ? error.message : String(error) }));
+        } finally {
+          updateResponse(index, () => ({ isStreaming: false }));
+        }
+      }),
+    );
+  }, []);
+
+  const stopComparison = useCallback(() => {
+    abortControllers.current.forEach((controller) => controller.abort());
+  }, []);
+
+  const clearComparison = useCallback(() => {
+    stopComparison();
+    setResponses([]);
+    setUserMessage(undefined);
+  }, []);
+
+  return {
+    responses,
+    userMessage,
+    isComparing: responses.some((response) => response.isStreaming),
+    compare,
+    stopComparison,
+    clearComparison,
+  };
+}
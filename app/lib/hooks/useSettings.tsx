@@ -4,15 +4,36 @@ import {
   isEventLogsEnabled,
   isLocalModelsEnabled,
   LOCAL_PROVIDERS,
+  MOCK_PROVIDER,
+  MOCK_PROVIDER_AVAILABLE,
+  isMockProviderEnabled,
   promptStore,
   providersStore,
   latestBranchStore,
   autoSelectStarterTemplate,
   enableContextOptimizationStore,
+  autoRollbackStore,
+  toolCallingStore,
+  commandPolicyStore,
+  autoFixStore,
+  shellExecutionSettingsStore,
+  fallbackModelsStore,
+  customProvidersStore,
+  syncCustomProviders,
+  generationParametersStore,
+  type ShellExecutionSettings,
 } from '~/lib/stores/settings';
 import { useCallback, useEffect, useState } from 'react';
 import Cookies from 'js-cookie';
-import type { IProviderSetting, ProviderInfo } from '~/types/model';
+import type {
+  CustomProviderConfig,
+  GenerationParameters,
+  IProviderSetting,
+  ModelFallback,
+  ProviderInfo,
+} from '~/types/model';
+import type { CommandPolicy } from '~/lib/runtime/command-policy';
+import type { AutoFixSettings } from '~/lib/runtime/auto-fix';
 import { logStore } from '~/lib/stores/logs'; // assuming logStore is imported from this location
 
 interface CommitData {
@@ -31,10 +52,19 @@ export function useSettings() {
   const eventLogs = useStore(isEventLogsEnabled);
   const promptId = useStore(promptStore);
   const isLocalModel = useStore(isLocalModelsEnabled);
+  const isMockProvider = useStore(isMockProviderEnabled);
   const isLatestBranch = useStore(latestBranchStore);
   const autoSelectTemplate = useStore(autoSelectStarterTemplate);
   const [activeProviders, setActiveProviders] = useState<ProviderInfo[]>([]);
   const contextOptimizationEnabled = useStore(enableContextOptimizationStore);
+  const autoRollback = useStore(autoRollbackStore);
+  const toolCallingEnabled = useStore(toolCallingStore);
+  const shellExecutionSettings = useStore(shellExecutionSettingsStore);
+  const commandPolicy = useStore(commandPolicyStore);
+  const autoFix = useStore(autoFixStore);
+  const fallbackModels = useStore(fallbackModelsStore);
+  const customProviders = useStore(customProvidersStore);
+  const generationParameters = useStore(generationParametersStore);
 
   // Function to check if we're on stable version
   const checkIsStableVersion = async () => {
@@ -53,17 +83,29 @@ export function useSettings() {
 
   // reading values from cookies on mount
   useEffect(() => {
+    // custom endpoints go first so their provider settings are restored below
+    const savedCustomProviders = Cookies.get('customProviders');
+
+    if (savedCustomProviders) {
+      try {
+        syncCustomProviders(JSON.parse(savedCustomProviders) as CustomProviderConfig[]);
+      } catch (error) {
+        console.error('Failed to parse custom providers from cookies:', error);
+      }
+    }
+
     const savedProviders = Cookies.get('providers');
 
     if (savedProviders) {
       try {
         const parsedProviders: Record<string, IProviderSetting> = JSON.parse(savedProviders);
-        Object.keys(providers).forEach((provider) => {
+        const currentProviders = providersStore.get();
+        Object.keys(currentProviders).forEach((provider) => {
           const currentProviderSettings = parsedProviders[provider];
 
           if (currentProviderSettings) {
             providersStore.setKey(provider, {
-              ...providers[provider],
+              ...currentProviders[provider],
               settings: {
                 ...currentProviderSettings,
                 enabled: currentProviderSettings.enabled ?? true,
@@ -97,6 +139,12 @@ export function useSettings() {
       isLocalModelsEnabled.set(savedLocalModels === 'true');
     }
 
+    const savedMockProvider = Cookies.get('isMockProviderEnabled');
+
+    if (savedMockProvider && MOCK_PROVIDER_AVAILABLE) {
+      isMockProviderEnabled.set(savedMockProvider === 'true');
+    }
+
     const promptId = Cookies.get('promptId');
 
     if (promptId) {
@@ -134,6 +182,74 @@ export function useSettings() {
     if (savedContextOptimizationEnabled) {
       enableContextOptimizationStore.set(savedContextOptimizationEnabled === 'true');
     }
+
+    const savedAutoRollback = Cookies.get('autoRollback');
+
+    if (savedAutoRollback) {
+      autoRollbackStore.set(savedAutoRollback === 'true');
+    }
+
+    const savedToolCallingEnabled = Cookies.get('toolCallingEnabled');
+
+    if (savedToolCallingEnabled) {
+      toolCallingStore.set(savedToolCallingEnabled === 'true');
+    }
+
+    const savedShellExecutionSettings = Cookies.get('shellExecutionSettings');
+
+    if (savedShellExecutionSettings) {
+      try {
+        shellExecutionSettingsStore.set({
+          ...shellExecutionSettingsStore.get(),
+          ...(JSON.parse(savedShellExecutionSettings) as Partial<ShellExecutionSettings>),
+        });
+      } catch (error) {
+        console.error('Failed to parse shell execution settings from cookies:', error);
+      }
+    }
+
+    const savedCommandPolicy = Cookies.get('commandPolicy');
+
+    if (savedCommandPolicy) {
+      try {
+        commandPolicyStore.set({
+          ...commandPolicyStore.get(),
+          ...(JSON.parse(savedCommandPolicy) as Partial<CommandPolicy>),
+        });
+      } catch (error) {
+        console.error('Failed to parse command policy from cookies:', error);
+      }
+    }
+
+    const savedAutoFix = Cookies.get('autoFix');
+
+    if (savedAutoFix) {
+      try {
+        autoFixStore.set({ ...autoFixStore.get(), ...(JSON.parse(savedAutoFix) as Partial<AutoFixSettings>) });
+      } catch (error) {
+        console.error('Failed to parse auto-fix settings from cookies:', error);
+      }
+    }
+
+    const savedFallbackModels = Cookies.get('fallbackModels');
+
+    if (savedFallbackModels) {
+      try {
+        fallbackModelsStore.set(JSON.parse(savedFallbackModels) as ModelFallback[]);
+      } catch (error) {
+        console.error('Failed to parse fallback models from cookies:', error);
+      }
+    }
+
+    const savedGenerationParameters = Cookies.get('generationParameters');
+
+    if (savedGenerationParameters) {
+      try {
+        generationParametersStore.set(JSON.parse(savedGenerationParameters) as Record<string, GenerationParameters>);
+      } catch (error) {
+        console.error('Failed to parse generation parameters from cookies:', error);
+      }
+    }
   }, []);
 
   // writing values to cookies on change
@@ -155,8 +271,12 @@ export function useSettings() {
       active = active.filter((p) => !LOCAL_PROVIDERS.includes(p.name));
     }
 
+    if (!isMockProvider) {
+      active = active.filter((p) => p.name !== MOCK_PROVIDER);
+    }
+
     setActiveProviders(active);
-  }, [providers, isLocalModel]);
+  }, [providers, isLocalModel, isMockProvider]);
 
   // helper function to update settings
   const updateProviderSettings = useCallback(
@@ -185,6 +305,12 @@ export function useSettings() {
     Cookies.set('isLocalModelsEnabled', String(enabled));
   }, []);
 
+  const enableMockProvider = useCallback((enabled: boolean) => {
+    isMockProviderEnabled.set(enabled);
+    logStore.logSystem(`Mock provider ${enabled ? 'enabled' : 'disabled'}`);
+    Cookies.set('isMockProviderEnabled', String(enabled));
+  }, []);
+
   const setPromptId = useCallback((promptId: string) => {
     promptStore.set(promptId);
     Cookies.set('promptId', promptId);
@@ -207,6 +333,60 @@ export function useSettings() {
     Cookies.set('contextOptimizationEnabled', String(enabled));
   }, []);
 
+  const enableAutoRollback = useCallback((enabled: boolean) => {
+    autoRollbackStore.set(enabled);
+    logStore.logSystem(`Auto rollback ${enabled ? 'enabled' : 'disabled'}`);
+    Cookies.set('autoRollback', String(enabled));
+  }, []);
+
+  const enableToolCalling = useCallback((enabled: boolean) => {
+    toolCallingStore.set(enabled);
+    logStore.logSystem(`Tool calling ${enabled ? 'enabled' : 'disabled'}`);
+    Cookies.set('toolCallingEnabled', String(enabled));
+  }, []);
+
+  const updateShellExecutionSettings = useCallback((settings: Partial<ShellExecutionSettings>) => {
+    shellExecutionSettingsStore.set({ ...shellExecutionSettingsStore.get(), ...settings });
+    logStore.logSystem('Shell execution settings updated', settings);
+    Cookies.set('shellExecutionSettings', JSON.stringify(shellExecutionSettingsStore.get()));
+  }, []);
+
+  const updateCommandPolicy = useCallback((policy: Partial<CommandPolicy>) => {
+    commandPolicyStore.set({ ...commandPolicyStore.get(), ...policy });
+    logStore.logSystem('Command policy updated', policy);
+    Cookies.set('commandPolicy', JSON.stringify(commandPolicyStore.get()));
+  }, []);
+
+  const updateAutoFix = useCallback((settings: Partial<AutoFixSettings>) => {
+    autoFixStore.set({ ...autoFixStore.get(), ...settings });
+    logStore.logSystem('Auto-fix settings updated', settings);
+    Cookies.set('autoFix', JSON.stringify(autoFixStore.get()));
+  }, []);
+
+  const updateFallbackModels = useCallback((models: ModelFallback[]) => {
+    fallbackModelsStore.set(models);
+    logStore.logSystem('Fallback models updated', { models: models.map((m) => `${m.provider}/${m.model}`) });
+    Cookies.set('fallbackModels', JSON.stringify(models));
+  }, []);
+
+  const updateCustomProviders = useCallback((configs: CustomProviderConfig[]) => {
+    syncCustomProviders(configs);
+    logStore.logSystem('Custom providers updated', { providers: configs.map((config) => config.name) });
+    Cookies.set('customProviders', JSON.stringify(configs));
+  }, []);
+
+  /**
+   * Replaces the parameters saved under the key, see `getParameterKey`. Empty parameters remove the entry.
+   */
+  const updateGenerationParameters = useCallback((key: string, parameters: GenerationParameters) => {
+    const { [key]: _previous, ...others } = generationParametersStore.get();
+    const isEmpty = Object.values(parameters).every((value) => value === undefined);
+
+    generationParametersStore.set(isEmpty ? others : { ...others, [key]: parameters });
+    logStore.logSystem('Generation parameters updated', { key, parameters });
+    Cookies.set('generationParameters', JSON.stringify(generationParametersStore.get()));
+  }, []);
+
   return {
     providers,
     activeProviders,
@@ -217,6 +397,8 @@ export function useSettings() {
     enableEventLogs,
     isLocalModel,
     enableLocalModels,
+    isMockProvider,
+    enableMockProvider,
     promptId,
     setPromptId,
     isLatestBranch,
@@ -225,5 +407,21 @@ export function useSettings() {
     setAutoSelectTemplate,
     contextOptimizationEnabled,
     enableContextOptimization,
+    autoRollback,
+    enableAutoRollback,
+    toolCallingEnabled,
+    enableToolCalling,
+    shellExecutionSettings,
+    updateShellExecutionSettings,
+    commandPolicy,
+    updateCommandPolicy,
+    autoFix,
+    updateAutoFix,
+    fallbackModels,
+    updateFallbackModels,
+    customProviders,
+    updateCustomProviders,
+    generationParameters,
+    updateGenerationParameters,
   };
 }
@@ -0,0 +1,56 @@
+import type { LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// the manager has to load before the providers, like it does through `~/utils/constants` in the app
+import { LLMManager } from './manager';
+import { CustomOpenAIProvider } from './custom-provider';
+import type { ProviderHealth } from './types';
+import { loader } from '~/routes/api.providers.health';
+
+describe('BaseProvider.checkHealth', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('should not call a provider without a key', async () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+
+    const health = await LLMManager.getInstance().getProvider('Anthropic')!.checkHealth({ apiKeys: {} });
+
+    expect(health).toMatchObject({ provider: 'Anthropic', status: 'unconfigured', check: 'completion' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should report the error of the model list', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('', { status: 401, statusText: 'Unauthorized' })));
+
+    const provider = new CustomOpenAIProvider({ name: 'vLLM', baseUrl: 'http://gpu-box:8000/v1' });
+    const health = await provider.checkHealth({ apiKeys: { vLLM: 'expired' } });
+
+    expect(health).toMatchObject({
+      provider: 'vLLM',
+      status: 'error',
+      check: 'models',
+      error: 'Failed to list the models of vLLM: 401 Unauthorized',
+    });
+    expect(health.latency).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('api.providers.health', () => {
+  it('should check the requested providers with a one-token completion', async () => {
+    const response: Response = await loader({
+      request: new Request('http://localhost/api/providers/health?provider=Mock'),
+      context: { cloudflare: { env: {} } },
+      params: {},
+    } as unknown as LoaderFunctionArgs);
+    const health = (await response.json()) as ProviderHealth[];
+
+    expect(health).toHaveLength(1);
+    expect(health[0]).toMatchObject({ provider: 'Mock', status: 'ok', check: 'completion' });
+  });
+});
@@ -1,22 +1,34 @@
-import type { LanguageModelV1 } from 'ai';
-import type { ProviderInfo, ProviderConfig, ModelInfo } from './types';
-import type { IProviderSetting } from '~/types/model';
+import { APICallError, generateText, type LanguageModelV1 } from 'ai';
+import type { ProviderInfo, ProviderConfig, ModelInfo, ProviderOptions, ProviderHealth } from './types';
+import type { GenerationParameterName, GenerationParameters, IProviderSetting } from '~/types/model';
 import { createOpenAI } from '@ai-sdk/openai';
 import { LLMManager } from './manager';
+import { COMMON_PARAMETERS } from './generation-parameters';
+import { KeyPool, parseApiKeys } from './key-pool';
+
+const HEALTH_CHECK_TIMEOUT_MS = 10_000;
 
 export abstract class BaseProvider implements ProviderInfo {
   abstract name: string;
   abstract staticModels: ModelInfo[];
   abstract config: ProviderConfig;
-  cachedDynamicModels?: {
-    cacheId: string;
-    models: ModelInfo[];
-  };
 
   getApiKeyLink?: string;
   labelForGetApiKey?: string;
   icon?: string;
 
+  /**
+   * The generation parameters the provider understands, the others are dropped before the request is sent.
+   */
+  supportedParameters: GenerationParameterName[] = COMMON_PARAMETERS;
+
+  /**
+   * Turns the provider-specific parameters, like the reasoning effort, into options for the request.
+   */
+  getProviderOptions(_parameters: GenerationParameters): ProviderOptions {
+    return {};
+  }
+
   getProviderBaseUrlAndKey(options: {
     apiKeys?: Record<string, string>;
     providerSettings?: IProviderSetting;
@@ -44,36 +56,119 @@ export abstract class BaseProvider implements ProviderInfo {
       baseUrl = baseUrl.slice(0, -1);
     }
 
-    const apiTokenKey = this.config.apiTokenKey || defaultApiTokenKey;
-    const apiKey =
-      apiKeys?.[this.name] || serverEnv?.[apiTokenKey] || process?.env?.[apiTokenKey] || manager.env?.[apiTokenKey];
+    const pool = KeyPool.getInstance();
+    const keys = this.getApiKeys({ apiKeys, serverEnv, defaultApiTokenKey });
+
+    // listing the models or checking the health of the provider doesn't use up a key, completions do
+    const apiKey = pool.isTracking ? pool.select(this.name, keys) : pool.peek(this.name, keys);
 
     return {
       baseUrl,
       apiKey,
     };
   }
-  getModelsFromCache(options: {
+
+  /**
+   * All the keys configured for the provider, either in the UI or in the environment. Several keys are
+   * separated by commas and are handed out in turn by the `KeyPool`.
+   */
+  getApiKeys(options: {
     apiKeys?: Record<string, string>;
-    providerSettings?: Record<string, IProviderSetting>;
     serverEnv?: Record<string, string>;
-  }): ModelInfo[] | null {
-    if (!this.cachedDynamicModels) {
-      // console.log('no dynamic models',this.name);
-      return null;
+    defaultApiTokenKey?: string;
+  }): string[] {
+    const { apiKeys, serverEnv, defaultApiTokenKey } = options;
+    const apiTokenKey = this.config.apiTokenKey || defaultApiTokenKey;
+
+    if (!apiTokenKey) {
+      return parseApiKeys(apiKeys?.[this.name]);
     }
 
-    const cacheKey = this.cachedDynamicModels.cacheId;
-    const generatedCacheKey = this.getDynamicModelsCacheKey(options);
+    const manager = LLMManager.getInstance();
+
+    return parseApiKeys(
+      apiKeys?.[this.name] || serverEnv?.[apiTokenKey] || process?.env?.[apiTokenKey] || manager.env?.[apiTokenKey],
+    );
+  }
+
+  /**
+   * A lightweight check that the provider answers with the caller's keys. Providers that list their models
+   * are asked for the list, the others for a one-token completion with their first model.
+   */
+  async checkHealth(options: {
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+    serverEnv?: Record<string, string>;
+  }): Promise<ProviderHealth> {
+    const { apiKeys, providerSettings, serverEnv } = options;
+    const health: Pick<ProviderHealth, 'provider' | 'check' | 'checkedAt'> = {
+      provider: this.name,
+      check: this.getDynamicModels ? 'models' : 'completion',
+      checkedAt: Date.now(),
+    };
 
-    if (cacheKey !== generatedCacheKey) {
-      // console.log('cache key mismatch',this.name,cacheKey,generatedCacheKey);
-      this.cachedDynamicModels = undefined;
-      return null;
+    if (this.config.apiTokenKey && this.getApiKeys({ apiKeys, serverEnv }).length === 0) {
+      return { ...health, status: 'unconfigured', error: 'No API key set' };
     }
 
-    return this.cachedDynamicModels.models;
+    const start = Date.now();
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const check = async () => {
+      if (this.getDynamicModels) {
+        const models = await this.getDynamicModels(apiKeys, providerSettings?.[this.name], serverEnv);
+
+        if (models.length === 0) {
+          throw new Error('The provider listed no models');
+        }
+
+        return;
+      }
+
+      const [model] = this.staticModels;
+
+      if (!model) {
+        throw new Error('The provider has no model to check with');
+      }
+
+      await generateText({
+        model: LLMManager.getInstance().getModelInstance(this, {
+          model: model.name,
+          serverEnv: serverEnv as unknown as Env,
+          apiKeys,
+          providerSettings,
+        }),
+        prompt: 'ping',
+        maxTokens: 1,
+        maxRetries: 0,
+      });
+    };
+
+    try {
+      await Promise.race([
+        check(),
+        new Promise((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('The check timed out')), HEALTH_CHECK_TIMEOUT_MS);
+        }),
+      ]);
+
+      return { ...health, status: 'ok', latency: Date.now() - start };
+    } catch (error) {
+      return {
+        ...health,
+        status: 'error',
+        latency: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+        statusCode: APICallError.isInstance(error) ? error.statusCode : undefined,
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
   }
+
+  /**
+   * Tells apart the model lists of different keys and settings, the `ModelCatalog` caches the list under it.
+   */
   getDynamicModelsCacheKey(options: {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
@@ -85,22 +180,6 @@ export abstract class BaseProvider implements ProviderInfo {
       serverEnv: options.serverEnv,
     });
   }
-  storeDynamicModels(
-    options: {
-      apiKeys?: Record<string, string>;
-      providerSettings?: Record<string, IProviderSetting>;
-      serverEnv?: Record<string, string>;
-    },
-    models: ModelInfo[],
-  ) {
-    const cacheId = this.getDynamicModelsCacheKey(options);
-
-    // console.log('caching dynamic models',this.name,cacheId);
-    this.cachedDynamicModels = {
-      cacheId,
-      models,
-    };
-  }
 
   // Declare the optional getDynamicModels method
   getDynamicModels?(
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { formatTokenCount, getModelWarnings, meetsRequirements } from './capabilities';
+import type { ModelInfo } from './types';
+
+const model: ModelInfo = {
+  name: 'text-model',
+  label: 'Text Model',
+  provider: 'OpenAI',
+  maxTokenAllowed: 8000,
+  contextWindow: 8192,
+  vision: false,
+  toolUse: true,
+};
+
+describe('meetsRequirements', () => {
+  it('should only rule out models that are known to lack a capability', () => {
+    expect(meetsRequirements(model, { vision: true })).toBe(false);
+    expect(meetsRequirements(model, { toolUse: true })).toBe(true);
+    expect(meetsRequirements({ ...model, vision: undefined }, { vision: true })).toBe(true);
+  });
+});
+
+describe('getModelWarnings', () => {
+  it('should warn about attached images, tool calling and large projects', () => {
+    expect(getModelWarnings(model, { imageCount: 0, toolCalling: false, projectTokens: 1_000 })).toEqual([]);
+
+    expect(
+      getModelWarnings({ ...model, toolUse: false }, { imageCount: 1, toolCalling: true, projectTokens: 6_000 }),
+    ).toEqual([
+      "Text Model can't see images, pick a vision model to use the attached images.",
+      "Text Model doesn't support tool calling, turn off tool calling mode or pick another model.",
+      "The project has about 6k tokens, that's a lot for the 8k context window of Text Model.",
+    ]);
+  });
+});
+
+describe('formatTokenCount', () => {
+  it('should abbreviate large counts', () => {
+    expect(formatTokenCount(512)).toBe('512');
+    expect(formatTokenCount(128_000)).toBe('128k');
+    expect(formatTokenCount(1_048_576)).toBe('1M');
+    expect(formatTokenCount(2_500_000)).toBe('2.5M');
+  });
+});
@@ -0,0 +1,73 @@
+import type { ModelInfo, ModelPricing } from './types';
+
+export interface ModelRequirements {
+  vision?: boolean;
+  toolUse?: boolean;
+}
+
+export interface ModelUsage {
+  imageCount: number;
+  toolCalling: boolean;
+
+  /**
+   * Estimated size of the project files that get sent along with the chat.
+   */
+  projectTokens: number;
+}
+
+// warn once the project alone takes up this much of the context window, the history needs room too
+const PROJECT_CONTEXT_SHARE = 0.5;
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Models only fail a requirement if they are known to lack the capability.
+ */
+export function meetsRequirements(model: ModelInfo, requirements: ModelRequirements) {
+  return !(requirements.vision && model.vision === false) && !(requirements.toolUse && model.toolUse === false);
+}
+
+export function getModelWarnings(model: ModelInfo | undefined, usage: ModelUsage) {
+  const warnings: string[] = [];
+
+  if (!model) {
+    return warnings;
+  }
+
+  if (usage.imageCount > 0 && model.vision === false) {
+    warnings.push(`${model.label} can't see images, pick a vision model to use the attached images.`);
+  }
+
+  if (usage.toolCalling && model.toolUse === false) {
+    warnings.push(`${model.label} doesn't support tool calling, turn off tool calling mode or pick another model.`);
+  }
+
+  if (model.contextWindow && usage.projectTokens > model.contextWindow * PROJECT_CONTEXT_SHARE) {
+    warnings.push(
+      `The project has about ${formatTokenCount(usage.projectTokens)} tokens, that's a lot for the ` +
+        `${formatTokenCount(model.contextWindow)} context window of ${model.label}.`,
+    );
+  }
+
+  return warnings;
+}
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function formatTokenCount(tokens: number) {
+  if (tokens >= 1_000_000) {
+    return `${Number((tokens / 1_000_000).toFixed(1))}M`;
+  }
+
+  if (tokens >= 1_000) {
+    return `${Math.round(tokens / 1_000)}k`;
+  }
+
+  return String(tokens);
+}
+
+export function formatPricing(pricing: ModelPricing) {
+  return `$${pricing.input.toFixed(2)} in / $${pricing.output.toFixed(2)} out per 1M tokens`;
+}
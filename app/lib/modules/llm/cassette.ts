@@ -0,0 +1,45 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { LLMManager } from './manager';
+import { LLMRecorder, type Cassette, type RecorderMode } from './recorder';
+
+const CASSETTE_DIR = join(dirname(fileURLToPath(import.meta.url)), 'cassettes');
+const RECORDER_MODES: RecorderMode[] = ['record', 'replay', 'auto'];
+
+/**
+ * Test helper that puts the recorder for `cassettes/<name>.json` in front of every model the app creates. Runs
+ * in vitest only, it reads and writes the cassette with `node:fs`.
+ *
+ * The mode comes from `LLM_CASSETTE_MODE` and defaults to `replay`, so tests never reach a provider unless asked
+ * to. Record with real keys in the environment, e.g. `LLM_CASSETTE_MODE=record pnpm test`.
+ */
+export function useCassette(name: string, mode: RecorderMode = getCassetteMode()) {
+  const path = join(CASSETTE_DIR, `${name}.json`);
+  const cassette = existsSync(path) ? (JSON.parse(readFileSync(path, 'utf-8')) as Cassette) : undefined;
+  const recorder = new LLMRecorder(cassette, mode);
+
+  LLMManager.getInstance().setRecorder(recorder);
+
+  return {
+    recorder,
+
+    /**
+     * Detaches the recorder and writes everything it recorded to disk.
+     */
+    eject() {
+      LLMManager.getInstance().setRecorder(undefined);
+
+      if (recorder.hasChanges) {
+        mkdirSync(CASSETTE_DIR, { recursive: true });
+        writeFileSync(path, `${JSON.stringify(recorder.cassette, null, 2)}\n`);
+      }
+    },
+  };
+}
+
+function getCassetteMode(): RecorderMode {
+  const mode = process.env.LLM_CASSETTE_MODE as RecorderMode | undefined;
+
+  return mode && RECORDER_MODES.includes(mode) ? mode : 'replay';
+}
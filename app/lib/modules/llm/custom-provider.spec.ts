@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// the manager has to load before the providers, like it does through `~/utils/constants` in the app
+import { LLMManager } from './manager';
+import { CustomOpenAIProvider, formatHeaders, parseHeaders, validateCustomProvider } from './custom-provider';
+import { KeyPool } from './key-pool';
+
+describe('CustomOpenAIProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should list the models of the endpoint with its key and headers', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(JSON.stringify({ data: [{ id: 'qwen2.5-coder' }, { id: 'llama-3.1-70b' }] })));
+    vi.stubGlobal('fetch', fetch);
+
+    const provider = new CustomOpenAIProvider({
+      name: 'vLLM',
+      baseUrl: 'http://gpu-box:8000/v1/',
+      headers: { 'X-Team': 'platform' },
+    });
+    const models = await provider.getDynamicModels({ vLLM: 'secret' });
+
+    expect(fetch).toHaveBeenCalledWith('http://gpu-box:8000/v1/models', {
+      headers: { 'X-Team': 'platform', Authorization: 'Bearer secret' },
+    });
+    expect(models.map((model) => model.name)).toEqual(['qwen2.5-coder', 'llama-3.1-70b']);
+    expect(models[0].provider).toBe('vLLM');
+  });
+
+  it('should hand out several keys in turn to the models but not to the model list', async () => {
+    const fetch = vi.fn().mockImplementation(async () => new Response(JSON.stringify({ data: [] })));
+    vi.stubGlobal('fetch', fetch);
+
+    const provider = new CustomOpenAIProvider({ name: 'LiteLLM', baseUrl: 'http://gateway:4000/v1' });
+    const apiKeys = { LiteLLM: 'first-key, second-key' };
+    const createModel = () =>
+      KeyPool.getInstance().track(() => provider.getModelInstance({ model: 'gpt-4o', serverEnv: {} as Env, apiKeys }))
+        .keys;
+
+    expect(createModel()).toEqual(['first-key']);
+
+    await provider.getDynamicModels(apiKeys);
+    await provider.getDynamicModels(apiKeys);
+
+    expect(fetch.mock.calls.map(([, init]) => init.headers.Authorization)).toEqual([
+      'Bearer second-key',
+      'Bearer second-key',
+    ]);
+    expect(createModel()).toEqual(['second-key']);
+  });
+});
+
+describe('LLMManager.setCustomProviders', () => {
+  it('should register, update and remove custom endpoints', () => {
+    const manager = LLMManager.getInstance();
+
+    manager.setCustomProviders([
+      { name: 'vLLM', baseUrl: 'http://gpu-box:8000/v1' },
+      { name: 'Gateway', baseUrl: 'https://litellm.internal' },
+    ]);
+
+    expect(manager.getProvider('vLLM')).toBeInstanceOf(CustomOpenAIProvider);
+    expect(manager.isCustomProvider('Gateway')).toBe(true);
+
+    manager.setCustomProviders([{ name: 'vLLM', baseUrl: 'http://other-box:8000/v1' }]);
+
+    expect(manager.getProvider('vLLM')?.config.baseUrl).toBe('http://other-box:8000/v1');
+    expect(manager.getProvider('Gateway')).toBeUndefined();
+
+    manager.setCustomProviders([{ name: 'OpenAI', baseUrl: 'http://fake' }]);
+
+    expect(manager.getProvider('vLLM')).toBeUndefined();
+    expect(manager.isCustomProvider('OpenAI')).toBe(false);
+  });
+});
+
+describe('LLMManager.createCustomProviders', () => {
+  it('should build the endpoints of a request without registering them', async () => {
+    const manager = LLMManager.getInstance();
+    const modelList = manager.getModelList();
+    const customProviders = manager.createCustomProviders([
+      { name: 'vLLM', baseUrl: 'http://gpu-box:8000/v1' },
+      { name: 'OpenAI', baseUrl: 'http://fake' },
+    ]);
+
+    expect(customProviders.map((provider) => provider.name)).toEqual(['vLLM']);
+    expect(manager.getProvider('vLLM')).toBeUndefined();
+    expect(manager.getProvider('vLLM', customProviders)).toBe(customProviders[0]);
+
+    vi.spyOn(customProviders[0] as CustomOpenAIProvider, 'getDynamicModels').mockResolvedValue([
+      { name: 'qwen2.5-coder', label: 'qwen2.5-coder', provider: 'vLLM', maxTokenAllowed: 8000 },
+    ]);
+
+    const providerSettings = Object.fromEntries(
+      manager.getAllProviders().map((provider) => [provider.name, { enabled: false }]),
+    );
+    const models = await manager.listModels({ providerSettings, customProviders });
+
+    expect(models.map((model) => model.name)).toContain('qwen2.5-coder');
+    expect(manager.getModelList()).toBe(modelList);
+  });
+});
+
+describe('validateCustomProvider', () => {
+  it('should require a free name and an http url', () => {
+    expect(validateCustomProvider({ name: 'vLLM', baseUrl: 'http://localhost:8000/v1' }, ['OpenAI'])).toBeUndefined();
+    expect(validateCustomProvider({ name: ' ', baseUrl: 'http://localhost' }, [])).toBe('The endpoint needs a name');
+    expect(validateCustomProvider({ name: 'openai', baseUrl: 'http://localhost' }, ['OpenAI'])).toBe(
+      'There already is a provider called openai',
+    );
+    expect(validateCustomProvider({ name: 'vLLM', baseUrl: 'localhost:8000' }, [])).toBe(
+      'The base URL has to start with http:// or https://',
+    );
+    expect(validateCustomProvider({ name: 'vLLM', baseUrl: 'not a url' }, [])).toBe('The base URL is not a valid URL');
+  });
+});
+
+describe('parseHeaders', () => {
+  it('should read one header per line', () => {
+    const headers = parseHeaders('X-Team: platform\n\nbroken line\nX-Route:  a:b ');
+
+    expect(headers).toEqual({ 'X-Team': 'platform', 'X-Route': 'a:b' });
+    expect(formatHeaders(headers)).toBe('X-Team: platform\nX-Route: a:b');
+  });
+});
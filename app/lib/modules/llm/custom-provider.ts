@@ -0,0 +1,135 @@
+import type { LanguageModelV1 } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import { BaseProvider } from './base-provider';
+import type { ModelInfo, ProviderConfig } from './types';
+import type { CustomProviderConfig, IProviderSetting } from '~/types/model';
+
+/**
+ * An OpenAI-compatible endpoint the user added in the settings, like a vLLM server or a LiteLLM gateway.
+ * These aren't part of the registry because every instance has its own name and URL, the API key is stored
+ * with the keys of the other providers under the name of the endpoint.
+ */
+export class CustomOpenAIProvider extends BaseProvider {
+  name: string;
+  staticModels: ModelInfo[] = [];
+  config: ProviderConfig;
+  getApiKeyLink = undefined;
+
+  readonly headers: Record<string, string>;
+
+  constructor(settings: CustomProviderConfig) {
+    super();
+
+    this.name = settings.name;
+    this.config = { baseUrl: settings.baseUrl.replace(/\/+$/, '') };
+    this.headers = settings.headers ?? {};
+  }
+
+  async getDynamicModels(apiKeys?: Record<string, string>, _settings?: IProviderSetting): Promise<ModelInfo[]> {
+    const response = await fetch(`${this.config.baseUrl}/models`, {
+      headers: this._getHeaders(apiKeys),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to list the models of ${this.name}: ${response.status} ${response.statusText}`);
+    }
+
+    const res = (await response.json()) as { data?: Array<{ id: string }> };
+
+    return (res.data ?? []).map((model) => ({
+      name: model.id,
+      label: model.id,
+      provider: this.name,
+      maxTokenAllowed: 8000,
+    }));
+  }
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const { model, apiKeys } = options;
+
+    const openai = createOpenAI({
+      baseURL: this.config.baseUrl,
+      apiKey: this._getApiKey(apiKeys) ?? '',
+      headers: this.headers,
+    });
+
+    return openai(model);
+  }
+
+  private _getHeaders(apiKeys?: Record<string, string>) {
+    const apiKey = this._getApiKey(apiKeys);
+
+    return {
+      ...this.headers,
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    };
+  }
+
+  // several keys rotate through the key pool like the keys of the built-in providers
+  private _getApiKey(apiKeys?: Record<string, string>) {
+    return this.getProviderBaseUrlAndKey({ apiKeys, defaultBaseUrlKey: '', defaultApiTokenKey: '' }).apiKey;
+  }
+}
+
+/**
+ * Returns why the endpoint can't be added, or `undefined` if it's fine.
+ */
+export function validateCustomProvider(config: CustomProviderConfig, takenNames: string[]) {
+  const name = config.name.trim();
+
+  if (!name) {
+    return 'The endpoint needs a name';
+  }
+
+  if (!/^[\w .-]+$/.test(name)) {
+    return 'Names can only contain letters, numbers, spaces, dots, dashes and underscores';
+  }
+
+  if (takenNames.some((taken) => taken.toLowerCase() === name.toLowerCase())) {
+    return `There already is a provider called ${name}`;
+  }
+
+  try {
+    const url = new URL(config.baseUrl);
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'The base URL has to start with http:// or https://';
+    }
+  } catch {
+    return 'The base URL is not a valid URL';
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads headers written one per line as `Name: value`, lines without a colon are ignored.
+ */
+export function parseHeaders(text: string) {
+  const headers: Record<string, string> = {};
+
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+
+    if (separator > 0) {
+      const name = line.slice(0, separator).trim();
+
+      if (name) {
+        headers[name] = line.slice(separator + 1).trim();
+      }
+    }
+  }
+
+  return headers;
+}
+
+export function formatHeaders(headers: Record<string, string> = {}) {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  COMMON_PARAMETERS,
+  getSamplingParameters,
+  resolveGenerationParameters,
+  validateGenerationParameters,
+} from './generation-parameters';
+
+describe('resolveGenerationParameters', () => {
+  it('should let the parameters of the model override the ones of the provider', () => {
+    const settings = {
+      OpenAI: { temperature: 0.2, topP: 0.9 },
+      'OpenAI/o3-mini': { temperature: 1, reasoningEffort: 'high' as const },
+      Anthropic: { temperature: 0 },
+    };
+
+    expect(resolveGenerationParameters(settings, 'OpenAI', 'o3-mini')).toEqual({
+      temperature: 1,
+      topP: 0.9,
+      reasoningEffort: 'high',
+    });
+    expect(resolveGenerationParameters(settings, 'OpenAI', 'gpt-4o')).toEqual({ temperature: 0.2, topP: 0.9 });
+    expect(resolveGenerationParameters(undefined, 'OpenAI', 'gpt-4o')).toEqual({});
+  });
+});
+
+describe('validateGenerationParameters', () => {
+  it('should drop unsupported and out of range parameters', () => {
+    const { parameters, errors } = validateGenerationParameters(
+      {
+        temperature: 3,
+        topP: 0.5,
+        topK: 40,
+        stopSequences: ['a', 'b', 'c', 'd', 'e'],
+        presencePenalty: undefined,
+        promptCaching: true,
+      },
+      COMMON_PARAMETERS,
+    );
+
+    expect(parameters).toEqual({ topP: 0.5 });
+    expect(errors).toEqual([
+      'Temperature has to be between 0 and 2',
+      "Top K isn't supported by this provider",
+      'At most 4 stop sequences are allowed',
+      "Prompt Caching isn't supported by this provider",
+    ]);
+  });
+
+  it('should check the provider-specific options', () => {
+    expect(
+      validateGenerationParameters({ reasoningEffort: 'extreme' as any, topK: 2.5 }, ['reasoningEffort', 'topK'])
+        .errors,
+    ).toEqual(['Reasoning Effort has to be one of low, medium, high', 'Top K has to be a whole number']);
+  });
+});
+
+describe('getSamplingParameters', () => {
+  it('should leave out the provider-specific options', () => {
+    expect(getSamplingParameters({ temperature: 0.5, reasoningEffort: 'low', promptCaching: true })).toEqual({
+      temperature: 0.5,
+      topP: undefined,
+      topK: undefined,
+      frequencyPenalty: undefined,
+      presencePenalty: undefined,
+      stopSequences: undefined,
+    });
+  });
+});
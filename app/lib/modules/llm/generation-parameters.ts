@@ -0,0 +1,176 @@
+import type { GenerationParameterName, GenerationParameters } from '~/types/model';
+
+export interface ParameterDefinition {
+  label: string;
+  description: string;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export const PARAMETER_DEFINITIONS: Record<GenerationParameterName, ParameterDefinition> = {
+  temperature: {
+    label: 'Temperature',
+    description: 'Higher values give more varied answers, lower values more predictable ones',
+    min: 0,
+    max: 2,
+    step: 0.1,
+  },
+  topP: {
+    label: 'Top P',
+    description: 'Only samples from the most likely tokens that add up to this probability',
+    min: 0,
+    max: 1,
+    step: 0.05,
+  },
+  topK: {
+    label: 'Top K',
+    description: 'Only samples from this many of the most likely tokens',
+    min: 1,
+    max: 500,
+    step: 1,
+  },
+  frequencyPenalty: {
+    label: 'Frequency Penalty',
+    description: 'Makes the model less likely to repeat the same words',
+    min: -2,
+    max: 2,
+    step: 0.1,
+  },
+  presencePenalty: {
+    label: 'Presence Penalty',
+    description: 'Makes the model more likely to move on to new topics',
+    min: -2,
+    max: 2,
+    step: 0.1,
+  },
+  stopSequences: {
+    label: 'Stop Sequences',
+    description: 'The response ends when the model writes one of these, one per line',
+  },
+  reasoningEffort: {
+    label: 'Reasoning Effort',
+    description: 'How long reasoning models think before answering',
+  },
+  promptCaching: {
+    label: 'Prompt Caching',
+    description: 'Caches the system prompt, which makes follow-up messages cheaper and faster',
+  },
+};
+
+export const REASONING_EFFORTS = ['low', 'medium', 'high'] as const;
+
+/**
+ * What OpenAI-compatible APIs understand, providers that support more or less override this.
+ */
+export const COMMON_PARAMETERS: GenerationParameterName[] = [
+  'temperature',
+  'topP',
+  'frequencyPenalty',
+  'presencePenalty',
+  'stopSequences',
+];
+
+// more than this and most providers reject the request
+const MAX_STOP_SEQUENCES = 4;
+
+/**
+ * Settings are stored per provider and per model, the model settings win.
+ */
+export function getParameterKey(provider: string, model?: string) {
+  return model ? `${provider}/${model}` : provider;
+}
+
+export function resolveGenerationParameters(
+  settings: Record<string, GenerationParameters> | undefined,
+  provider: string,
+  model: string,
+): GenerationParameters {
+  return {
+    ...settings?.[getParameterKey(provider)],
+    ...settings?.[getParameterKey(provider, model)],
+  };
+}
+
+/**
+ * Drops the parameters the provider doesn't support or that are out of range, and says why.
+ */
+export function validateGenerationParameters(parameters: GenerationParameters, supported: GenerationParameterName[]) {
+  const valid: GenerationParameters = {};
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(parameters) as Array<[GenerationParameterName, unknown]>) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const definition = PARAMETER_DEFINITIONS[name];
+
+    if (!definition) {
+      errors.push(`Unknown parameter ${name}`);
+      continue;
+    }
+
+    if (!supported.includes(name)) {
+      errors.push(`${definition.label} isn't supported by this provider`);
+      continue;
+    }
+
+    const error = getParameterError(name, value);
+
+    if (error) {
+      errors.push(error);
+      continue;
+    }
+
+    Object.assign(valid, { [name]: value });
+  }
+
+  return { parameters: valid, errors };
+}
+
+function getParameterError(name: GenerationParameterName, value: unknown) {
+  const { label, min, max } = PARAMETER_DEFINITIONS[name];
+
+  switch (name) {
+    case 'stopSequences': {
+      if (!Array.isArray(value) || value.some((sequence) => typeof sequence !== 'string' || sequence.length === 0)) {
+        return `${label} have to be a list of text`;
+      }
+
+      return value.length > MAX_STOP_SEQUENCES ? `At most ${MAX_STOP_SEQUENCES} stop sequences are allowed` : undefined;
+    }
+    case 'reasoningEffort': {
+      return REASONING_EFFORTS.includes(value as (typeof REASONING_EFFORTS)[number])
+        ? undefined
+        : `${label} has to be one of ${REASONING_EFFORTS.join(', ')}`;
+    }
+    case 'promptCaching': {
+      return typeof value === 'boolean' ? undefined : `${label} has to be on or off`;
+    }
+    default: {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return `${label} has to be a number`;
+      }
+
+      if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+        return `${label} has to be between ${min} and ${max}`;
+      }
+
+      if (name === 'topK' && !Number.isInteger(value)) {
+        return `${label} has to be a whole number`;
+      }
+
+      return undefined;
+    }
+  }
+}
+
+/**
+ * The parameters every provider takes as call settings, the others go through `getProviderOptions`.
+ */
+export function getSamplingParameters(parameters: GenerationParameters) {
+  const { temperature, topP, topK, frequencyPenalty, presencePenalty, stopSequences } = parameters;
+
+  return { temperature, topP, topK, frequencyPenalty, presencePenalty, stopSequences };
+}
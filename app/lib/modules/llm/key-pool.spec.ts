@@ -0,0 +1,95 @@
+import { APICallError, type LanguageModelV1 } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { KeyPool, parseApiKeys } from './key-pool';
+
+function apiCallError(statusCode: number, responseHeaders?: Record<string, string>) {
+  return new APICallError({
+    message: `status ${statusCode}`,
+    url: 'https://api.openai.com/v1/chat/completions',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  });
+}
+
+describe('parseApiKeys', () => {
+  it('should split several keys and keep JSON configurations whole', () => {
+    expect(parseApiKeys(' sk-a, sk-b\nsk-c,,sk-a ')).toEqual(['sk-a', 'sk-b', 'sk-c']);
+    expect(parseApiKeys('{"region":"us-east-1","accessKeyId":"a"}')).toEqual([
+      '{"region":"us-east-1","accessKeyId":"a"}',
+    ]);
+    expect(parseApiKeys(undefined)).toEqual([]);
+  });
+});
+
+describe('KeyPool', () => {
+  const keys = ['sk-first-key', 'sk-second-key', 'sk-third-key'];
+
+  it('should hand out the keys in turn and skip quarantined ones', () => {
+    const pool = new KeyPool();
+
+    expect([1, 2, 3, 4].map((now) => pool.select('OpenAI', keys, now))).toEqual([
+      'sk-first-key',
+      'sk-second-key',
+      'sk-third-key',
+      'sk-first-key',
+    ]);
+
+    pool.reportError('OpenAI', 'sk-second-key', apiCallError(429, { 'retry-after': '30' }), 5);
+    pool.reportError('OpenAI', 'sk-third-key', apiCallError(500), 5);
+
+    expect([6, 7, 8].map((now) => pool.select('OpenAI', keys, now))).toEqual([
+      'sk-third-key',
+      'sk-first-key',
+      'sk-third-key',
+    ]);
+    expect(pool.getStatus('OpenAI', keys, 9)).toMatchObject([
+      { state: 'active' },
+      { state: 'quarantined', quarantinedUntil: 30_005, lastStatusCode: 429 },
+      { state: 'active' },
+    ]);
+    expect(JSON.stringify(pool.getStatus('OpenAI', keys, 9))).not.toContain('sk-');
+    expect(pool.select('OpenAI', keys, 30_005)).toBe('sk-second-key');
+  });
+
+  it('should only move the rotation along for selected keys', () => {
+    const pool = new KeyPool();
+
+    expect(pool.peek('OpenAI', keys, 1)).toBe('sk-first-key');
+    expect(pool.peek('OpenAI', keys, 2)).toBe('sk-first-key');
+    expect(pool.select('OpenAI', keys, 3)).toBe('sk-first-key');
+    expect(pool.peek('OpenAI', keys, 4)).toBe('sk-second-key');
+  });
+
+  it('should fall back to the key that recovers first when all of them are quarantined', () => {
+    const pool = new KeyPool();
+
+    pool.reportError('OpenAI', 'sk-first-key', apiCallError(401), 0);
+    pool.reportError('OpenAI', 'sk-second-key', apiCallError(429), 0);
+    pool.reportError('OpenAI', 'sk-third-key', apiCallError(429, { 'retry-after': '120' }), 0);
+
+    expect(pool.select('OpenAI', keys, 1)).toBe('sk-second-key');
+  });
+
+  it('should quarantine the key a model was created with when its request fails', async () => {
+    const pool = new KeyPool();
+    const { result: key } = pool.track(() => pool.select('OpenAI', keys));
+    const model = pool.wrap(
+      {
+        specificationVersion: 'v1',
+        provider: 'openai.chat',
+        modelId: 'gpt-4o',
+        defaultObjectGenerationMode: undefined,
+        doGenerate: () => Promise.reject(apiCallError(429)),
+        doStream: () => Promise.reject(apiCallError(401)),
+      } as LanguageModelV1,
+      'OpenAI',
+      key!,
+    );
+
+    await expect(model.doStream({ inputFormat: 'prompt', mode: { type: 'regular' }, prompt: [] })).rejects.toThrow(
+      'status 401',
+    );
+    expect(pool.getStatus('OpenAI', [key!])[0]).toMatchObject({ state: 'quarantined', lastStatusCode: 401 });
+  });
+});
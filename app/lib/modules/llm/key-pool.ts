@@ -0,0 +1,202 @@
+import { APICallError, experimental_wrapLanguageModel as wrapLanguageModel, type LanguageModelV1 } from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('KeyPool');
+
+// an invalid or revoked key won't recover on its own, a rate limit usually lifts within a minute
+const UNAUTHORIZED_QUARANTINE_MS = 10 * 60 * 1000;
+const RATE_LIMIT_QUARANTINE_MS = 60 * 1000;
+
+/**
+ * The state of one key of the pool. Nothing of the key itself leaves the server, not even a masked part.
+ */
+export interface KeyStatus {
+  state: 'active' | 'quarantined';
+  quarantinedUntil?: number;
+  lastStatusCode?: number;
+}
+
+export interface ProviderKeyStatus {
+  set: boolean;
+  keys: KeyStatus[];
+}
+
+interface KeyEntry {
+  /**
+   * Where the key is in the provider's setting, the logs name keys by their position, never by a part of them.
+   */
+  index?: number;
+  lastUsedAt: number;
+  quarantinedUntil: number;
+  lastStatusCode?: number;
+}
+
+/**
+ * Splits the value of an API key setting into its keys, several keys are separated by commas or new lines.
+ * JSON values, like the AWS Bedrock configuration, are kept as a single key.
+ */
+export function parseApiKeys(value?: string): string[] {
+  const trimmed = value?.trim();
+
+  if (!trimmed) {
+    return [];
+  }
+
+  if (trimmed.startsWith('{')) {
+    return [trimmed];
+  }
+
+  return [...new Set(trimmed.split(/[,\n]/).map((key) => key.trim()))].filter((key) => key.length > 0);
+}
+
+/**
+ * Hands out the keys of a provider in turn and quarantines the ones the provider rejected with a 401 or a 429.
+ * When every key is quarantined the one that was rate limited the longest ago is used anyway.
+ */
+export class KeyPool {
+  private static _instance: KeyPool;
+  private _entries: Map<string, KeyEntry> = new Map();
+  private _selections?: string[];
+
+  static getInstance(): KeyPool {
+    if (!KeyPool._instance) {
+      KeyPool._instance = new KeyPool();
+    }
+
+    return KeyPool._instance;
+  }
+
+  /**
+   * Whether a model instance is being created under `track`, only those requests use up a key.
+   */
+  get isTracking() {
+    return this._selections !== undefined;
+  }
+
+  select(provider: string, keys: string[], now = Date.now()): string | undefined {
+    const selected = this._next(provider, keys, now);
+
+    if (!selected) {
+      return undefined;
+    }
+
+    selected.entry.lastUsedAt = now;
+    this._selections?.push(selected.key);
+
+    return selected.key;
+  }
+
+  /**
+   * The key `select` would hand out, without moving the rotation along.
+   */
+  peek(provider: string, keys: string[], now = Date.now()): string | undefined {
+    return this._next(provider, keys, now)?.key;
+  }
+
+  /**
+   * Quarantines the key if the error says it is invalid or rate limited, other errors are left to the caller.
+   */
+  reportError(provider: string, key: string, error: unknown, now = Date.now()) {
+    if (!APICallError.isInstance(error) || (error.statusCode !== 401 && error.statusCode !== 429)) {
+      return;
+    }
+
+    const entry = this._getEntry(provider, key);
+    const retryAfter = Number(error.responseHeaders?.['retry-after']);
+    const duration =
+      error.statusCode === 401
+        ? UNAUTHORIZED_QUARANTINE_MS
+        : retryAfter > 0
+          ? retryAfter * 1000
+          : RATE_LIMIT_QUARANTINE_MS;
+
+    entry.quarantinedUntil = now + duration;
+    entry.lastStatusCode = error.statusCode;
+    logger.warn(
+      `Quarantined ${provider} ${entry.index === undefined ? 'key' : `key ${entry.index + 1}`} for ${duration / 1000}s after a ${error.statusCode}`,
+    );
+  }
+
+  getStatus(provider: string, keys: string[], now = Date.now()): KeyStatus[] {
+    return keys.map((key) => {
+      const entry = this._entries.get(`${provider}/${key}`);
+      const isQuarantined = !!entry && entry.quarantinedUntil > now;
+
+      return {
+        state: isQuarantined ? 'quarantined' : 'active',
+        quarantinedUntil: isQuarantined ? entry.quarantinedUntil : undefined,
+        lastStatusCode: entry?.lastStatusCode,
+      };
+    });
+  }
+
+  /**
+   * Runs `create` and returns the keys selected while it ran, which tells which key a model instance was
+   * created with. Selection is synchronous, so other requests can't interleave.
+   */
+  track<T>(create: () => T): { result: T; keys: string[] } {
+    const previous = this._selections;
+    const keys: string[] = [];
+    this._selections = keys;
+
+    try {
+      return { result: create(), keys };
+    } finally {
+      this._selections = previous;
+    }
+  }
+
+  /**
+   * Reports the errors of the model's requests against the key it was created with.
+   */
+  wrap(model: LanguageModelV1, provider: string, key: string): LanguageModelV1 {
+    const report = async <T>(call: () => PromiseLike<T>) => {
+      try {
+        return await call();
+      } catch (error) {
+        this.reportError(provider, key, error);
+        throw error;
+      }
+    };
+
+    return wrapLanguageModel({
+      model,
+      middleware: {
+        wrapGenerate: ({ doGenerate }) => report(doGenerate),
+        wrapStream: ({ doStream }) => report(doStream),
+      },
+    });
+  }
+
+  private _next(provider: string, keys: string[], now: number) {
+    if (keys.length === 0) {
+      return undefined;
+    }
+
+    const entries = keys.map((key, index) => {
+      const entry = this._getEntry(provider, key);
+      entry.index = index;
+
+      return { key, entry };
+    });
+    const active = entries.filter(({ entry }) => entry.quarantinedUntil <= now);
+
+    const [selected] = active.length
+      ? active.sort((a, b) => a.entry.lastUsedAt - b.entry.lastUsedAt)
+      : entries.sort((a, b) => a.entry.quarantinedUntil - b.entry.quarantinedUntil);
+
+    return selected;
+  }
+
+  private _getEntry(provider: string, key: string) {
+    const id = `${provider}/${key}`;
+    let entry = this._entries.get(id);
+
+    if (!entry) {
+      entry = { lastUsedAt: 0, quarantinedUntil: 0 };
+      this._entries.set(id, entry);
+    }
+
+    return entry;
+  }
+}
@@ -1,5 +1,11 @@
-import type { IProviderSetting } from '~/types/model';
+import type { LanguageModelV1 } from 'ai';
+import type { CustomProviderConfig, IProviderSetting } from '~/types/model';
 import { BaseProvider } from './base-provider';
+import { CustomOpenAIProvider } from './custom-provider';
+import { KeyPool } from './key-pool';
+import { ModelCatalog } from './model-catalog';
+import { loadPersonas, PersonaProvider, validatePersona } from './persona';
+import type { LLMRecorder } from './recorder';
 import type { ModelInfo, ProviderInfo } from './types';
 import * as providers from './registry';
 import { createScopedLogger } from '~/utils/logger';
@@ -9,11 +15,16 @@ export class LLMManager {
   private static _instance: LLMManager;
   private _providers: Map<string, BaseProvider> = new Map();
   private _modelList: ModelInfo[] = [];
+  private _customProviders: Map<string, string> = new Map();
+  private _personas: Set<string> = new Set();
+  private _recorder?: LLMRecorder;
+  private _catalog = new ModelCatalog();
   private readonly _env: any = {};
 
   private constructor(_env: Record<string, string>) {
     this._registerProvidersFromDirectory();
     this._env = _env;
+    this._registerPersonas();
   }
 
   static getInstance(env: Record<string, string> = {}): LLMManager {
@@ -37,6 +48,11 @@ export class LLMManager {
       // Look for exported classes that extend BaseProvider
       for (const exportedItem of Object.values(providers)) {
         if (typeof exportedItem === 'function' && exportedItem.prototype instanceof BaseProvider) {
+          // the mock provider is a development tool, production builds leave it out
+          if (exportedItem === providers.MockProvider && !import.meta.env.DEV) {
+            continue;
+          }
+
           const provider = new exportedItem();
 
           try {
@@ -51,6 +67,22 @@ export class LLMManager {
     }
   }
 
+  private _registerPersonas() {
+    for (const persona of loadPersonas(this._env)) {
+      const error =
+        validatePersona(persona) ??
+        (this._providers.has(persona.name) ? `There already is a provider called ${persona.name}` : undefined);
+
+      if (error) {
+        logger.warn('Failed To Register Persona: ', persona.name, 'error:', error);
+        continue;
+      }
+
+      this.registerProvider(new PersonaProvider(persona));
+      this._personas.add(persona.name);
+    }
+  }
+
   registerProvider(provider: BaseProvider) {
     if (this._providers.has(provider.name)) {
       logger.warn(`Provider ${provider.name} is already registered. Skipping.`);
@@ -62,12 +94,103 @@ export class LLMManager {
     this._modelList = [...this._modelList, ...provider.staticModels];
   }
 
-  getProvider(name: string): BaseProvider | undefined {
-    return this._providers.get(name);
+  unregisterProvider(name: string) {
+    if (!this._providers.delete(name)) {
+      return;
+    }
+
+    logger.info('Unregistering Provider: ', name);
+    this._modelList = this._modelList.filter((model) => model.provider !== name);
+  }
+
+  /**
+   * Brings the registered custom endpoints in line with the given list, endpoints that were removed or
+   * changed are unregistered first. Only the browser registers them, the server serves many users and builds
+   * them per request with `createCustomProviders`.
+   */
+  setCustomProviders(configs: CustomProviderConfig[]) {
+    const serializedConfigs = new Map(configs.map((config) => [config.name, JSON.stringify(config)]));
+
+    for (const [name, serialized] of this._customProviders) {
+      if (serializedConfigs.get(name) !== serialized) {
+        this.unregisterProvider(name);
+        this._customProviders.delete(name);
+      }
+    }
+
+    for (const config of configs) {
+      if (this._customProviders.has(config.name)) {
+        continue;
+      }
+
+      if (this._providers.has(config.name)) {
+        logger.warn(`Custom provider ${config.name} clashes with a built-in provider. Skipping.`);
+        continue;
+      }
+
+      this.registerProvider(new CustomOpenAIProvider(config));
+      this._customProviders.set(config.name, serializedConfigs.get(config.name)!);
+    }
+  }
+
+  /**
+   * The custom endpoints of one request, passed along to the methods that take `customProviders` instead of
+   * being registered. Endpoints named like a registered provider are left out.
+   */
+  createCustomProviders(configs: CustomProviderConfig[]): BaseProvider[] {
+    return configs
+      .filter((config) => {
+        if (this._providers.has(config.name)) {
+          logger.warn(`Custom provider ${config.name} clashes with a built-in provider. Skipping.`);
+          return false;
+        }
+
+        return true;
+      })
+      .map((config) => new CustomOpenAIProvider(config));
   }
 
-  getAllProviders(): BaseProvider[] {
-    return Array.from(this._providers.values());
+  isCustomProvider(name: string) {
+    return this._customProviders.has(name);
+  }
+
+  isPersona(name: string) {
+    return this._personas.has(name);
+  }
+
+  getProvider(name: string, customProviders: BaseProvider[] = []): BaseProvider | undefined {
+    return this._providers.get(name) ?? customProviders.find((provider) => provider.name === name);
+  }
+
+  /**
+   * Routes every model created through `getModelInstance` through the recorder, tests use this to replay
+   * provider traffic from a cassette. Pass `undefined` to talk to the providers directly again.
+   */
+  setRecorder(recorder?: LLMRecorder) {
+    this._recorder = recorder;
+  }
+
+  getModelInstance(
+    provider: BaseProvider,
+    options: {
+      model: string;
+      serverEnv: Env;
+      apiKeys?: Record<string, string>;
+      providerSettings?: Record<string, IProviderSetting>;
+    },
+  ): LanguageModelV1 {
+    const pool = KeyPool.getInstance();
+    const { result, keys } = pool.track(() => provider.getModelInstance(options));
+
+    // the last key selected is the one the instance was created with, rejected keys get quarantined
+    const instance = keys.length ? pool.wrap(result, provider.name, keys[keys.length - 1]) : result;
+
+    // personas get their upstream model through here, which is recorded already
+    return this._recorder && !this.isPersona(provider.name) ? this._recorder.wrap(instance, provider.name) : instance;
+  }
+
+  getAllProviders(customProviders: BaseProvider[] = []): BaseProvider[] {
+    return [...this._providers.values(), ...customProviders];
   }
 
   getModelList(): ModelInfo[] {
@@ -78,116 +201,76 @@ export class LLMManager {
     apiKeys?: Record<string, string>;
     providerSettings?: Record<string, IProviderSetting>;
     serverEnv?: Record<string, string>;
+    refresh?: boolean;
   }): Promise<ModelInfo[]> {
-    const { apiKeys, providerSettings, serverEnv } = options;
+    this._modelList = await this.listModels(options);
 
-    let enabledProviders = Array.from(this._providers.values()).map((p) => p.name);
+    return this._modelList;
+  }
+
+  /**
+   * The static and dynamic models of the enabled providers, without keeping them as the model list.
+   */
+  async listModels(options: {
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+    serverEnv?: Record<string, string>;
+    refresh?: boolean;
+    customProviders?: BaseProvider[];
+  }): Promise<ModelInfo[]> {
+    const { providerSettings, customProviders } = options;
+    const allProviders = this.getAllProviders(customProviders);
+
+    let enabledProviders = allProviders.map((p) => p.name);
 
     if (providerSettings) {
-      enabledProviders = enabledProviders.filter((p) => providerSettings[p].enabled);
+      enabledProviders = enabledProviders.filter((p) => providerSettings[p]?.enabled !== false);
     }
 
     // Get dynamic models from all providers that support them
     const dynamicModels = await Promise.all(
-      Array.from(this._providers.values())
+      allProviders
         .filter((provider) => enabledProviders.includes(provider.name))
         .filter(
           (provider): provider is BaseProvider & Required<Pick<ProviderInfo, 'getDynamicModels'>> =>
             !!provider.getDynamicModels,
         )
-        .map(async (provider) => {
-          const cachedModels = provider.getModelsFromCache(options);
-
-          if (cachedModels) {
-            return cachedModels;
-          }
-
-          const dynamicModels = await provider
-            .getDynamicModels(apiKeys, providerSettings?.[provider.name], serverEnv)
-            .then((models) => {
-              logger.info(`Caching ${models.length} dynamic models for ${provider.name}`);
-              provider.storeDynamicModels(options, models);
-
-              return models;
-            })
-            .catch((err) => {
-              logger.error(`Error getting dynamic models ${provider.name} :`, err);
-              return [];
-            });
-
-          return dynamicModels;
-        }),
+        .map((provider) =>
+          this._catalog.getModels(provider, options).catch((err) => {
+            logger.error(`Error getting dynamic models ${provider.name} :`, err);
+            return [];
+          }),
+        ),
     );
 
     // Combine static and dynamic models
-    const modelList = [
-      ...dynamicModels.flat(),
-      ...Array.from(this._providers.values()).flatMap((p) => p.staticModels || []),
-    ];
-    this._modelList = modelList;
-
-    return modelList;
+    return [...dynamicModels.flat(), ...allProviders.flatMap((p) => p.staticModels || [])];
   }
   getStaticModelList() {
     return [...this._providers.values()].flatMap((p) => p.staticModels || []);
   }
   async getModelListFromProvider(
-    providerArg: BaseProvider,
+    provider: BaseProvider,
     options: {
       apiKeys?: Record<string, string>;
       providerSettings?: Record<string, IProviderSetting>;
       serverEnv?: Record<string, string>;
     },
   ): Promise<ModelInfo[]> {
-    const provider = this._providers.get(providerArg.name);
-
-    if (!provider) {
-      throw new Error(`Provider ${providerArg.name} not found`);
-    }
-
     const staticModels = provider.staticModels || [];
 
     if (!provider.getDynamicModels) {
       return staticModels;
     }
 
-    const { apiKeys, providerSettings, serverEnv } = options;
-
-    const cachedModels = provider.getModelsFromCache({
-      apiKeys,
-      providerSettings,
-      serverEnv,
+    const dynamicModels = await this._catalog.getModels(provider, options).catch((err) => {
+      logger.error(`Error getting dynamic models ${provider.name} :`, err);
+      return [];
     });
 
-    if (cachedModels) {
-      logger.info(`Found ${cachedModels.length} cached models for ${provider.name}`);
-      return [...cachedModels, ...staticModels];
-    }
-
-    logger.info(`Getting dynamic models for ${provider.name}`);
-
-    const dynamicModels = await provider
-      .getDynamicModels?.(apiKeys, providerSettings?.[provider.name], serverEnv)
-      .then((models) => {
-        logger.info(`Got ${models.length} dynamic models for ${provider.name}`);
-        provider.storeDynamicModels(options, models);
-
-        return models;
-      })
-      .catch((err) => {
-        logger.error(`Error getting dynamic models ${provider.name} :`, err);
-        return [];
-      });
-
     return [...dynamicModels, ...staticModels];
   }
-  getStaticModelListFromProvider(providerArg: BaseProvider) {
-    const provider = this._providers.get(providerArg.name);
-
-    if (!provider) {
-      throw new Error(`Provider ${providerArg.name} not found`);
-    }
-
+  getStaticModelListFromProvider(provider: BaseProvider) {
     return [...(provider.staticModels || [])];
   }
 
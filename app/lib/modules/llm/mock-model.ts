@@ -0,0 +1,167 @@
+import {
+  APICallError,
+  simulateReadableStream,
+  type LanguageModelV1,
+  type LanguageModelV1Prompt,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+import { CONTINUE_PROMPT } from '~/lib/common/prompts/continue';
+
+export interface MockSegment {
+  /**
+   * The text of the segment, split into `chunks` if those aren't given.
+   */
+  text?: string;
+  chunks?: string[];
+
+  /**
+   * `length` makes `api.chat` ask for a continuation, which gets the next segment of the turn.
+   */
+  finishReason?: 'stop' | 'length';
+  usage?: { promptTokens: number; completionTokens: number };
+
+  /**
+   * Fails the request. Without any text the request fails before it starts streaming, otherwise the stream
+   * breaks off after the text.
+   */
+  error?: { message: string; statusCode?: number };
+}
+
+export interface MockTurn {
+  segments: MockSegment[];
+}
+
+/**
+ * A scripted or recorded conversation. Every user message gets the next turn, the last turn repeats once the
+ * conversation runs past the end of the fixture.
+ */
+export interface MockFixture {
+  name: string;
+  label?: string;
+  description?: string;
+  chunkSize?: number;
+  chunkDelayMs?: number;
+  turns: MockTurn[];
+}
+
+const DEFAULT_CHUNK_SIZE = 40;
+const DEFAULT_CHUNK_DELAY_MS = 15;
+const MOCK_URL = 'mock://bolt';
+
+export function createMockModel(fixture: MockFixture): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId: fixture.name,
+    defaultObjectGenerationMode: undefined,
+
+    async doGenerate(options) {
+      const segment = selectSegment(fixture, options.prompt);
+
+      if (segment.error) {
+        throw createError(segment, options.prompt);
+      }
+
+      const text = getText(segment);
+
+      return {
+        text,
+        finishReason: segment.finishReason ?? 'stop',
+        usage: segment.usage ?? estimateUsage(options.prompt, text),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+
+    async doStream(options) {
+      const segment = selectSegment(fixture, options.prompt);
+      const chunks = segment.chunks ?? splitText(getText(segment), fixture.chunkSize ?? DEFAULT_CHUNK_SIZE);
+
+      if (segment.error && chunks.length === 0) {
+        throw createError(segment, options.prompt);
+      }
+
+      const parts: LanguageModelV1StreamPart[] = chunks.map((chunk) => ({ type: 'text-delta', textDelta: chunk }));
+
+      if (segment.error) {
+        parts.push({ type: 'error', error: createError(segment, options.prompt) });
+      } else {
+        parts.push({
+          type: 'finish',
+          finishReason: segment.finishReason ?? 'stop',
+          usage: segment.usage ?? estimateUsage(options.prompt, chunks.join('')),
+        });
+      }
+
+      return {
+        stream: simulateReadableStream({
+          chunks: parts,
+          chunkDelayInMs: fixture.chunkDelayMs ?? DEFAULT_CHUNK_DELAY_MS,
+        }),
+        rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+      };
+    },
+  };
+}
+
+/**
+ * Works out which segment the prompt asks for, every user message starts a new turn except for the
+ * continuation prompts `api.chat` sends when a response was cut off.
+ */
+export function selectSegment(fixture: MockFixture, prompt: LanguageModelV1Prompt): MockSegment {
+  let turn = -1;
+  let segment = 0;
+
+  for (const message of prompt) {
+    if (message.role !== 'user') {
+      continue;
+    }
+
+    if (getPromptText(message.content) === CONTINUE_PROMPT && turn >= 0) {
+      segment++;
+    } else {
+      turn++;
+      segment = 0;
+    }
+  }
+
+  const turnSegments = fixture.turns[Math.min(Math.max(turn, 0), fixture.turns.length - 1)]?.segments ?? [];
+
+  return turnSegments[Math.min(segment, turnSegments.length - 1)] ?? { text: '' };
+}
+
+function getText(segment: MockSegment) {
+  return segment.text ?? segment.chunks?.join('') ?? '';
+}
+
+function getPromptText(content: LanguageModelV1Prompt[number]['content']) {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content.map((part) => (part.type === 'text' ? part.text : '')).join('');
+}
+
+function splitText(text: string, chunkSize: number) {
+  const chunks: string[] = [];
+
+  for (let i = 0; i < text.length; i += chunkSize) {
+    chunks.push(text.slice(i, i + chunkSize));
+  }
+
+  return chunks;
+}
+
+function estimateUsage(prompt: LanguageModelV1Prompt, text: string) {
+  const promptText = prompt.map((message) => getPromptText(message.content)).join('');
+
+  return { promptTokens: Math.ceil(promptText.length / 4), completionTokens: Math.ceil(text.length / 4) };
+}
+
+function createError(segment: MockSegment, prompt: LanguageModelV1Prompt) {
+  return new APICallError({
+    message: segment.error?.message ?? 'Mock error',
+    url: MOCK_URL,
+    requestBodyValues: { prompt },
+    statusCode: segment.error?.statusCode,
+  });
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// the manager has to load before the providers, like it does through `~/utils/constants` in the app
+import './manager';
+import { CustomOpenAIProvider } from './custom-provider';
+import { MemoryCatalogStorage, ModelCatalog } from './model-catalog';
+
+function createProvider() {
+  const provider = new CustomOpenAIProvider({ name: 'vLLM', baseUrl: 'http://gpu-box:8000/v1' });
+  const getDynamicModels = vi
+    .spyOn(provider, 'getDynamicModels')
+    .mockResolvedValue([{ name: 'qwen2.5-coder', label: 'qwen2.5-coder', provider: 'vLLM', maxTokenAllowed: 8000 }]);
+
+  return { provider, getDynamicModels };
+}
+
+describe('ModelCatalog', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should cache the models per set of keys until they expire', async () => {
+    vi.useFakeTimers();
+
+    const catalog = new ModelCatalog();
+    const { provider, getDynamicModels } = createProvider();
+    const serverEnv = { MODEL_LIST_TTL: '120' };
+
+    await Promise.all([
+      catalog.getModels(provider, { apiKeys: { vLLM: 'first' }, serverEnv }),
+      catalog.getModels(provider, { apiKeys: { vLLM: 'first' }, serverEnv }),
+    ]);
+    await catalog.getModels(provider, { apiKeys: { vLLM: 'first' }, serverEnv });
+    expect(getDynamicModels).toHaveBeenCalledTimes(1);
+
+    await catalog.getModels(provider, { apiKeys: { vLLM: 'second' }, serverEnv });
+    expect(getDynamicModels).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(121_000);
+    await catalog.getModels(provider, { apiKeys: { vLLM: 'first' }, serverEnv });
+    expect(getDynamicModels).toHaveBeenCalledTimes(3);
+
+    await catalog.getModels(provider, { apiKeys: { vLLM: 'first' }, serverEnv, refresh: true });
+    expect(getDynamicModels).toHaveBeenCalledTimes(4);
+  });
+
+  it('should keep the models in the KV binding without the keys', async () => {
+    const kv = new MemoryCatalogStorage();
+    const put = vi.spyOn(kv, 'put');
+    const { provider, getDynamicModels } = createProvider();
+
+    await new ModelCatalog().getModels(provider, {
+      apiKeys: { vLLM: 'secret' },
+      serverEnv: { MODEL_CATALOG: kv as any },
+    });
+    await new ModelCatalog().getModels(provider, {
+      apiKeys: { vLLM: 'secret' },
+      serverEnv: { MODEL_CATALOG: kv as any },
+    });
+
+    expect(getDynamicModels).toHaveBeenCalledTimes(1);
+    expect(put).toHaveBeenCalledWith(expect.stringMatching(/^models:vLLM:[0-9a-f]{14}$/), expect.any(String), {
+      expirationTtl: 3600,
+    });
+    expect(put.mock.calls[0].join()).not.toContain('secret');
+  });
+});
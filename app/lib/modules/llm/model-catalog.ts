@@ -0,0 +1,131 @@
+import type { BaseProvider } from './base-provider';
+import type { ModelInfo } from './types';
+import type { IProviderSetting } from '~/types/model';
+import { hash } from '~/utils/hash';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ModelCatalog');
+
+export const DEFAULT_MODEL_LIST_TTL_SECONDS = 60 * 60;
+
+/**
+ * The part of a Cloudflare KV namespace the catalog uses, the browser keeps its copy in IndexedDB behind the
+ * same interface.
+ */
+export interface CatalogStorage {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CatalogEntry {
+  models: ModelInfo[];
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Stands in for the KV binding when there is none, entries only live as long as the worker.
+ */
+export class MemoryCatalogStorage implements CatalogStorage {
+  private _entries: Map<string, { value: string; expiresAt: number }> = new Map();
+
+  async get(key: string) {
+    const entry = this._entries.get(key);
+
+    if (entry && entry.expiresAt <= Date.now()) {
+      this._entries.delete(key);
+      return null;
+    }
+
+    return entry?.value ?? null;
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }) {
+    const expiresAt = options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : Infinity;
+    this._entries.set(key, { value, expiresAt });
+  }
+
+  async delete(key: string) {
+    this._entries.delete(key);
+  }
+}
+
+export function parseCatalogEntry(value: string | null, now = Date.now()): CatalogEntry | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const entry = JSON.parse(value) as CatalogEntry;
+
+  return entry.expiresAt > now ? entry : undefined;
+}
+
+/**
+ * The dynamic models of the providers, cached per provider and set of keys for `MODEL_LIST_TTL` seconds. The
+ * cache lives in the `MODEL_CATALOG` KV binding when the worker has one, otherwise in memory. Keys are hashed,
+ * they never end up in the storage.
+ */
+export class ModelCatalog {
+  private _memory = new MemoryCatalogStorage();
+  private _pending: Map<string, Promise<ModelInfo[]>> = new Map();
+
+  async getModels(
+    provider: BaseProvider,
+    options: {
+      apiKeys?: Record<string, string>;
+      providerSettings?: Record<string, IProviderSetting>;
+      serverEnv?: Record<string, string>;
+
+      /**
+       * Lists the models again even if the cached list hasn't expired yet.
+       */
+      refresh?: boolean;
+    },
+  ): Promise<ModelInfo[]> {
+    if (!provider.getDynamicModels) {
+      return [];
+    }
+
+    const { apiKeys, providerSettings, serverEnv, refresh } = options;
+    const key = `models:${provider.name}:${hash(provider.getDynamicModelsCacheKey(options))}`;
+    const storage = this._getStorage(serverEnv);
+
+    if (!refresh) {
+      const entry = parseCatalogEntry(await storage.get(key));
+
+      if (entry) {
+        return entry.models;
+      }
+    }
+
+    // concurrent requests for the same list share one call to the provider
+    let pending = this._pending.get(key);
+
+    if (!pending) {
+      pending = provider
+        .getDynamicModels(apiKeys, providerSettings?.[provider.name], serverEnv)
+        .then(async (models) => {
+          // KV entries live for at least a minute
+          const ttl = Math.max(Number(serverEnv?.MODEL_LIST_TTL) || DEFAULT_MODEL_LIST_TTL_SECONDS, 60);
+          const fetchedAt = Date.now();
+          const entry: CatalogEntry = { models, fetchedAt, expiresAt: fetchedAt + ttl * 1000 };
+
+          logger.info(`Caching ${models.length} dynamic models for ${provider.name} for ${ttl}s`);
+          await storage.put(key, JSON.stringify(entry), { expirationTtl: ttl });
+
+          return models;
+        })
+        .finally(() => this._pending.delete(key));
+      this._pending.set(key, pending);
+    }
+
+    return pending;
+  }
+
+  private _getStorage(serverEnv?: Record<string, unknown>): CatalogStorage {
+    const binding = serverEnv?.MODEL_CATALOG as CatalogStorage | undefined;
+
+    return typeof binding?.get === 'function' && typeof binding?.put === 'function' ? binding : this._memory;
+  }
+}
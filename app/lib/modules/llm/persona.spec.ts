@@ -0,0 +1,106 @@
+import { generateText, type LanguageModelV1, type LanguageModelV1CallOptions } from 'ai';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// the manager has to load before the providers, like it does through `~/utils/constants` in the app
+import { LLMManager } from './manager';
+import { createMockModel } from './mock-model';
+import { loadPersonas, PersonaProvider, validatePersona } from './persona';
+import { LLMRecorder } from './recorder';
+import type { PersonaConfig } from '~/types/model';
+
+const persona: PersonaConfig = {
+  name: 'Acme AI',
+  company: 'Acme Corp',
+  preamble: 'You are {name} {model} by {company}, {description}.',
+  models: [
+    {
+      name: 'Swift',
+      description: 'a fast model',
+      upstream: { provider: 'OpenAI', model: 'gpt-4o-mini' },
+    },
+  ],
+  identity: [{ patterns: ['which model', 'who are you'], response: 'I am {name} {model}.' }],
+};
+
+describe('loadPersonas', () => {
+  it('should load the bundled personas and let the environment replace them', () => {
+    expect(loadPersonas().map((persona) => persona.name)).toContain('Val-X');
+
+    const personas = loadPersonas({ VITE_PERSONAS: JSON.stringify({ ...persona, name: 'Val-X' }) });
+
+    expect(personas.find((persona) => persona.name === 'Val-X')?.company).toBe('Acme Corp');
+  });
+
+  it('should register the personas as providers', () => {
+    const manager = LLMManager.getInstance();
+
+    expect(manager.isPersona('Val-X')).toBe(true);
+    expect(manager.getProvider('Val-X')?.staticModels.map((model) => model.name)).toContain('Z0');
+  });
+});
+
+describe('validatePersona', () => {
+  it('should reject models without an upstream and invalid patterns', () => {
+    expect(validatePersona(persona)).toBeUndefined();
+    expect(validatePersona({ ...persona, models: [{ name: 'Swift' } as any] })).toBe(
+      'Swift of Acme AI needs a name and an upstream provider and model',
+    );
+    expect(validatePersona({ ...persona, identity: [{ patterns: ['(who'], response: '' }] })).toBe(
+      '(who of Acme AI is not a valid regular expression',
+    );
+  });
+});
+
+describe('PersonaProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should send the preamble and the identity answer to the upstream model', async () => {
+    const doGenerate = vi.fn(async (_options: LanguageModelV1CallOptions) => ({
+      text: 'I am Acme AI Swift.',
+      finishReason: 'stop' as const,
+      usage: { promptTokens: 10, completionTokens: 5 },
+      rawCall: { rawPrompt: null, rawSettings: {} },
+    }));
+    const getModelInstance = vi.spyOn(LLMManager.getInstance(), 'getModelInstance').mockReturnValue({
+      specificationVersion: 'v1',
+      provider: 'openai.chat',
+      modelId: 'gpt-4o-mini',
+      defaultObjectGenerationMode: undefined,
+      doGenerate,
+    } as unknown as LanguageModelV1);
+
+    const model = new PersonaProvider(persona).getModelInstance({ model: 'Swift', serverEnv: {} as Env });
+    await generateText({ model, system: 'Build apps.', prompt: 'Hi, which model are you?' });
+
+    expect(model).toMatchObject({ provider: 'Acme AI', modelId: 'Acme AI Swift' });
+    expect(getModelInstance.mock.calls[0][1]).toMatchObject({ model: 'gpt-4o-mini' });
+    expect(doGenerate.mock.calls[0][0].prompt[0]).toEqual({
+      role: 'system',
+      content:
+        'You are Acme AI Swift by Acme Corp, a fast model.\n\n' +
+        'The last message asks about your identity. Answer that part with: "I am Acme AI Swift."\n\n' +
+        'Build apps.',
+    });
+  });
+
+  it('should record the requests of personas once, as the upstream request', async () => {
+    const manager = LLMManager.getInstance();
+    const recorder = new LLMRecorder(undefined, 'record');
+
+    vi.spyOn(manager.getProvider('Anthropic')!, 'getModelInstance').mockReturnValue(
+      createMockModel({ name: 'claude-3-5-haiku-latest', chunkDelayMs: 0, turns: [{ segments: [{ text: 'Hi' }] }] }),
+    );
+    manager.setRecorder(recorder);
+
+    try {
+      const model = manager.getModelInstance(manager.getProvider('Val-X')!, { model: 'Z0', serverEnv: {} as Env });
+      await generateText({ model, prompt: 'Hi' });
+    } finally {
+      manager.setRecorder(undefined);
+    }
+
+    expect(recorder.cassette.recordings.map((recording) => recording.provider)).toEqual(['Anthropic']);
+  });
+});
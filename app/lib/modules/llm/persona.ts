@@ -0,0 +1,178 @@
+import {
+  experimental_wrapLanguageModel as wrapLanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1Prompt,
+} from 'ai';
+import { BaseProvider } from './base-provider';
+import { LLMManager } from './manager';
+import type { ModelInfo, ProviderConfig } from './types';
+import type { IProviderSetting, PersonaConfig, PersonaModel } from '~/types/model';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('Persona');
+
+const personaModules = import.meta.glob<PersonaConfig>('/app/lib/modules/llm/personas/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+/**
+ * The personas of the deployment, the JSON files in `personas/` and the ones in `VITE_PERSONAS`, a JSON object
+ * or array. A persona in the environment replaces a file with the same name.
+ */
+export function loadPersonas(env: Record<string, string | undefined> = {}): PersonaConfig[] {
+  const personas = new Map(Object.values(personaModules).map((persona) => [persona.name, persona]));
+  const value = env.VITE_PERSONAS || (typeof process !== 'undefined' ? process.env?.VITE_PERSONAS : undefined);
+
+  if (value) {
+    try {
+      const parsed = JSON.parse(value) as PersonaConfig | PersonaConfig[];
+
+      for (const persona of Array.isArray(parsed) ? parsed : [parsed]) {
+        personas.set(persona.name, persona);
+      }
+    } catch (error) {
+      logger.error('Failed to parse VITE_PERSONAS', error);
+    }
+  }
+
+  return [...personas.values()];
+}
+
+/**
+ * Returns why the persona can't be used, or `undefined` if it's fine.
+ */
+export function validatePersona(config: PersonaConfig) {
+  if (!config.name?.trim()) {
+    return 'The persona needs a name';
+  }
+
+  if (!config.models?.length) {
+    return `${config.name} has no models`;
+  }
+
+  const model = config.models.find((model) => !model.name || !model.upstream?.provider || !model.upstream?.model);
+
+  if (model) {
+    return `${model.name || 'A model'} of ${config.name} needs a name and an upstream provider and model`;
+  }
+
+  for (const rule of config.identity ?? []) {
+    for (const pattern of rule.patterns) {
+      try {
+        new RegExp(pattern, 'i');
+      } catch {
+        return `${pattern} of ${config.name} is not a valid regular expression`;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+export function fillPersonaTemplate(template: string, persona: PersonaConfig, model: PersonaModel) {
+  const values: Record<string, string> = {
+    name: persona.name,
+    model: model.name,
+    company: persona.company ?? persona.name,
+    description: model.description ?? '',
+    details: model.details ?? '',
+  };
+
+  return template.replace(/\{(name|model|company|description|details)\}/g, (_, key: string) => values[key]);
+}
+
+/**
+ * Serves the models of a persona with the models of other providers. Requests get the persona's preamble in
+ * front of their system prompt and, when the last user message asks who the model is, the answer to give.
+ * The keys are the ones of the upstream providers.
+ */
+export class PersonaProvider extends BaseProvider {
+  name: string;
+  staticModels: ModelInfo[];
+  config: ProviderConfig = {};
+  getApiKeyLink = undefined;
+
+  readonly persona: PersonaConfig;
+  private readonly _identityRules: Array<{ patterns: RegExp[]; response: string }>;
+
+  constructor(persona: PersonaConfig) {
+    super();
+
+    this.persona = persona;
+    this.name = persona.name;
+    this.icon = persona.icon;
+    this.staticModels = persona.models.map((model) => ({
+      name: model.name,
+      label: model.label ?? model.name,
+      provider: persona.name,
+      maxTokenAllowed: model.maxTokenAllowed ?? 8000,
+      contextWindow: model.contextWindow,
+      vision: model.vision,
+      toolUse: model.toolUse,
+    }));
+    this._identityRules = (persona.identity ?? []).map((rule) => ({
+      patterns: rule.patterns.map((pattern) => new RegExp(pattern, 'i')),
+      response: rule.response,
+    }));
+  }
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const model = this.persona.models.find((model) => model.name === options.model);
+
+    if (!model) {
+      throw new Error(`Invalid model ${options.model} for ${this.name} provider`);
+    }
+
+    const manager = LLMManager.getInstance();
+    const upstream = manager.getProvider(model.upstream.provider);
+
+    if (!upstream) {
+      throw new Error(`${this.name} ${model.name} needs the ${model.upstream.provider} provider`);
+    }
+
+    logger.debug(`${this.name} ${model.name} using ${model.upstream.provider}/${model.upstream.model}`);
+
+    return wrapLanguageModel({
+      model: manager.getModelInstance(upstream, { ...options, model: model.upstream.model }),
+      modelId: `${this.name} ${model.name}`,
+      providerId: this.name,
+      middleware: {
+        transformParams: async ({ params }) => ({ ...params, prompt: this.applyPersona(params.prompt, model) }),
+      },
+    });
+  }
+
+  /**
+   * Puts the preamble and the identity answer in the leading system message, some providers don't accept
+   * system messages further down the conversation.
+   */
+  applyPersona(prompt: LanguageModelV1Prompt, model: PersonaModel): LanguageModelV1Prompt {
+    const lastUserMessage = prompt.findLast((message) => message.role === 'user');
+    const question = lastUserMessage?.content.map((part) => (part.type === 'text' ? part.text : '')).join('\n') ?? '';
+    const rule = this._identityRules.find(({ patterns }) => patterns.some((pattern) => pattern.test(question)));
+
+    const instructions = [
+      this.persona.preamble && fillPersonaTemplate(this.persona.preamble, this.persona, model),
+      rule &&
+        `The last message asks about your identity. Answer that part with: "${fillPersonaTemplate(rule.response, this.persona, model)}"`,
+    ].filter(Boolean);
+
+    if (instructions.length === 0) {
+      return prompt;
+    }
+
+    const [first, ...rest] = prompt;
+
+    if (first?.role === 'system') {
+      return [{ ...first, content: [...instructions, first.content].join('\n\n') }, ...rest];
+    }
+
+    return [{ role: 'system', content: instructions.join('\n\n') }, ...prompt];
+  }
+}
@@ -25,36 +25,66 @@ export default class AmazonBedrockProvider extends BaseProvider {
       label: 'Claude 3.5 Sonnet (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      contextWindow: 200_000,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 3, output: 15 },
     },
     {
       name: 'anthropic.claude-3-sonnet-20240229-v1:0',
       label: 'Claude 3 Sonnet (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      contextWindow: 200_000,
+      maxOutputTokens: 4096,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 3, output: 15 },
     },
     {
       name: 'anthropic.claude-3-haiku-20240307-v1:0',
       label: 'Claude 3 Haiku (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 4096,
+      contextWindow: 200_000,
+      maxOutputTokens: 4096,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.25, output: 1.25 },
     },
     {
       name: 'amazon.nova-pro-v1:0',
       label: 'Amazon Nova Pro (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 5120,
+      contextWindow: 300_000,
+      maxOutputTokens: 5120,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.8, output: 3.2 },
     },
     {
       name: 'amazon.nova-lite-v1:0',
       label: 'Amazon Nova Lite (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 5120,
+      contextWindow: 300_000,
+      maxOutputTokens: 5120,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.06, output: 0.24 },
     },
     {
       name: 'mistral.mistral-large-2402-v1:0',
       label: 'Mistral Large 24.02 (Bedrock)',
       provider: 'AmazonBedrock',
       maxTokenAllowed: 8192,
+      contextWindow: 32_000,
+      maxOutputTokens: 8192,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 4, output: 12 },
     },
   ];
 
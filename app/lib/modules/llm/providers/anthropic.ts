@@ -1,7 +1,11 @@
 import { BaseProvider } from '~/lib/modules/llm/base-provider';
-import type { ModelInfo } from '~/lib/modules/llm/types';
-import type { LanguageModelV1 } from 'ai';
-import type { IProviderSetting } from '~/types/model';
+import type { ModelInfo, ProviderOptions } from '~/lib/modules/llm/types';
+import {
+  experimental_wrapLanguageModel as wrapLanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1Prompt,
+} from 'ai';
+import type { GenerationParameterName, GenerationParameters, IProviderSetting } from '~/types/model';
 import { createAnthropic } from '@ai-sdk/anthropic';
 
 export default class AnthropicProvider extends BaseProvider {
@@ -12,28 +16,75 @@ export default class AnthropicProvider extends BaseProvider {
     apiTokenKey: 'ANTHROPIC_API_KEY',
   };
 
+  supportedParameters: GenerationParameterName[] = ['temperature', 'topP', 'topK', 'stopSequences', 'promptCaching'];
+
   staticModels: ModelInfo[] = [
     {
       name: 'claude-3-5-sonnet-latest',
       label: 'Claude 3.5 Sonnet (new)',
       provider: 'Anthropic',
       maxTokenAllowed: 8000,
+      contextWindow: 200_000,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 3, output: 15 },
     },
     {
       name: 'claude-3-5-sonnet-20240620',
       label: 'Claude 3.5 Sonnet (old)',
       provider: 'Anthropic',
       maxTokenAllowed: 8000,
+      contextWindow: 200_000,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 3, output: 15 },
     },
     {
       name: 'claude-3-5-haiku-latest',
       label: 'Claude 3.5 Haiku (new)',
       provider: 'Anthropic',
       maxTokenAllowed: 8000,
+      contextWindow: 200_000,
+      maxOutputTokens: 8192,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.8, output: 4 },
+    },
+    {
+      name: 'claude-3-opus-latest',
+      label: 'Claude 3 Opus',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+      contextWindow: 200_000,
+      maxOutputTokens: 4096,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 15, output: 75 },
+    },
+    {
+      name: 'claude-3-sonnet-20240229',
+      label: 'Claude 3 Sonnet',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+      contextWindow: 200_000,
+      maxOutputTokens: 4096,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 3, output: 15 },
+    },
+    {
+      name: 'claude-3-haiku-20240307',
+      label: 'Claude 3 Haiku',
+      provider: 'Anthropic',
+      maxTokenAllowed: 8000,
+      contextWindow: 200_000,
+      maxOutputTokens: 4096,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.25, output: 1.25 },
     },
-    { name: 'claude-3-opus-latest', label: 'Claude 3 Opus', provider: 'Anthropic', maxTokenAllowed: 8000 },
-    { name: 'claude-3-sonnet-20240229', label: 'Claude 3 Sonnet', provider: 'Anthropic', maxTokenAllowed: 8000 },
-    { name: 'claude-3-haiku-20240307', label: 'Claude 3 Haiku', provider: 'Anthropic', maxTokenAllowed: 8000 },
   ];
   getModelInstance: (options: {
     model: string;
@@ -53,6 +104,37 @@ export default class AnthropicProvider extends BaseProvider {
       apiKey,
     });
 
-    return anthropic(model);
+    const cachingModel = anthropic(model, { cacheControl: true });
+
+    /*
+     * a model with cache control sends the prompt caching beta header with every request, so only requests
+     * that mark parts for caching go through it
+     */
+    return wrapLanguageModel({
+      model: anthropic(model),
+      middleware: {
+        wrapGenerate: async ({ doGenerate, params }) =>
+          hasCacheMarkers(params.prompt) ? cachingModel.doGenerate(params) : doGenerate(),
+        wrapStream: async ({ doStream, params }) =>
+          hasCacheMarkers(params.prompt) ? cachingModel.doStream(params) : doStream(),
+      },
+    });
   };
+
+  getProviderOptions(parameters: GenerationParameters): ProviderOptions {
+    if (!parameters.promptCaching) {
+      return {};
+    }
+
+    return { systemMetadata: { anthropic: { cacheControl: { type: 'ephemeral' } } } };
+  }
+}
+
+function hasCacheMarkers(prompt: LanguageModelV1Prompt) {
+  return prompt.some(
+    (message) =>
+      message.providerMetadata?.anthropic?.cacheControl ||
+      (Array.isArray(message.content) &&
+        message.content.some((part) => part.providerMetadata?.anthropic?.cacheControl)),
+  );
 }
@@ -1,6 +1,7 @@
 import { BaseProvider } from '~/lib/modules/llm/base-provider';
 import type { ModelInfo } from '~/lib/modules/llm/types';
-import type { IProviderSetting } from '~/types/model';
+import type { GenerationParameterName, IProviderSetting } from '~/types/model';
+import { COMMON_PARAMETERS } from '~/lib/modules/llm/generation-parameters';
 import type { LanguageModelV1 } from 'ai';
 import { createCohere } from '@ai-sdk/cohere';
 
@@ -12,17 +13,113 @@ export default class CohereProvider extends BaseProvider {
     apiTokenKey: 'COHERE_API_KEY',
   };
 
+  supportedParameters: GenerationParameterName[] = [...COMMON_PARAMETERS, 'topK'];
+
   staticModels: ModelInfo[] = [
-    { name: 'command-r-plus-08-2024', label: 'Command R plus Latest', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-r-08-2024', label: 'Command R Latest', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-r-plus', label: 'Command R plus', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-r', label: 'Command R', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command', label: 'Command', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-nightly', label: 'Command Nightly', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-light', label: 'Command Light', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'command-light-nightly', label: 'Command Light Nightly', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'c4ai-aya-expanse-8b', label: 'c4AI Aya Expanse 8b', provider: 'Cohere', maxTokenAllowed: 4096 },
-    { name: 'c4ai-aya-expanse-32b', label: 'c4AI Aya Expanse 32b', provider: 'Cohere', maxTokenAllowed: 4096 },
+    {
+      name: 'command-r-plus-08-2024',
+      label: 'Command R plus Latest',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 2.5, output: 10 },
+    },
+    {
+      name: 'command-r-08-2024',
+      label: 'Command R Latest',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.15, output: 0.6 },
+    },
+    {
+      name: 'command-r-plus',
+      label: 'Command R plus',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 2.5, output: 10 },
+    },
+    {
+      name: 'command-r',
+      label: 'Command R',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.15, output: 0.6 },
+    },
+    {
+      name: 'command',
+      label: 'Command',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 4096,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: false,
+    },
+    {
+      name: 'command-nightly',
+      label: 'Command Nightly',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: false,
+    },
+    {
+      name: 'command-light',
+      label: 'Command Light',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 4096,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: false,
+    },
+    {
+      name: 'command-light-nightly',
+      label: 'Command Light Nightly',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 4096,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: false,
+    },
+    {
+      name: 'c4ai-aya-expanse-8b',
+      label: 'c4AI Aya Expanse 8b',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 8192,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: false,
+    },
+    {
+      name: 'c4ai-aya-expanse-32b',
+      label: 'c4AI Aya Expanse 32b',
+      provider: 'Cohere',
+      maxTokenAllowed: 4096,
+      contextWindow: 128_000,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: false,
+    },
   ];
 
   getModelInstance(options: {
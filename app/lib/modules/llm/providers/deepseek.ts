@@ -13,8 +13,28 @@ export default class DeepseekProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'deepseek-coder', label: 'Deepseek-Coder', provider: 'Deepseek', maxTokenAllowed: 8000 },
-    { name: 'deepseek-chat', label: 'Deepseek-Chat', provider: 'Deepseek', maxTokenAllowed: 8000 },
+    {
+      name: 'deepseek-coder',
+      label: 'Deepseek-Coder',
+      provider: 'Deepseek',
+      maxTokenAllowed: 8000,
+      contextWindow: 64_000,
+      maxOutputTokens: 8192,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.27, output: 1.1 },
+    },
+    {
+      name: 'deepseek-chat',
+      label: 'Deepseek-Chat',
+      provider: 'Deepseek',
+      maxTokenAllowed: 8000,
+      contextWindow: 64_000,
+      maxOutputTokens: 8192,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.27, output: 1.1 },
+    },
   ];
 
   getModelInstance(options: {
@@ -1,6 +1,7 @@
 import { BaseProvider } from '~/lib/modules/llm/base-provider';
 import type { ModelInfo } from '~/lib/modules/llm/types';
-import type { IProviderSetting } from '~/types/model';
+import type { GenerationParameterName, IProviderSetting } from '~/types/model';
+import { COMMON_PARAMETERS } from '~/lib/modules/llm/generation-parameters';
 import type { LanguageModelV1 } from 'ai';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 
@@ -12,14 +13,84 @@ export default class GoogleProvider extends BaseProvider {
     apiTokenKey: 'GOOGLE_GENERATIVE_AI_API_KEY',
   };
 
+  supportedParameters: GenerationParameterName[] = [...COMMON_PARAMETERS, 'topK'];
+
   staticModels: ModelInfo[] = [
-    { name: 'gemini-1.5-flash-latest', label: 'Gemini 1.5 Flash', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-2.0-flash-exp', label: 'Gemini 2.0 Flash', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-1.5-flash-002', label: 'Gemini 1.5 Flash-002', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-1.5-flash-8b', label: 'Gemini 1.5 Flash-8b', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-1.5-pro-latest', label: 'Gemini 1.5 Pro', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-1.5-pro-002', label: 'Gemini 1.5 Pro-002', provider: 'Google', maxTokenAllowed: 8192 },
-    { name: 'gemini-exp-1206', label: 'Gemini exp-1206', provider: 'Google', maxTokenAllowed: 8192 },
+    {
+      name: 'gemini-1.5-flash-latest',
+      label: 'Gemini 1.5 Flash',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 1_048_576,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.075, output: 0.3 },
+    },
+    {
+      name: 'gemini-2.0-flash-exp',
+      label: 'Gemini 2.0 Flash',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 1_048_576,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+    },
+    {
+      name: 'gemini-1.5-flash-002',
+      label: 'Gemini 1.5 Flash-002',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 1_048_576,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.075, output: 0.3 },
+    },
+    {
+      name: 'gemini-1.5-flash-8b',
+      label: 'Gemini 1.5 Flash-8b',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 1_048_576,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.0375, output: 0.15 },
+    },
+    {
+      name: 'gemini-1.5-pro-latest',
+      label: 'Gemini 1.5 Pro',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 2_097_152,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 1.25, output: 5 },
+    },
+    {
+      name: 'gemini-1.5-pro-002',
+      label: 'Gemini 1.5 Pro-002',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 2_097_152,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 1.25, output: 5 },
+    },
+    {
+      name: 'gemini-exp-1206',
+      label: 'Gemini exp-1206',
+      provider: 'Google',
+      maxTokenAllowed: 8192,
+      contextWindow: 2_097_152,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+    },
   ];
 
   getModelInstance(options: {
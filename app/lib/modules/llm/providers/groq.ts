@@ -13,12 +13,72 @@ export default class GroqProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'llama-3.1-8b-instant', label: 'Llama 3.1 8b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-11b-vision-preview', label: 'Llama 3.2 11b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-90b-vision-preview', label: 'Llama 3.2 90b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-3b-preview', label: 'Llama 3.2 3b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.2-1b-preview', label: 'Llama 3.2 1b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
-    { name: 'llama-3.3-70b-versatile', label: 'Llama 3.3 70b (Groq)', provider: 'Groq', maxTokenAllowed: 8000 },
+    {
+      name: 'llama-3.1-8b-instant',
+      label: 'Llama 3.1 8b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      maxOutputTokens: 8192,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.05, output: 0.08 },
+    },
+    {
+      name: 'llama-3.2-11b-vision-preview',
+      label: 'Llama 3.2 11b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 8192,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.18, output: 0.18 },
+    },
+    {
+      name: 'llama-3.2-90b-vision-preview',
+      label: 'Llama 3.2 90b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 8192,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.9, output: 0.9 },
+    },
+    {
+      name: 'llama-3.2-3b-preview',
+      label: 'Llama 3.2 3b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      maxOutputTokens: 8192,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.06, output: 0.06 },
+    },
+    {
+      name: 'llama-3.2-1b-preview',
+      label: 'Llama 3.2 1b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      maxOutputTokens: 8192,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.04, output: 0.04 },
+    },
+    {
+      name: 'llama-3.3-70b-versatile',
+      label: 'Llama 3.3 70b (Groq)',
+      provider: 'Groq',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      maxOutputTokens: 32_768,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.59, output: 0.79 },
+    },
   ];
 
   getModelInstance(options: {
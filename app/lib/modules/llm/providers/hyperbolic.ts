@@ -18,30 +18,40 @@ export default class HyperbolicProvider extends BaseProvider {
       label: 'Qwen 2.5 Coder 32B Instruct',
       provider: 'Hyperbolic',
       maxTokenAllowed: 8192,
+      contextWindow: 32_768,
+      vision: false,
     },
     {
       name: 'Qwen/Qwen2.5-72B-Instruct',
       label: 'Qwen2.5-72B-Instruct',
       provider: 'Hyperbolic',
       maxTokenAllowed: 8192,
+      contextWindow: 32_768,
+      vision: false,
     },
     {
       name: 'deepseek-ai/DeepSeek-V2.5',
       label: 'DeepSeek-V2.5',
       provider: 'Hyperbolic',
       maxTokenAllowed: 8192,
+      contextWindow: 32_768,
+      vision: false,
     },
     {
       name: 'Qwen/QwQ-32B-Preview',
       label: 'QwQ-32B-Preview',
       provider: 'Hyperbolic',
       maxTokenAllowed: 8192,
+      contextWindow: 32_768,
+      vision: false,
     },
     {
       name: 'Qwen/Qwen2-VL-72B-Instruct',
       label: 'Qwen2-VL-72B-Instruct',
       provider: 'Hyperbolic',
       maxTokenAllowed: 8192,
+      contextWindow: 32_768,
+      vision: true,
     },
   ];
 
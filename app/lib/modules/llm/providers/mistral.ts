@@ -13,15 +13,95 @@ export default class MistralProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'open-mistral-7b', label: 'Mistral 7B', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'open-mixtral-8x7b', label: 'Mistral 8x7B', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'open-mixtral-8x22b', label: 'Mistral 8x22B', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'open-codestral-mamba', label: 'Codestral Mamba', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'open-mistral-nemo', label: 'Mistral Nemo', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'ministral-8b-latest', label: 'Mistral 8B', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'mistral-small-latest', label: 'Mistral Small', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'codestral-latest', label: 'Codestral', provider: 'Mistral', maxTokenAllowed: 8000 },
-    { name: 'mistral-large-latest', label: 'Mistral Large Latest', provider: 'Mistral', maxTokenAllowed: 8000 },
+    {
+      name: 'open-mistral-7b',
+      label: 'Mistral 7B',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 32_000,
+      vision: false,
+      toolUse: false,
+      pricing: { input: 0.25, output: 0.25 },
+    },
+    {
+      name: 'open-mixtral-8x7b',
+      label: 'Mistral 8x7B',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 32_000,
+      vision: false,
+      toolUse: false,
+      pricing: { input: 0.7, output: 0.7 },
+    },
+    {
+      name: 'open-mixtral-8x22b',
+      label: 'Mistral 8x22B',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 64_000,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 2, output: 6 },
+    },
+    {
+      name: 'open-codestral-mamba',
+      label: 'Codestral Mamba',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 256_000,
+      vision: false,
+      toolUse: false,
+    },
+    {
+      name: 'open-mistral-nemo',
+      label: 'Mistral Nemo',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.15, output: 0.15 },
+    },
+    {
+      name: 'ministral-8b-latest',
+      label: 'Mistral 8B',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.1, output: 0.1 },
+    },
+    {
+      name: 'mistral-small-latest',
+      label: 'Mistral Small',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 32_000,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.2, output: 0.6 },
+    },
+    {
+      name: 'codestral-latest',
+      label: 'Codestral',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 256_000,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.3, output: 0.9 },
+    },
+    {
+      name: 'mistral-large-latest',
+      label: 'Mistral Large Latest',
+      provider: 'Mistral',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 2, output: 6 },
+    },
   ];
 
   getModelInstance(options: {
@@ -0,0 +1,110 @@
+import type { ActionFunctionArgs } from '@remix-run/cloudflare';
+import { processDataStream } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { action } from '~/routes/api.chat';
+import { StreamingMessageParser, type ActionCallbackData } from '~/lib/runtime/message-parser';
+import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
+import { selectSegment, type MockFixture } from '~/lib/modules/llm/mock-model';
+import { MOCK_FIXTURES } from './mock';
+
+async function chat(model: string, request: string) {
+  const response: Response = await action({
+    request: new Request('http://localhost/api/chat', {
+      method: 'POST',
+      body: JSON.stringify({
+        messages: [{ role: 'user', content: `[Model: ${model}]\n\n[Provider: Mock]\n\n${request}` }],
+      }),
+    }),
+    context: { cloudflare: { env: {} } },
+    params: {},
+  } as unknown as ActionFunctionArgs);
+
+  let text = '';
+  const annotations: unknown[] = [];
+  const errors: string[] = [];
+
+  await processDataStream({
+    stream: response.body!,
+    onTextPart: (part) => {
+      text += part;
+    },
+    onMessageAnnotationsPart: (parts) => {
+      annotations.push(...parts);
+    },
+    onErrorPart: (error) => {
+      errors.push(error);
+    },
+  });
+
+  return { text, annotations, errors };
+}
+
+function parseActions(text: string) {
+  const actions: ActionCallbackData[] = [];
+  const parser = new StreamingMessageParser({ callbacks: { onActionClose: (data) => actions.push(data) } });
+
+  parser.parse('message', text);
+
+  return actions.map(({ action }) => action);
+}
+
+describe('MockProvider', () => {
+  it('should load every fixture as a model', () => {
+    expect(MOCK_FIXTURES.map((fixture) => fixture.name).sort()).toEqual([
+      'continuation',
+      'rate-limited',
+      'static-site',
+      'stream-error',
+    ]);
+  });
+
+  it('should stream an artifact through api.chat', async () => {
+    const { text, annotations, errors } = await chat('static-site', 'make me a page');
+
+    expect(errors).toEqual([]);
+    expect(parseActions(text).map((action) => action.type)).toEqual(['file', 'file', 'file', 'start']);
+    expect(annotations).toContainEqual({
+      type: 'model',
+      value: { provider: 'Mock', model: 'static-site', isFallback: false },
+    });
+  });
+
+  it('should put the segments of a continued response back together', async () => {
+    const { text } = await chat('continuation', 'build a counter');
+    const [file, shell] = parseActions(text);
+
+    expect(file).toMatchObject({ type: 'file', filePath: 'counter.js' });
+    expect(file.content).toContain('increment: () => ++value');
+    expect(file.content).toContain('get value()');
+    expect(shell.type).toBe('shell');
+  });
+
+  it('should report errors in the middle of the stream', async () => {
+    const { text, errors } = await chat('stream-error', 'do something');
+
+    expect(text).toContain('Sure, starting on that.');
+    expect(errors).toHaveLength(1);
+  });
+});
+
+describe('selectSegment', () => {
+  const fixture: MockFixture = {
+    name: 'turns',
+    turns: [
+      { segments: [{ text: 'first', finishReason: 'length' }, { text: 'first, continued' }] },
+      { segments: [{ text: 'second' }] },
+    ],
+  };
+
+  const user = (text: string) => ({ role: 'user' as const, content: [{ type: 'text' as const, text }] });
+  const assistant = (text: string) => ({ role: 'assistant' as const, content: [{ type: 'text' as const, text }] });
+
+  it('should pick the turn by user message and the segment by continuation', () => {
+    expect(selectSegment(fixture, [user('hi')]).text).toBe('first');
+    expect(selectSegment(fixture, [user('hi'), assistant('first'), user(CONTINUE_PROMPT)]).text).toBe(
+      'first, continued',
+    );
+    expect(selectSegment(fixture, [user('hi'), assistant('first, continued'), user('more')]).text).toBe('second');
+    expect(selectSegment(fixture, [user('1'), user('2'), user('3')]).text).toBe('second');
+  });
+});
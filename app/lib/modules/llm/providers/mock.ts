@@ -0,0 +1,54 @@
+import { BaseProvider } from '~/lib/modules/llm/base-provider';
+import { createMockModel, type MockFixture } from '~/lib/modules/llm/mock-model';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import type { IProviderSetting } from '~/types/model';
+import type { LanguageModelV1 } from 'ai';
+
+// every fixture file becomes a model named after the file
+const fixtureModules = import.meta.glob<Omit<MockFixture, 'name'>>('/app/lib/modules/llm/mock-fixtures/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+export const MOCK_FIXTURES: MockFixture[] = Object.entries(fixtureModules).map(([path, fixture]) => ({
+  ...fixture,
+  name: path
+    .split('/')
+    .pop()!
+    .replace(/\.json$/, ''),
+}));
+
+/**
+ * Replays scripted or recorded responses from the fixtures in `mock-fixtures`, so the chat pipeline can be
+ * tried out without an API key. Only registered in development builds, and only shown when the mock provider is
+ * turned on in the settings.
+ */
+export default class MockProvider extends BaseProvider {
+  name = 'Mock';
+  getApiKeyLink = undefined;
+
+  config = {};
+
+  staticModels: ModelInfo[] = MOCK_FIXTURES.map((fixture) => ({
+    name: fixture.name,
+    label: fixture.label ?? fixture.name,
+    provider: this.name,
+    maxTokenAllowed: 8000,
+    pricing: { input: 0, output: 0 },
+  }));
+
+  getModelInstance(options: {
+    model: string;
+    serverEnv: Env;
+    apiKeys?: Record<string, string>;
+    providerSettings?: Record<string, IProviderSetting>;
+  }): LanguageModelV1 {
+    const fixture = MOCK_FIXTURES.find((f) => f.name === options.model);
+
+    if (!fixture) {
+      throw new Error(`No mock fixture called ${options.model}`);
+    }
+
+    return createMockModel(fixture);
+  }
+}
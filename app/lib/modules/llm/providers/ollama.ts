@@ -1,6 +1,7 @@
 import { BaseProvider } from '~/lib/modules/llm/base-provider';
 import type { ModelInfo } from '~/lib/modules/llm/types';
-import type { IProviderSetting } from '~/types/model';
+import type { GenerationParameterName, IProviderSetting } from '~/types/model';
+import { COMMON_PARAMETERS } from '~/lib/modules/llm/generation-parameters';
 import type { LanguageModelV1 } from 'ai';
 import { ollama } from 'ollama-ai-provider';
 import { logger } from '~/utils/logger';
@@ -39,6 +40,8 @@ export default class OllamaProvider extends BaseProvider {
     baseUrlKey: 'OLLAMA_API_BASE_URL',
   };
 
+  supportedParameters: GenerationParameterName[] = [...COMMON_PARAMETERS, 'topK'];
+
   staticModels: ModelInfo[] = [];
 
   async getDynamicModels(
@@ -79,6 +82,12 @@ export default class OllamaProvider extends BaseProvider {
       label: `${model.name} (${model.details.parameter_size})`,
       provider: this.name,
       maxTokenAllowed: 8000,
+
+      // requests run with this context size, whatever the model itself supports
+      contextWindow: DEFAULT_NUM_CTX,
+
+      // multimodal models ship a vision encoder next to the language model
+      vision: model.details.families?.some((family) => family === 'clip' || family === 'mllama') ?? false,
     }));
   }
   getModelInstance: (options: {
@@ -12,6 +12,12 @@ interface OpenRouterModel {
     prompt: number;
     completion: number;
   };
+  architecture?: {
+    modality?: string;
+  };
+  top_provider?: {
+    max_completion_tokens?: number | null;
+  };
 }
 
 interface OpenRouterModelsResponse {
@@ -32,45 +38,92 @@ export default class OpenRouterProvider extends BaseProvider {
       label: 'Anthropic: Claude 3.5 Sonnet (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 200_000,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 3, output: 15 },
     },
     {
       name: 'anthropic/claude-3-haiku',
       label: 'Anthropic: Claude 3 Haiku (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 200_000,
+      maxOutputTokens: 4096,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.25, output: 1.25 },
     },
     {
       name: 'deepseek/deepseek-coder',
       label: 'Deepseek-Coder V2 236B (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      vision: false,
+      toolUse: true,
     },
     {
       name: 'google/gemini-flash-1.5',
       label: 'Google Gemini Flash 1.5 (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 1_000_000,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.075, output: 0.3 },
     },
     {
       name: 'google/gemini-pro-1.5',
       label: 'Google Gemini Pro 1.5 (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 2_000_000,
+      maxOutputTokens: 8192,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 1.25, output: 5 },
+    },
+    {
+      name: 'x-ai/grok-beta',
+      label: 'xAI Grok Beta (OpenRouter)',
+      provider: 'OpenRouter',
+      maxTokenAllowed: 8000,
+      contextWindow: 131_072,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 5, output: 15 },
     },
-    { name: 'x-ai/grok-beta', label: 'xAI Grok Beta (OpenRouter)', provider: 'OpenRouter', maxTokenAllowed: 8000 },
     {
       name: 'mistralai/mistral-nemo',
       label: 'OpenRouter Mistral Nemo (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      vision: false,
+      toolUse: true,
     },
     {
       name: 'qwen/qwen-110b-chat',
       label: 'OpenRouter Qwen 110b Chat (OpenRouter)',
       provider: 'OpenRouter',
       maxTokenAllowed: 8000,
+      contextWindow: 32_768,
+      vision: false,
+      toolUse: false,
+    },
+    {
+      name: 'cohere/command',
+      label: 'Cohere Command (OpenRouter)',
+      provider: 'OpenRouter',
+      maxTokenAllowed: 4096,
+      contextWindow: 4096,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: false,
     },
-    { name: 'cohere/command', label: 'Cohere Command (OpenRouter)', provider: 'OpenRouter', maxTokenAllowed: 4096 },
   ];
 
   async getDynamicModels(
@@ -94,6 +147,10 @@ export default class OpenRouterProvider extends BaseProvider {
           label: `${m.name} - in:$${(m.pricing.prompt * 1_000_000).toFixed(2)} out:$${(m.pricing.completion * 1_000_000).toFixed(2)} - context ${Math.floor(m.context_length / 1000)}k`,
           provider: this.name,
           maxTokenAllowed: 8000,
+          contextWindow: m.context_length,
+          maxOutputTokens: m.top_provider?.max_completion_tokens ?? undefined,
+          vision: m.architecture?.modality ? m.architecture.modality.split('->')[0].includes('image') : undefined,
+          pricing: { input: m.pricing.prompt * 1_000_000, output: m.pricing.completion * 1_000_000 },
         }));
     } catch (error) {
       console.error('Error getting OpenRouter models:', error);
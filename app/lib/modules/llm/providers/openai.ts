@@ -1,6 +1,7 @@
 import { BaseProvider } from '~/lib/modules/llm/base-provider';
-import type { ModelInfo } from '~/lib/modules/llm/types';
-import type { IProviderSetting } from '~/types/model';
+import type { ModelInfo, ProviderOptions } from '~/lib/modules/llm/types';
+import type { GenerationParameterName, GenerationParameters, IProviderSetting } from '~/types/model';
+import { COMMON_PARAMETERS } from '~/lib/modules/llm/generation-parameters';
 import type { LanguageModelV1 } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
 
@@ -12,12 +13,64 @@ export default class OpenAIProvider extends BaseProvider {
     apiTokenKey: 'OPENAI_API_KEY',
   };
 
+  supportedParameters: GenerationParameterName[] = [...COMMON_PARAMETERS, 'reasoningEffort'];
+
   staticModels: ModelInfo[] = [
-    { name: 'gpt-4o', label: 'GPT-4o', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-4o-mini', label: 'GPT-4o Mini', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-4-turbo', label: 'GPT-4 Turbo', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-4', label: 'GPT-4', provider: 'OpenAI', maxTokenAllowed: 8000 },
-    { name: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo', provider: 'OpenAI', maxTokenAllowed: 8000 },
+    {
+      name: 'gpt-4o',
+      label: 'GPT-4o',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      maxOutputTokens: 16_384,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 2.5, output: 10 },
+    },
+    {
+      name: 'gpt-4o-mini',
+      label: 'GPT-4o Mini',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      maxOutputTokens: 16_384,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 0.15, output: 0.6 },
+    },
+    {
+      name: 'gpt-4-turbo',
+      label: 'GPT-4 Turbo',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 128_000,
+      maxOutputTokens: 4096,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 10, output: 30 },
+    },
+    {
+      name: 'gpt-4',
+      label: 'GPT-4',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 8192,
+      maxOutputTokens: 8192,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 30, output: 60 },
+    },
+    {
+      name: 'gpt-3.5-turbo',
+      label: 'GPT-3.5 Turbo',
+      provider: 'OpenAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 16_385,
+      maxOutputTokens: 4096,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.5, output: 1.5 },
+    },
   ];
 
   getModelInstance(options: {
@@ -46,4 +99,12 @@ export default class OpenAIProvider extends BaseProvider {
 
     return openai(model);
   }
+
+  getProviderOptions(parameters: GenerationParameters): ProviderOptions {
+    if (!parameters.reasoningEffort) {
+      return {};
+    }
+
+    return { providerMetadata: { openai: { reasoningEffort: parameters.reasoningEffort } } };
+  }
 }
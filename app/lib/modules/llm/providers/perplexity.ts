@@ -18,18 +18,30 @@ export default class PerplexityProvider extends BaseProvider {
       label: 'Sonar Small Online',
       provider: 'Perplexity',
       maxTokenAllowed: 8192,
+      contextWindow: 127_072,
+      vision: false,
+      toolUse: false,
+      pricing: { input: 0.2, output: 0.2 },
     },
     {
       name: 'llama-3.1-sonar-large-128k-online',
       label: 'Sonar Large Online',
       provider: 'Perplexity',
       maxTokenAllowed: 8192,
+      contextWindow: 127_072,
+      vision: false,
+      toolUse: false,
+      pricing: { input: 1, output: 1 },
     },
     {
       name: 'llama-3.1-sonar-huge-128k-online',
       label: 'Sonar Huge Online',
       provider: 'Perplexity',
       maxTokenAllowed: 8192,
+      contextWindow: 127_072,
+      vision: false,
+      toolUse: false,
+      pricing: { input: 5, output: 5 },
     },
   ];
 
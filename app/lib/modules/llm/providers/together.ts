@@ -18,18 +18,30 @@ export default class TogetherProvider extends BaseProvider {
       label: 'Qwen/Qwen2.5-Coder-32B-Instruct',
       provider: 'Together',
       maxTokenAllowed: 8000,
+      contextWindow: 32_768,
+      vision: false,
+      toolUse: false,
+      pricing: { input: 0.8, output: 0.8 },
     },
     {
       name: 'meta-llama/Llama-3.2-90B-Vision-Instruct-Turbo',
       label: 'meta-llama/Llama-3.2-90B-Vision-Instruct-Turbo',
       provider: 'Together',
       maxTokenAllowed: 8000,
+      contextWindow: 131_072,
+      vision: true,
+      toolUse: true,
+      pricing: { input: 1.2, output: 1.2 },
     },
     {
       name: 'mistralai/Mixtral-8x7B-Instruct-v0.1',
       label: 'Mixtral 8x7B Instruct',
       provider: 'Together',
       maxTokenAllowed: 8192,
+      contextWindow: 32_768,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 0.6, output: 0.6 },
     },
   ];
 
@@ -67,6 +79,8 @@ export default class TogetherProvider extends BaseProvider {
       label: `${m.display_name} - in:$${m.pricing.input.toFixed(2)} out:$${m.pricing.output.toFixed(2)} - context ${Math.floor(m.context_length / 1000)}k`,
       provider: this.name,
       maxTokenAllowed: 8000,
+      contextWindow: m.context_length,
+      pricing: { input: m.pricing.input, output: m.pricing.output },
     }));
   }
 
@@ -13,8 +13,26 @@ export default class XAIProvider extends BaseProvider {
   };
 
   staticModels: ModelInfo[] = [
-    { name: 'grok-beta', label: 'xAI Grok Beta', provider: 'xAI', maxTokenAllowed: 8000 },
-    { name: 'grok-2-1212', label: 'xAI Grok2 1212', provider: 'xAI', maxTokenAllowed: 8000 },
+    {
+      name: 'grok-beta',
+      label: 'xAI Grok Beta',
+      provider: 'xAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 131_072,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 5, output: 15 },
+    },
+    {
+      name: 'grok-2-1212',
+      label: 'xAI Grok2 1212',
+      provider: 'xAI',
+      maxTokenAllowed: 8000,
+      contextWindow: 131_072,
+      vision: false,
+      toolUse: true,
+      pricing: { input: 2, output: 10 },
+    },
   ];
 
   getModelInstance(options: {
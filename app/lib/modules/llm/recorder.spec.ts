@@ -0,0 +1,182 @@
+import type { ActionFunctionArgs } from '@remix-run/cloudflare';
+import { generateText, processDataStream, streamText, type LanguageModelV1 } from 'ai';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { action as chatAction } from '~/routes/api.chat';
+import { action as enhancerAction } from '~/routes/api.enhancer';
+import { action as llmCallAction } from '~/routes/api.llmcall';
+import { useCassette } from './cassette';
+import { createMockModel } from './mock-model';
+import { LLMRecorder } from './recorder';
+
+const model = createMockModel({
+  name: 'echo',
+  chunkDelayMs: 0,
+  turns: [
+    { segments: [{ text: 'Hello from the recording' }] },
+    { segments: [{ error: { message: 'Overloaded', statusCode: 529 } }] },
+  ],
+});
+
+const offline: LanguageModelV1 = {
+  ...model,
+  doGenerate: () => Promise.reject(new Error('should have been replayed')),
+  doStream: () => Promise.reject(new Error('should have been replayed')),
+};
+
+async function readText(stream: ReadableStream<string>) {
+  const reader = stream.getReader();
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      return text;
+    }
+
+    text += value;
+  }
+}
+
+describe('LLMRecorder', () => {
+  it('should replay recorded streams, generations and errors without calling the model', async () => {
+    const recorder = new LLMRecorder(undefined, 'record');
+    const recording = recorder.wrap(model, 'Echo');
+
+    await readText(streamText({ model: recording, prompt: 'hi' }).textStream);
+    await generateText({ model: recording, prompt: 'hi' });
+    await expect(
+      generateText({
+        model: recording,
+        maxRetries: 0,
+        messages: [
+          { role: 'user', content: 'hi' },
+          { role: 'assistant', content: 'Hello from the recording' },
+          { role: 'user', content: 'again' },
+        ],
+      }),
+    ).rejects.toThrow('Overloaded');
+
+    expect(recorder.hasChanges).toBe(true);
+    expect(recorder.cassette.recordings.map((r) => r.response.type)).toEqual(['stream', 'generate', 'error']);
+
+    const replayer = new LLMRecorder(JSON.parse(JSON.stringify(recorder.cassette)), 'replay');
+    const replay = replayer.wrap(offline, 'Echo');
+
+    expect(await readText(streamText({ model: replay, prompt: 'hi' }).textStream)).toBe('Hello from the recording');
+    expect((await generateText({ model: replay, prompt: 'hi' })).text).toBe('Hello from the recording');
+    await expect(
+      generateText({
+        model: replay,
+        maxRetries: 0,
+        messages: [
+          { role: 'user', content: 'hi' },
+          { role: 'assistant', content: 'Hello from the recording' },
+          { role: 'user', content: 'again' },
+        ],
+      }),
+    ).rejects.toMatchObject({ statusCode: 529 });
+    expect(replayer.hasChanges).toBe(false);
+  });
+
+  it('should replay recordings after the system prompt changed', async () => {
+    const recorder = new LLMRecorder(undefined, 'record');
+
+    await generateText({ model: recorder.wrap(model, 'Echo'), system: 'Be brief.', prompt: 'hi' });
+
+    const replay = new LLMRecorder(recorder.cassette, 'replay').wrap(offline, 'Echo');
+
+    expect((await generateText({ model: replay, system: 'Be thorough.', prompt: 'hi' })).text).toBe(
+      'Hello from the recording',
+    );
+    await expect(generateText({ model: replay, system: 'Be brief.', prompt: 'hello' })).rejects.toThrow(
+      'No recording for Echo/echo matching "hello"',
+    );
+  });
+
+  it('should refuse requests it has no recording of when replaying', async () => {
+    const replay = new LLMRecorder(undefined, 'replay').wrap(offline, 'Echo');
+
+    await expect(generateText({ model: replay, prompt: 'something new' })).rejects.toThrow(
+      'No recording for Echo/echo matching "something new"',
+    );
+  });
+});
+
+/*
+ * Regression tests for the routes, replayed from `cassettes/routes.json`. The cassette is a synthetic fixture, its
+ * responses were written for these tests rather than recorded from OpenAI, so they only cover how the routes
+ * handle a response. Replace it with a real recording with `OPENAI_API_KEY=... LLM_CASSETTE_MODE=record pnpm test
+ * recorder` and update the snapshots. The system prompt isn't part of the keys, only changing the messages the
+ * routes send needs a new cassette.
+ */
+describe('recorded routes', () => {
+  let cassette: ReturnType<typeof useCassette>;
+  const apiKeys = process.env.OPENAI_API_KEY ? {} : { OpenAI: 'replayed' };
+  const provider = { name: 'OpenAI' };
+  const model = 'gpt-4o-mini';
+
+  beforeAll(() => {
+    cassette = useCassette('routes');
+  });
+
+  afterAll(() => {
+    cassette.eject();
+  });
+
+  function post(url: string, body: unknown) {
+    return {
+      request: new Request(url, {
+        method: 'POST',
+        headers: { Cookie: `apiKeys=${encodeURIComponent(JSON.stringify(apiKeys))}` },
+        body: JSON.stringify(body),
+      }),
+      context: { cloudflare: { env: {} } },
+      params: {},
+    } as unknown as ActionFunctionArgs;
+  }
+
+  it('should stream the chat response of api.chat', async () => {
+    const response: Response = await chatAction(
+      post('http://localhost/api/chat', {
+        messages: [
+          { role: 'user', content: `[Model: ${model}]\n\n[Provider: OpenAI]\n\nWrite a hello world script in node` },
+        ],
+      }),
+    );
+
+    let text = '';
+
+    await processDataStream({
+      stream: response.body!,
+      onTextPart: (part) => {
+        text += part;
+      },
+    });
+
+    expect(text).toMatchSnapshot();
+  });
+
+  it('should stream the enhanced prompt of api.enhancer', async () => {
+    const response: Response = await enhancerAction(
+      post('http://localhost/api/enhancer', { message: 'make a todo app', model, provider }),
+    );
+
+    // the route streams strings, which node's `Response.text()` refuses to read
+    expect(await readText(response.body as unknown as ReadableStream<string>)).toMatchSnapshot();
+  });
+
+  it('should return the generated text of api.llmcall', async () => {
+    const response: Response = await llmCallAction(
+      post('http://localhost/api/llmcall', {
+        system: 'Answer with a single word.',
+        message: 'What is the capital of France?',
+        model,
+        provider,
+      }),
+    );
+    const result = (await response.json()) as { text: string };
+
+    expect(result.text).toMatchSnapshot();
+  });
+});
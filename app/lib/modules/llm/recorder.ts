@@ -0,0 +1,316 @@
+import {
+  APICallError,
+  experimental_wrapLanguageModel as wrapLanguageModel,
+  simulateReadableStream,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+import { hash } from '~/utils/hash';
+
+const logger = createScopedLogger('LLMRecorder');
+
+/**
+ * `record` always calls the provider and stores what came back, `replay` only answers from the cassette and
+ * fails for requests it has no recording of, `auto` replays what it can and records the rest.
+ */
+export type RecorderMode = 'record' | 'replay' | 'auto';
+
+export interface RecordedError {
+  message: string;
+  statusCode?: number;
+  responseBody?: string;
+  isRetryable?: boolean;
+}
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+
+export type RecordedStreamPart =
+  | Exclude<LanguageModelV1StreamPart, { type: 'error' }>
+  | { type: 'error'; error: RecordedError };
+
+export type RecordedResponse =
+  | { type: 'generate'; result: Pick<GenerateResult, 'text' | 'toolCalls' | 'finishReason' | 'usage'> }
+  | { type: 'stream'; parts: RecordedStreamPart[] }
+  | { type: 'error'; error: RecordedError };
+
+export interface Recording {
+  key: string;
+  provider: string;
+  model: string;
+
+  /**
+   * The start of the last user message, only there to make the cassette readable.
+   */
+  summary: string;
+  response: RecordedResponse;
+}
+
+export interface Cassette {
+  version: 1;
+
+  /**
+   * Where the recordings came from when it wasn't the provider, e.g. for fixtures written by hand.
+   */
+  note?: string;
+  recordings: Recording[];
+}
+
+export function createCassette(): Cassette {
+  return { version: 1, recordings: [] };
+}
+
+/**
+ * Records the requests of wrapped models to a cassette and plays them back later, so `api.chat`, `api.enhancer`
+ * and `api.llmcall` can be tested without a network. Requests are matched on the provider, the model, the messages
+ * without the system prompt and the generation settings, identical requests are played back in the order they
+ * were recorded.
+ */
+export class LLMRecorder {
+  private _cassette: Cassette;
+  private _mode: RecorderMode;
+  private _playCounts: Map<string, number> = new Map();
+  private _hasChanges = false;
+
+  constructor(cassette: Cassette = createCassette(), mode: RecorderMode = 'replay') {
+    this._cassette = cassette;
+    this._mode = mode;
+
+    if (mode === 'record') {
+      // recording from scratch, leftovers of an older version of the prompts would never be played again
+      this._cassette = createCassette();
+    }
+  }
+
+  get cassette() {
+    return this._cassette;
+  }
+
+  get mode() {
+    return this._mode;
+  }
+
+  /**
+   * Whether anything was recorded that isn't on disk yet.
+   */
+  get hasChanges() {
+    return this._hasChanges;
+  }
+
+  wrap(model: LanguageModelV1, provider: string): LanguageModelV1 {
+    return wrapLanguageModel({
+      model,
+      middleware: {
+        wrapGenerate: async ({ doGenerate, params }) => {
+          const key = getRequestKey(provider, model.modelId, params);
+          const recording = this._findRecording(key);
+
+          if (recording) {
+            return replayGenerate(recording.response, params);
+          }
+
+          this._assertCanRecord(provider, model.modelId, params);
+
+          try {
+            const result = await doGenerate();
+            const { text, toolCalls, finishReason, usage } = result;
+
+            this._addRecording(key, provider, model.modelId, params, {
+              type: 'generate',
+              result: { text, toolCalls, finishReason, usage },
+            });
+
+            return result;
+          } catch (error) {
+            this._addRecording(key, provider, model.modelId, params, { type: 'error', error: toRecordedError(error) });
+            throw error;
+          }
+        },
+
+        wrapStream: async ({ doStream, params }) => {
+          const key = getRequestKey(provider, model.modelId, params);
+          const recording = this._findRecording(key);
+
+          if (recording) {
+            return replayStream(recording.response, params);
+          }
+
+          this._assertCanRecord(provider, model.modelId, params);
+
+          let result: Awaited<ReturnType<typeof doStream>>;
+
+          try {
+            result = await doStream();
+          } catch (error) {
+            this._addRecording(key, provider, model.modelId, params, { type: 'error', error: toRecordedError(error) });
+            throw error;
+          }
+
+          const parts: RecordedStreamPart[] = [];
+
+          const stream = result.stream.pipeThrough(
+            new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+              transform: (part, controller) => {
+                parts.push(part.type === 'error' ? { type: 'error', error: toRecordedError(part.error) } : part);
+                controller.enqueue(part);
+              },
+              flush: () => {
+                this._addRecording(key, provider, model.modelId, params, { type: 'stream', parts });
+              },
+            }),
+          );
+
+          return { ...result, stream };
+        },
+      },
+    });
+  }
+
+  private _findRecording(key: string) {
+    if (this._mode === 'record') {
+      return undefined;
+    }
+
+    const recordings = this._cassette.recordings.filter((recording) => recording.key === key);
+
+    if (recordings.length === 0) {
+      return undefined;
+    }
+
+    const played = this._playCounts.get(key) ?? 0;
+    this._playCounts.set(key, played + 1);
+
+    // once every recording was played the last one keeps answering
+    return recordings[Math.min(played, recordings.length - 1)];
+  }
+
+  private _assertCanRecord(provider: string, model: string, params: LanguageModelV1CallOptions) {
+    if (this._mode === 'replay') {
+      throw new Error(
+        `No recording for ${provider}/${model} matching "${getSummary(params)}". ` +
+          'Record it again with LLM_CASSETTE_MODE=record.',
+      );
+    }
+  }
+
+  private _addRecording(
+    key: string,
+    provider: string,
+    model: string,
+    params: LanguageModelV1CallOptions,
+    response: RecordedResponse,
+  ) {
+    logger.debug(`Recorded ${response.type} of ${provider}/${model}`);
+
+    this._cassette.recordings.push({ key, provider, model, summary: getSummary(params), response });
+    this._hasChanges = true;
+  }
+}
+
+/**
+ * A stable hash of the model, the conversation and the generation settings. The system prompt is left out, it
+ * changes with every edit of the prompts and would turn each of them into a cache miss for every recording. The
+ * abort signal and headers don't influence the answer either.
+ */
+export function getRequestKey(provider: string, model: string, params: LanguageModelV1CallOptions) {
+  const { mode, prompt, maxTokens, temperature, topP, topK, stopSequences, seed, responseFormat } = params;
+
+  return hash(
+    JSON.stringify({
+      provider,
+      model,
+      mode,
+      messages: prompt.filter((message) => message.role !== 'system'),
+      maxTokens,
+      temperature,
+      topP,
+      topK,
+      stopSequences,
+      seed,
+      responseFormat,
+    }),
+  );
+}
+
+function replayGenerate(response: RecordedResponse, params: LanguageModelV1CallOptions): GenerateResult {
+  if (response.type === 'error') {
+    throw fromRecordedError(response.error, params);
+  }
+
+  if (response.type !== 'generate') {
+    throw new Error(`Expected a recorded generate call but found a ${response.type} call`);
+  }
+
+  return { ...response.result, rawCall: { rawPrompt: params.prompt, rawSettings: {} } };
+}
+
+function replayStream(response: RecordedResponse, params: LanguageModelV1CallOptions) {
+  if (response.type === 'error') {
+    throw fromRecordedError(response.error, params);
+  }
+
+  if (response.type !== 'stream') {
+    throw new Error(`Expected a recorded stream but found a ${response.type} call`);
+  }
+
+  const parts = response.parts.map((part): LanguageModelV1StreamPart => {
+    switch (part.type) {
+      case 'error': {
+        return { type: 'error', error: fromRecordedError(part.error, params) };
+      }
+      case 'response-metadata': {
+        // dates come back from JSON as strings
+        return { ...part, timestamp: part.timestamp ? new Date(part.timestamp) : undefined };
+      }
+      default: {
+        return part;
+      }
+    }
+  });
+
+  return {
+    stream: simulateReadableStream({ chunks: parts, chunkDelayInMs: null }),
+    rawCall: { rawPrompt: params.prompt, rawSettings: {} },
+  };
+}
+
+function toRecordedError(error: unknown): RecordedError {
+  if (APICallError.isInstance(error)) {
+    return {
+      message: error.message,
+      statusCode: error.statusCode,
+      responseBody: error.responseBody,
+      isRetryable: error.isRetryable,
+    };
+  }
+
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
+function fromRecordedError(error: RecordedError, params: LanguageModelV1CallOptions) {
+  if (error.statusCode === undefined) {
+    return new Error(error.message);
+  }
+
+  return new APICallError({
+    message: error.message,
+    url: 'recording://llm',
+    requestBodyValues: { prompt: params.prompt },
+    statusCode: error.statusCode,
+    responseBody: error.responseBody,
+    isRetryable: error.isRetryable,
+  });
+}
+
+function getSummary(params: LanguageModelV1CallOptions) {
+  const lastUserMessage = params.prompt.findLast((message) => message.role === 'user');
+
+  if (!lastUserMessage) {
+    return '';
+  }
+
+  const text = lastUserMessage.content.map((part) => (part.type === 'text' ? part.text : `[${part.type}]`)).join('');
+
+  return text.replace(/\s+/g, ' ').trim().slice(0, 80);
+}
@@ -15,7 +15,7 @@ import TogetherProvider from './providers/together';
 import XAIProvider from './providers/xai';
 import HyperbolicProvider from './providers/hyperbolic';
 import AmazonBedrockProvider from './providers/amazon-bedrock';
-import ValXProvider from './providers/val-x';
+import MockProvider from './providers/mock';
 
 export {
   AnthropicProvider,
@@ -35,5 +35,5 @@ export {
   TogetherProvider,
   LMStudioProvider,
   AmazonBedrockProvider,
-  ValXProvider,
+  MockProvider,
 };
@@ -1,11 +1,33 @@
-import type { LanguageModelV1 } from 'ai';
+import type { LanguageModelV1, ProviderMetadata } from 'ai';
 import type { IProviderSetting } from '~/types/model';
 
+/**
+ * Prices in US dollars per million tokens.
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
 export interface ModelInfo {
   name: string;
   label: string;
   provider: string;
+
+  /**
+   * Upper bound for the tokens of a single response that bolt asks for.
+   */
   maxTokenAllowed: number;
+
+  /*
+   * The capabilities below are optional, `undefined` means the provider doesn't tell and the model is
+   * treated as capable.
+   */
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  vision?: boolean;
+  toolUse?: boolean;
+  pricing?: ModelPricing;
 }
 
 export interface ProviderInfo {
@@ -31,3 +53,29 @@ export interface ProviderConfig {
   baseUrl?: string;
   apiTokenKey?: string;
 }
+
+/**
+ * Provider-specific request options derived from the generation parameters.
+ */
+export interface ProviderOptions {
+  headers?: Record<string, string>;
+  providerMetadata?: ProviderMetadata;
+
+  /**
+   * Sent along with the system prompt, e.g. to mark it for caching.
+   */
+  systemMetadata?: ProviderMetadata;
+}
+
+/**
+ * The outcome of a provider's health check, `check` tells whether it listed the models or ran a completion.
+ */
+export interface ProviderHealth {
+  provider: string;
+  status: 'ok' | 'error' | 'unconfigured';
+  check: 'models' | 'completion';
+  checkedAt: number;
+  latency?: number;
+  error?: string;
+  statusCode?: number;
+}
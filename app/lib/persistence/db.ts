@@ -1,6 +1,7 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
+import { inheritUsage, type MessageUsage } from './usage';
 
 const logger = createScopedLogger('ChatHistory');
 
@@ -53,6 +54,7 @@ export async function setMessages(
   urlId?: string,
   description?: string,
   timestamp?: string,
+  usage?: MessageUsage[],
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('chats', 'readwrite');
@@ -69,6 +71,7 @@ export async function setMessages(
       urlId,
       description,
       timestamp: timestamp ?? new Date().toISOString(),
+      usage,
     });
 
     request.onsuccess = () => resolve();
@@ -187,7 +190,12 @@ export async function forkChat(db: IDBDatabase, chatId: string, messageId: strin
   // Get messages up to and including the selected message
   const messages = chat.messages.slice(0, messageIndex + 1);
 
-  return createChatFromMessages(db, chat.description ? `${chat.description} (fork)` : 'Forked chat', messages);
+  return createChatFromMessages(
+    db,
+    chat.description ? `${chat.description} (fork)` : 'Forked chat',
+    messages,
+    inheritUsage(chat.usage ?? [], messages),
+  );
 }
 
 export async function duplicateChat(db: IDBDatabase, id: string): Promise<string> {
@@ -197,13 +205,19 @@ export async function duplicateChat(db: IDBDatabase, id: string): Promise<string
     throw new Error('Chat not found');
   }
 
-  return createChatFromMessages(db, `${chat.description || 'Chat'} (copy)`, chat.messages);
+  return createChatFromMessages(
+    db,
+    `${chat.description || 'Chat'} (copy)`,
+    chat.messages,
+    inheritUsage(chat.usage ?? [], chat.messages),
+  );
 }
 
 export async function createChatFromMessages(
   db: IDBDatabase,
   description: string,
   messages: Message[],
+  usage?: MessageUsage[],
 ): Promise<string> {
   const newId = await getNextId(db);
   const newUrlId = await getUrlId(db, newId); // Get a new urlId for the duplicated chat
@@ -214,6 +228,8 @@ export async function createChatFromMessages(
     messages,
     newUrlId, // Use the new urlId
     description,
+    undefined,
+    usage,
   );
 
   return newUrlId; // Return the urlId instead of id for navigation
@@ -230,5 +246,5 @@ export async function updateChatDescription(db: IDBDatabase, id: string, descrip
     throw new Error('Description cannot be empty');
   }
 
-  await setMessages(db, id, chat.messages, chat.urlId, description, chat.timestamp);
+  await setMessages(db, id, chat.messages, chat.urlId, description, chat.timestamp, chat.usage);
 }
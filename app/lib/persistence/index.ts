@@ -1,2 +1,4 @@
 export * from './db';
 export * from './useChatHistory';
+export * from './usage';
+export * from './model-cache';
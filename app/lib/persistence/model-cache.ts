@@ -0,0 +1,113 @@
+import Cookies from 'js-cookie';
+import {
+  DEFAULT_MODEL_LIST_TTL_SECONDS,
+  parseCatalogEntry,
+  type CatalogEntry,
+  type CatalogStorage,
+} from '~/lib/modules/llm/model-catalog';
+import type { ModelInfo } from '~/lib/modules/llm/types';
+import { hash } from '~/utils/hash';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ModelCache');
+
+// a database of its own, adding a store to the chat history would need a migration
+export async function openModelCache(): Promise<IDBDatabase | undefined> {
+  if (typeof indexedDB === 'undefined') {
+    return undefined;
+  }
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open('boltModels', 1);
+
+    request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+
+      if (!db.objectStoreNames.contains('catalog')) {
+        db.createObjectStore('catalog', { keyPath: 'key' });
+      }
+    };
+
+    request.onsuccess = (event: Event) => {
+      resolve((event.target as IDBOpenDBRequest).result);
+    };
+
+    request.onerror = (event: Event) => {
+      resolve(undefined);
+      logger.error((event.target as IDBOpenDBRequest).error);
+    };
+  });
+}
+
+/**
+ * Keeps the model lists in IndexedDB behind the interface of the server's KV binding.
+ */
+export class IndexedDBCatalogStorage implements CatalogStorage {
+  private readonly _db: IDBDatabase;
+
+  constructor(db: IDBDatabase) {
+    this._db = db;
+  }
+
+  get(key: string): Promise<string | null> {
+    return this._request('readonly', (store) => store.get(key)).then((entry) => {
+      if (!entry || entry.expiresAt <= Date.now()) {
+        return null;
+      }
+
+      return entry.value as string;
+    });
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }) {
+    const expiresAt = options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : Infinity;
+    await this._request('readwrite', (store) => store.put({ key, value, expiresAt }));
+  }
+
+  async delete(key: string) {
+    await this._request('readwrite', (store) => store.delete(key));
+  }
+
+  private _request(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const request = run(this._db.transaction('catalog', mode).objectStore('catalog'));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Loads the model list from `api.models`, which lists the dynamic models with the keys in the cookies. The list
+ * is kept in IndexedDB per set of keys and settings until it expires or `refresh` is set.
+ */
+export async function loadModelList(options: { refresh?: boolean } = {}): Promise<ModelInfo[]> {
+  const db = await openModelCache();
+  const storage = db ? new IndexedDBCatalogStorage(db) : undefined;
+  const key = `models:${hash([Cookies.get('apiKeys'), Cookies.get('providers'), Cookies.get('customProviders')].join('\n'))}`;
+
+  if (storage && !options.refresh) {
+    const entry = parseCatalogEntry(await storage.get(key).catch(() => null));
+
+    if (entry) {
+      return entry.models;
+    }
+  }
+
+  const response = await fetch(options.refresh ? '/api/models?refresh' : '/api/models');
+
+  if (!response.ok) {
+    throw new Error(`Failed to load the models: ${response.status} ${response.statusText}`);
+  }
+
+  const models = (await response.json()) as ModelInfo[];
+  const fetchedAt = Date.now();
+  const entry: CatalogEntry = { models, fetchedAt, expiresAt: fetchedAt + DEFAULT_MODEL_LIST_TTL_SECONDS * 1000 };
+
+  await storage
+    ?.put(key, JSON.stringify(entry), { expirationTtl: DEFAULT_MODEL_LIST_TTL_SECONDS })
+    .catch((error) => logger.error('Failed to cache the models', error));
+
+  return models;
+}
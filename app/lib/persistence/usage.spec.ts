@@ -0,0 +1,120 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import {
+  createPricingLookup,
+  createUsageLedger,
+  createUsageReport,
+  formatCost,
+  getChatCost,
+  inheritUsage,
+  type MessageUsage,
+} from './usage';
+
+const getPricing = createPricingLookup([
+  {
+    name: 'claude-3-5-sonnet-latest',
+    label: 'Claude 3.5 Sonnet',
+    provider: 'Anthropic',
+    maxTokenAllowed: 8000,
+    pricing: { input: 3, output: 15 },
+  },
+]);
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  type: 'usage',
+  value: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+});
+
+const messages: Message[] = [
+  { id: '1', role: 'user', content: '[Model: claude-3-5-sonnet-latest]\n\n[Provider: Anthropic]\n\nbuild a todo app' },
+  { id: '2', role: 'assistant', content: 'sure', annotations: [usage(100_000, 10_000)] },
+  { id: '3', role: 'user', content: '[Model: llama3]\n\n[Provider: Ollama]\n\nadd dark mode' },
+  {
+    id: '4',
+    role: 'assistant',
+    content: 'done',
+    annotations: [
+      usage(2_000, 500),
+      { type: 'model', value: { provider: 'Ollama', model: 'llama3', isFallback: false } },
+    ],
+  },
+  { id: '5', role: 'assistant', content: 'still streaming' },
+];
+
+describe('createUsageLedger', () => {
+  it('should price every assistant message with usage', () => {
+    const ledger = createUsageLedger(messages, [], getPricing);
+
+    expect(ledger).toHaveLength(2);
+    expect(ledger[0]).toMatchObject({
+      messageId: '2',
+      provider: 'Anthropic',
+      model: 'claude-3-5-sonnet-latest',
+      totalTokens: 110_000,
+      cost: 0.45,
+    });
+    expect(ledger[1]).toMatchObject({ messageId: '4', provider: 'Ollama', model: 'llama3', cost: undefined });
+  });
+
+  it('should keep the entries that were already recorded', () => {
+    const recorded: MessageUsage = {
+      messageId: '2',
+      provider: 'Anthropic',
+      model: 'claude-3-5-sonnet-latest',
+      promptTokens: 100_000,
+      completionTokens: 10_000,
+      totalTokens: 110_000,
+      cost: 1,
+      timestamp: '2024-01-01T00:00:00.000Z',
+    };
+
+    const ledger = createUsageLedger(messages, [recorded], getPricing);
+
+    expect(ledger[0]).toBe(recorded);
+    expect(getChatCost(ledger)).toBe(1);
+  });
+});
+
+describe('createUsageReport', () => {
+  it('should aggregate by provider and model without inherited entries', () => {
+    const ledger = createUsageLedger(messages, [], getPricing);
+    const fork = inheritUsage(ledger, messages.slice(0, 2));
+
+    const report = createUsageReport([ledger, ledger, fork]);
+
+    expect(fork).toHaveLength(1);
+    expect(getChatCost(fork)).toBe(0.45);
+    expect(report).toEqual([
+      {
+        provider: 'Anthropic',
+        model: 'claude-3-5-sonnet-latest',
+        chats: 2,
+        messages: 2,
+        promptTokens: 200_000,
+        completionTokens: 20_000,
+        totalTokens: 220_000,
+        cost: 0.9,
+        unpricedMessages: 0,
+      },
+      {
+        provider: 'Ollama',
+        model: 'llama3',
+        chats: 2,
+        messages: 2,
+        promptTokens: 4_000,
+        completionTokens: 1_000,
+        totalTokens: 5_000,
+        cost: 0,
+        unpricedMessages: 2,
+      },
+    ]);
+  });
+});
+
+describe('formatCost', () => {
+  it('should round to cents', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.004)).toBe('<$0.01');
+    expect(formatCost(1.239)).toBe('$1.24');
+  });
+});
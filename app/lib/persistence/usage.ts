@@ -0,0 +1,187 @@
+import type { Message } from 'ai';
+import type { ModelInfo, ModelPricing } from '~/lib/modules/llm/types';
+import type { RespondingModel } from '~/types/model';
+import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Ledger entry for one assistant message, priced with the rates of the model at the time it was stored.
+ */
+export interface MessageUsage extends TokenUsage {
+  messageId: string;
+  provider: string;
+  model: string;
+
+  /**
+   * Cost in USD, missing when the rates of the model aren't known, e.g. for local models.
+   */
+  cost?: number;
+  timestamp: string;
+
+  /**
+   * Set for messages that were copied from another chat by forking, duplicating or importing, they count
+   * towards the cost of the chat but not towards the usage report.
+   */
+  inherited?: boolean;
+}
+
+export interface UsageReportRow extends TokenUsage {
+  provider: string;
+  model: string;
+  chats: number;
+  messages: number;
+  cost: number;
+
+  /**
+   * Messages of models without known rates, their tokens are counted but not priced.
+   */
+  unpricedMessages: number;
+}
+
+export type PricingLookup = (provider: string, model: string) => ModelPricing | undefined;
+
+export function createPricingLookup(models: ModelInfo[]): PricingLookup {
+  return (provider, model) => models.find((info) => info.provider === provider && info.name === model)?.pricing;
+}
+
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing) {
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Adds an entry for every assistant message with a usage annotation that isn't in the ledger yet. Existing
+ * entries are kept as they are, so changing rates don't reprice past messages.
+ */
+export function createUsageLedger(messages: Message[], ledger: MessageUsage[], getPricing: PricingLookup) {
+  const recorded = new Set(ledger.map((entry) => entry.messageId));
+  const entries = [...ledger];
+
+  for (const [index, message] of messages.entries()) {
+    if (message.role !== 'assistant' || recorded.has(message.id)) {
+      continue;
+    }
+
+    const usage = getAnnotationValue<TokenUsage>(message, 'usage');
+    const respondingModel = getAnnotationValue<RespondingModel>(message, 'model') ?? getRequestedModel(messages, index);
+
+    if (!usage || !respondingModel) {
+      continue;
+    }
+
+    const pricing = getPricing(respondingModel.provider, respondingModel.model);
+
+    entries.push({
+      messageId: message.id,
+      provider: respondingModel.provider,
+      model: respondingModel.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      cost: pricing ? calculateCost(usage, pricing) : undefined,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Carries the entries of the copied messages over to a new chat.
+ */
+export function inheritUsage(ledger: MessageUsage[], messages: Message[]) {
+  const messageIds = new Set(messages.map((message) => message.id));
+
+  return ledger
+    .filter((entry) => messageIds.has(entry.messageId))
+    .map((entry): MessageUsage => ({ ...entry, inherited: true }));
+}
+
+export function getChatCost(ledger: MessageUsage[] = []) {
+  return ledger.reduce((cost, entry) => cost + (entry.cost ?? 0), 0);
+}
+
+/**
+ * Aggregates the ledgers of all chats by provider and model, most expensive first.
+ */
+export function createUsageReport(ledgers: MessageUsage[][]) {
+  const rows = new Map<string, UsageReportRow & { chatIndices: Set<number> }>();
+
+  for (const [chatIndex, ledger] of ledgers.entries()) {
+    for (const entry of ledger) {
+      if (entry.inherited) {
+        continue;
+      }
+
+      const key = `${entry.provider}/${entry.model}`;
+      let row = rows.get(key);
+
+      if (!row) {
+        row = {
+          provider: entry.provider,
+          model: entry.model,
+          chats: 0,
+          messages: 0,
+          promptTokens: 0,
+          completionTokens: 0,
+          totalTokens: 0,
+          cost: 0,
+          unpricedMessages: 0,
+          chatIndices: new Set(),
+        };
+        rows.set(key, row);
+      }
+
+      row.chatIndices.add(chatIndex);
+      row.messages++;
+      row.promptTokens += entry.promptTokens;
+      row.completionTokens += entry.completionTokens;
+      row.totalTokens += entry.totalTokens;
+
+      if (entry.cost === undefined) {
+        row.unpricedMessages++;
+      } else {
+        row.cost += entry.cost;
+      }
+    }
+  }
+
+  return [...rows.values()]
+    .map(({ chatIndices, ...row }): UsageReportRow => ({ ...row, chats: chatIndices.size }))
+    .sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+}
+
+export function formatCost(cost: number) {
+  if (cost > 0 && cost < 0.01) {
+    return '<$0.01';
+  }
+
+  return `$${cost.toFixed(2)}`;
+}
+
+function getAnnotationValue<T>(message: Message, type: string) {
+  const annotation = message.annotations?.find(
+    (annotation) => annotation && typeof annotation === 'object' && (annotation as { type?: string }).type === type,
+  );
+
+  return (annotation as { value: T } | undefined)?.value;
+}
+
+/**
+ * Messages stored before the model annotation existed only have the model in the user message that asked.
+ */
+function getRequestedModel(messages: Message[], index: number) {
+  const request = messages
+    .slice(0, index)
+    .reverse()
+    .find((message) => message.role === 'user');
+  const content = typeof request?.content === 'string' ? request.content : '';
+  const model = content.match(MODEL_REGEX)?.[1];
+  const provider = content.match(PROVIDER_REGEX)?.[1];
+
+  return model && provider ? { provider, model } : undefined;
+}
@@ -5,6 +5,7 @@ import type { Message } from 'ai';
 import { toast } from 'react-toastify';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { logStore } from '~/lib/stores/logs'; // Import logStore
+import { MODEL_LIST } from '~/utils/constants';
 import {
   getMessages,
   getNextId,
@@ -14,6 +15,7 @@ import {
   duplicateChat,
   createChatFromMessages,
 } from './db';
+import { createPricingLookup, createUsageLedger, inheritUsage, type MessageUsage } from './usage';
 
 export interface ChatHistoryItem {
   id: string;
@@ -21,6 +23,7 @@ export interface ChatHistoryItem {
   description?: string;
   messages: Message[];
   timestamp: string;
+  usage?: MessageUsage[];
 }
 
 const persistenceEnabled = !import.meta.env.VITE_DISABLE_PERSISTENCE;
@@ -29,6 +32,7 @@ export const db = persistenceEnabled ? await openDatabase() : undefined;
 
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
+export const chatUsage = atom<MessageUsage[]>([]);
 
 export function useChatHistory() {
   const navigate = useNavigate();
@@ -65,6 +69,11 @@ export function useChatHistory() {
             setUrlId(storedMessages.urlId);
             description.set(storedMessages.description);
             chatId.set(storedMessages.id);
+
+            // chats stored before the ledger existed get it from the usage annotations of their messages
+            chatUsage.set(
+              storedMessages.usage ?? createUsageLedger(storedMessages.messages, [], createPricingLookup(MODEL_LIST)),
+            );
           } else {
             navigate('/', { replace: true });
           }
@@ -109,7 +118,13 @@ export function useChatHistory() {
         }
       }
 
-      await setMessages(db, chatId.get() as string, messages, urlId, description.get());
+      const usage = createUsageLedger(messages, chatUsage.get(), createPricingLookup(MODEL_LIST));
+
+      if (usage.length !== chatUsage.get().length) {
+        chatUsage.set(usage);
+      }
+
+      await setMessages(db, chatId.get() as string, messages, urlId, description.get(), undefined, usage);
     },
     duplicateCurrentChat: async (listItemId: string) => {
       if (!db || (!mixedId && !listItemId)) {
@@ -131,7 +146,8 @@ export function useChatHistory() {
       }
 
       try {
-        const newId = await createChatFromMessages(db, description, messages);
+        const usage = createUsageLedger(messages, [], createPricingLookup(MODEL_LIST));
+        const newId = await createChatFromMessages(db, description, messages, inheritUsage(usage, messages));
         window.location.href = `/chat/${newId}`;
         toast.success('Chat imported successfully');
       } catch (error) {
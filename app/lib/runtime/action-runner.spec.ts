@@ -0,0 +1,414 @@
+import type { WebContainer } from '@webcontainer/api';
+import * as nodePath from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import { ActionRunner } from './action-runner';
+import { DEFAULT_COMMAND_POLICY, type CommandPolicy } from './command-policy';
+import type { ActionCallbackData } from './message-parser';
+import type { FilesStore } from '~/lib/stores/files';
+import type { ActionAlert, BoltAction, CommandExecutionPolicy } from '~/types/actions';
+import type { BoltShell, ExecuteCommandOptions, ExecutionResult } from '~/utils/shell';
+
+describe('ActionRunner', () => {
+  it('should run actions without dependency attributes in order', async () => {
+    const { runner, writes, run } = createRunner();
+
+    await Promise.all([run('0', file('a.js')), run('1', file('b.js')), run('2', file('c.js'))]);
+
+    expect(writes).toEqual(['start a.js', 'end a.js', 'start b.js', 'end b.js', 'start c.js', 'end c.js']);
+    expect(statuses(runner)).toEqual(['complete', 'complete', 'complete']);
+  });
+
+  it('should run independent branches concurrently', async () => {
+    const { writes, run } = createRunner();
+
+    await Promise.all([
+      run('0', file('a.js', { id: 'a' })),
+      run('1', file('b.js', { id: 'b' })),
+      run('2', file('c.js', { dependsOn: ['a', 'b'] })),
+    ]);
+
+    expect(writes).toEqual(['start a.js', 'start b.js', 'end a.js', 'end b.js', 'start c.js', 'end c.js']);
+  });
+
+  it('should wait for earlier sequential actions before starting the graph', async () => {
+    const { writes, run } = createRunner();
+
+    await Promise.all([run('0', file('a.js')), run('1', file('b.js', { id: 'b' }))]);
+
+    expect(writes).toEqual(['start a.js', 'end a.js', 'start b.js', 'end b.js']);
+  });
+
+  it('should cancel dependents when a prerequisite fails', async () => {
+    const { runner, writes, run } = createRunner();
+
+    await Promise.all([
+      run('0', { type: 'patch', filePath: 'missing.js', content: '@@ -1 +1 @@\n-a\n+b', id: 'patch' }),
+      run('1', file('a.js', { id: 'a', dependsOn: ['patch'] })),
+      run('2', file('b.js', { dependsOn: ['a'] })),
+      run('3', file('c.js', { id: 'c' })),
+    ]);
+
+    expect(writes).toEqual(['start c.js', 'end c.js']);
+    expect(statuses(runner)).toEqual(['failed', 'aborted', 'aborted', 'complete']);
+  });
+
+  it('should retry failed shell commands and stop once one succeeds', async () => {
+    const { runner, shell, run } = createRunner({ results: [{ exitCode: 1 }, { exitCode: 0 }] });
+
+    await run('0', { type: 'shell', content: 'npm install', retries: 2 });
+
+    expect(shell.calls).toEqual([
+      { command: 'npm install', timeout: 300_000 },
+      { command: 'npm install', timeout: 300_000 },
+    ]);
+    expect(statuses(runner)).toEqual(['complete']);
+  });
+
+  it('should report the output of every attempt', async () => {
+    const alerts: ActionAlert[] = [];
+    const { runner, shell, run } = createRunner({
+      results: [
+        { exitCode: 1, output: 'first' },
+        { exitCode: 130, output: 'second', timedOut: true },
+      ],
+      onAlert: (alert) => alerts.push(alert),
+      defaults: { timeout: 5, retries: 1 },
+    });
+
+    await run('0', { type: 'shell', content: 'npm install' });
+
+    expect(shell.calls).toEqual([
+      { command: 'npm install', timeout: 5000 },
+      { command: 'npm install', timeout: 5000 },
+    ]);
+    expect(statuses(runner)).toEqual(['failed']);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].content).toBe(
+      'Attempt 1 of 2 (exit code 1):\nfirst\n\nAttempt 2 of 2 (timed out after 5s):\nsecond',
+    );
+  });
+
+  it('should wait for approval before running commands that need it', async () => {
+    const { runner, shell, run } = createRunner({ policy: { mode: 'always-ask', allowlist: [], denylist: [] } });
+
+    const execution = run('0', { type: 'shell', content: 'npm install' });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(runner.actions.get()['0'].approval).toBe('pending');
+    expect(shell.calls).toEqual([]);
+
+    runner.resolveApproval('0', true);
+    await execution;
+
+    expect(shell.calls).toHaveLength(1);
+    expect(runner.actions.get()['0']).toMatchObject({ approval: 'approved', status: 'complete' });
+  });
+
+  it('should remove its abort listener once the approval settles', async () => {
+    const addEventListener = vi.spyOn(AbortSignal.prototype, 'addEventListener');
+    const removeEventListener = vi.spyOn(AbortSignal.prototype, 'removeEventListener');
+    const { runner, run } = createRunner({ policy: { mode: 'always-ask', allowlist: [], denylist: [] } });
+
+    const execution = run('0', { type: 'shell', content: 'npm install' });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    runner.resolveApproval('0', true);
+    await execution;
+
+    const added = addEventListener.mock.calls.filter(([type]) => type === 'abort').map(([, listener]) => listener);
+    const removed = removeEventListener.mock.calls.map(([, listener]) => listener);
+
+    addEventListener.mockRestore();
+    removeEventListener.mockRestore();
+
+    expect(added).toHaveLength(1);
+    expect(removed).toEqual(added);
+  });
+
+  it('should not run rejected or denied commands', async () => {
+    const alerts: ActionAlert[] = [];
+    const { runner, shell, run } = createRunner({
+      policy: { mode: 'always-ask', allowlist: [], denylist: ['^rm '] },
+      onAlert: (alert) => alerts.push(alert),
+    });
+
+    const execution = run('0', { type: 'shell', content: 'node setup.js' });
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    runner.resolveApproval('0', false);
+    await execution;
+
+    await run('1', { type: 'shell', content: 'rm -rf src' });
+
+    expect(shell.calls).toEqual([]);
+    expect(statuses(runner)).toEqual(['aborted', 'failed']);
+    expect(alerts.map((alert) => alert.description)).toEqual(['Command Rejected By Policy']);
+  });
+
+  it('should hold later actions until the dev server prints its ready pattern', async () => {
+    const { runner, writes, run } = createRunner({
+      execute: (_command, { onOutput }) => {
+        setTimeout(() => onOutput?.('\x1b[32mVITE\x1b[39m ready in \x1b[1m300\x1b[22m ms'), 20);
+
+        // dev servers never exit
+        return new Promise(() => undefined);
+      },
+    });
+
+    const start = run('0', { type: 'start', content: 'npm run dev', readyPattern: 'ready in \\d+ ms' });
+    const next = run('1', file('a.js'));
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(writes).toEqual([]);
+
+    await Promise.all([start, next]);
+
+    expect(writes).toEqual(['start a.js', 'end a.js']);
+    expect(runner.actions.get()['0']).toMatchObject({ status: 'running', ready: true });
+  });
+
+  it('should consider the dev server ready once its port opens', async () => {
+    const ports: Array<number | undefined> = [];
+    const { runner, run } = createRunner({
+      execute: () => new Promise(() => undefined),
+      waitForPort: (port) => {
+        ports.push(port);
+        return Promise.resolve();
+      },
+    });
+
+    await run('0', { type: 'start', content: 'npm run dev', port: 5173 });
+
+    expect(ports).toEqual([5173]);
+    expect(runner.actions.get()['0']).toMatchObject({ status: 'running', ready: true });
+  });
+
+  it('should remove its abort listeners once the dev server is ready', async () => {
+    const addEventListener = vi.spyOn(AbortSignal.prototype, 'addEventListener');
+    const removeEventListener = vi.spyOn(AbortSignal.prototype, 'removeEventListener');
+    const { run } = createRunner({ execute: () => new Promise(() => undefined), waitForPort: () => Promise.resolve() });
+
+    await run('0', { type: 'start', content: 'npm run dev', port: 5173 });
+
+    const added = addEventListener.mock.calls.filter(([type]) => type === 'abort').map(([, listener]) => listener);
+    const removed = removeEventListener.mock.calls.map(([, listener]) => listener);
+
+    addEventListener.mockRestore();
+    removeEventListener.mockRestore();
+
+    expect(added).toHaveLength(2);
+    expect(removed).toEqual(added);
+  });
+
+  it('should decode base64 file content', async () => {
+    const alerts: ActionAlert[] = [];
+    const { runner, contents, run } = createRunner({ onAlert: (alert) => alerts.push(alert) });
+
+    await run('0', { type: 'file', filePath: 'icon.png', content: 'iVBO\nRw==', encoding: 'base64' });
+    await run('1', { type: 'file', filePath: 'broken.png', content: 'not base64!', encoding: 'base64' });
+
+    expect(contents.get('icon.png')).toEqual(new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+    expect(contents.has('broken.png')).toBe(false);
+    expect(statuses(runner)).toEqual(['complete', 'failed']);
+    expect(alerts.map((alert) => alert.title)).toEqual(['File Operation Failed']);
+  });
+
+  it('should patch the file on disk rather than the content in the store', async () => {
+    const { contents, run } = createRunner({ storedFiles: { '/home/project/a.js': 'stale\n' } });
+
+    await run('0', { type: 'file', filePath: 'a.js', content: 'written\n' });
+    await run('1', { type: 'patch', filePath: 'a.js', content: '@@ -1 +1 @@\n-written\n+patched' });
+
+    expect(contents.get('a.js')).toBe('patched\n');
+  });
+
+  it('should snapshot the files on disk before the first action changes them', async () => {
+    const { runner, contents, run } = createRunner({ storedFiles: { '/home/project/a.js': 'stale\n' } });
+
+    contents.set('a.js', 'before\n');
+
+    await run('0', { type: 'file', filePath: 'a.js', content: 'after\n' });
+    await run('1', { type: 'patch', filePath: 'a.js', content: '@@ -1 +1 @@\n-after\n+patched' });
+    await run('2', file('b.js'));
+
+    expect(runner.snapshot).toStrictEqual({
+      '/home/project/a.js': { type: 'file', content: 'before\n', isBinary: false },
+      '/home/project/b.js': undefined,
+    });
+  });
+
+  it('should keep earlier snapshot entries when a parent is snapshotted later', async () => {
+    const { runner, contents, filesStore, run } = createRunner();
+
+    // the disk as the delete sees it, with the file the first action created
+    vi.spyOn(filesStore, 'readSnapshot').mockImplementation(async (path) =>
+      path === '/home/project/src'
+        ? {
+            [path]: { type: 'folder' },
+            [`${path}/a.ts`]: { type: 'file', content: contents.get('a.ts') as string, isBinary: false },
+            [`${path}/b.ts`]: { type: 'file', content: 'original\n', isBinary: false },
+          }
+        : {},
+    );
+
+    await run('0', { type: 'file', filePath: 'src/a.ts', content: 'created\n' });
+    await run('1', { type: 'delete', filePath: 'src', content: '' });
+
+    expect(runner.snapshot).toStrictEqual({
+      '/home/project/src/a.ts': undefined,
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/b.ts': { type: 'file', content: 'original\n', isBinary: false },
+    });
+  });
+
+  it('should keep the parsed report of failing tests', async () => {
+    const { runner, contents, shell, run } = createRunner({ results: [{ exitCode: 1, output: '1 failed' }] });
+
+    contents.set(
+      'test-report.json',
+      JSON.stringify({
+        testResults: [
+          {
+            name: '/home/project/src/app.test.ts',
+            status: 'failed',
+            assertionResults: [{ fullName: 'app renders', status: 'failed', failureMessages: ['expected true'] }],
+          },
+        ],
+      }),
+    );
+
+    await run('0', { type: 'test', content: 'npx vitest run' });
+
+    expect(shell.calls.map((call) => call.command)).toEqual([
+      'npx vitest run --reporter=default --reporter=json --outputFile=node_modules/.cache/bolt/test-report.json',
+    ]);
+    expect(runner.actions.get()['0']).toMatchObject({
+      status: 'complete',
+      testReport: { passed: 0, failed: 1, tests: [{ file: 'src/app.test.ts', name: 'app renders' }] },
+    });
+  });
+
+  it('should cancel actions that depend on an unknown id', async () => {
+    const { runner, writes, run } = createRunner();
+
+    await run('0', file('a.js', { dependsOn: ['nope'] }));
+
+    expect(writes).toEqual([]);
+    expect(statuses(runner)).toEqual(['aborted']);
+  });
+});
+
+function file(filePath: string, attributes: Pick<BoltAction, 'id' | 'dependsOn'> = {}): BoltAction {
+  return { type: 'file', filePath, content: filePath, ...attributes };
+}
+
+function statuses(runner: ActionRunner) {
+  return Object.values(runner.actions.get()).map((action) => action.status);
+}
+
+interface RunnerOptions {
+  results?: Array<Partial<NonNullable<ExecutionResult>>>;
+  defaults?: CommandExecutionPolicy;
+  policy?: CommandPolicy;
+  onAlert?: (alert: ActionAlert) => void;
+  execute?: (command: string, options: ExecuteCommandOptions) => Promise<ExecutionResult>;
+  waitForPort?: (port: number | undefined) => Promise<unknown>;
+
+  /**
+   * Contents the files store knows of, by full path.
+   */
+  storedFiles?: Record<string, string>;
+}
+
+function createRunner({
+  results = [],
+  defaults = { timeout: 300, retries: 0 },
+  policy = DEFAULT_COMMAND_POLICY,
+  onAlert,
+  execute,
+  waitForPort,
+  storedFiles = {},
+}: RunnerOptions = {}) {
+  const writes: string[] = [];
+  const contents = new Map<string, string | Uint8Array>();
+
+  const shell = {
+    calls: [] as Array<{ command: string; timeout?: number }>,
+    terminal: {},
+    process: {},
+    async ready() {
+      // noop
+    },
+    async executeCommand(
+      _sessionId: string,
+      command: string,
+      _abort?: () => void,
+      options: ExecuteCommandOptions = {},
+    ): Promise<ExecutionResult> {
+      shell.calls.push({ command, timeout: options.timeout });
+
+      if (execute) {
+        return execute(command, options);
+      }
+
+      return { output: '', exitCode: 0, ...results.shift() };
+    },
+  };
+
+  const webcontainer = {
+    workdir: '/home/project',
+    fs: {
+      async mkdir() {
+        // noop
+      },
+      async writeFile(path: string, content: string | Uint8Array) {
+        contents.set(nodePath.basename(path), content);
+        writes.push(`start ${nodePath.basename(path)}`);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        writes.push(`end ${nodePath.basename(path)}`);
+      },
+      async rm() {
+        // noop
+      },
+      async readFile(path: string) {
+        const content = contents.get(nodePath.basename(path));
+
+        if (content === undefined) {
+          throw new Error('ENOENT');
+        }
+
+        return content;
+      },
+    },
+  } as unknown as WebContainer;
+
+  const filesStore = {
+    getFile: (path: string) =>
+      storedFiles[path] === undefined ? undefined : { type: 'file', content: storedFiles[path], isBinary: false },
+    async readSnapshot(path: string) {
+      const content = contents.get(nodePath.basename(path));
+
+      return typeof content === 'string' ? { [path]: { type: 'file', content, isBinary: false } } : {};
+    },
+  } as unknown as FilesStore;
+
+  const runner = new ActionRunner(
+    Promise.resolve(webcontainer),
+    filesStore,
+    () => shell as unknown as BoltShell,
+    onAlert,
+    () => defaults,
+    () => policy,
+    waitForPort,
+  );
+
+  const run = (actionId: string, action: BoltAction) => {
+    const data: ActionCallbackData = { artifactId: 'artifact_1', messageId: 'message_1', actionId, action };
+
+    runner.addAction(data);
+
+    return runner.runAction(data);
+  };
+
+  return { runner, writes, contents, shell, filesStore, run };
+}
@@ -1,21 +1,49 @@
 import { WebContainer } from '@webcontainer/api';
 import { atom, map, type MapStore } from 'nanostores';
 import * as nodePath from 'node:path';
-import type { ActionAlert, BoltAction } from '~/types/actions';
+import type { ActionAlert, BoltAction, BoltActionData, CommandExecutionPolicy, FileAction } from '~/types/actions';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
 import type { ActionCallbackData } from './message-parser';
-import type { BoltShell } from '~/utils/shell';
+import { cleanTerminalOutput, type BoltShell } from '~/utils/shell';
+import { decodeBinaryContent, type FileMap, type FilesStore } from '~/lib/stores/files';
+import { applyUnifiedDiff, PatchApplyError } from '~/utils/diff';
+import { logStore } from '~/lib/stores/logs';
+import { DEFAULT_COMMAND_POLICY, evaluateCommand, type CommandPolicy } from './command-policy';
+import {
+  createTestCommand,
+  DEFAULT_TEST_COMMAND,
+  detectTestFramework,
+  parseTestReport,
+  type TestReport,
+} from './test-report';
 
 const logger = createScopedLogger('ActionRunner');
 
 export type ActionStatus = 'pending' | 'running' | 'complete' | 'aborted' | 'failed';
 
+export type ActionApproval = 'pending' | 'approved' | 'rejected';
+
 export type BaseActionState = BoltAction & {
   status: Exclude<ActionStatus, 'failed'>;
   abort: () => void;
   executed: boolean;
   abortSignal: AbortSignal;
+
+  /**
+   * Set for shell and start actions whose command needed the user's approval.
+   */
+  approval?: ActionApproval;
+
+  /**
+   * Set once the dev server of a start action opened its port or printed its `readyPattern`.
+   */
+  ready?: boolean;
+
+  /**
+   * Parsed results of a test action, missing if the framework didn't write a report.
+   */
+  testReport?: TestReport;
 };
 
 export type FailedActionState = BoltAction &
@@ -26,7 +54,9 @@ export type FailedActionState = BoltAction &
 
 export type ActionState = BaseActionState | FailedActionState;
 
-type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed'>>;
+type BaseActionUpdate = Partial<
+  Pick<BaseActionState, 'status' | 'abort' | 'executed' | 'approval' | 'ready' | 'testReport'>
+>;
 
 export type ActionStateUpdate =
   | BaseActionUpdate
@@ -34,6 +64,24 @@ export type ActionStateUpdate =
 
 type ActionsMap = MapStore<Record<string, ActionState>>;
 
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 10_000;
+
+// how long later actions wait for a dev server that neither opens a port nor prints its ready pattern
+const START_READY_TIMEOUT = 60_000;
+
+// only the end of the output is kept to match the ready pattern against
+const READY_OUTPUT_BUFFER_SIZE = 4096;
+
+// outside of the watched files so the report doesn't show up in the file tree
+const TEST_REPORT_FILE = 'node_modules/.cache/bolt/test-report.json';
+
+const FILE_SYSTEM_OPERATION_LABELS = {
+  delete: 'Delete',
+  move: 'Move',
+  mkdir: 'Create Folder',
+} as const;
+
 class ActionCommandError extends Error {
   readonly _output: string;
   readonly _header: string;
@@ -66,19 +114,52 @@ class ActionCommandError extends Error {
 export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
   #currentExecutionPromise: Promise<void> = Promise.resolve();
+
+  /**
+   * Settles once the last action without dependency attributes is done. Actions that are part of the
+   * dependency graph never start before it.
+   */
+  #sequentialBarrier: Promise<void> = Promise.resolve();
+
+  /**
+   * Executions of the actions that declared an `id`, resolving to whether the action succeeded.
+   */
+  #graphExecutions = new Map<string, Promise<boolean>>();
+  #graphResults = new Map<string, boolean>();
+  #filesStore: FilesStore;
   #shellTerminal: () => BoltShell;
+  #getShellExecutionDefaults: () => CommandExecutionPolicy;
+  #getCommandPolicy: () => CommandPolicy;
+  #pendingApprovals = new Map<string, (approved: boolean) => void>();
+  #waitForPort: (port: number | undefined, signal: AbortSignal) => Promise<unknown>;
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
+
+  /**
+   * The paths the actions touched, including everything below them, as they were on disk before the first
+   * action changed them. Used to roll the artifact back, paths that didn't exist are missing.
+   */
+  snapshot: FileMap = {};
+  #snapshotReads = new Map<string, Promise<void>>();
   onAlert?: (alert: ActionAlert) => void;
 
   constructor(
     webcontainerPromise: Promise<WebContainer>,
+    filesStore: FilesStore,
     getShellTerminal: () => BoltShell,
     onAlert?: (alert: ActionAlert) => void,
+    getShellExecutionDefaults: () => CommandExecutionPolicy = () => ({}),
+    getCommandPolicy: () => CommandPolicy = () => DEFAULT_COMMAND_POLICY,
+    waitForPort: (port: number | undefined, signal: AbortSignal) => Promise<unknown> = () =>
+      new Promise(() => undefined),
   ) {
     this.#webcontainer = webcontainerPromise;
+    this.#filesStore = filesStore;
     this.#shellTerminal = getShellTerminal;
     this.onAlert = onAlert;
+    this.#getShellExecutionDefaults = getShellExecutionDefaults;
+    this.#getCommandPolicy = getCommandPolicy;
+    this.#waitForPort = waitForPort;
   }
 
   addAction(data: ActionCallbackData) {
@@ -105,8 +186,15 @@ export class ActionRunner {
       abortSignal: abortController.signal,
     });
 
+    if (isGraphAction(data.action)) {
+      // graph actions stay pending until their dependencies are done
+      return;
+    }
+
     this.#currentExecutionPromise.then(() => {
-      this.#updateAction(actionId, { status: 'running' });
+      if (this.actions.get()[actionId].status === 'pending') {
+        this.#updateAction(actionId, { status: 'running' });
+      }
     });
   }
 
@@ -122,12 +210,18 @@ export class ActionRunner {
       return; // No return value here
     }
 
-    if (isStreaming && action.type !== 'file') {
+    // partial base64 content can't be decoded, so binary files are only written once they're complete
+    if (isStreaming && (action.type !== 'file' || action.encoding === 'base64')) {
       return; // No return value here
     }
 
     this.#updateAction(actionId, { ...action, ...data.action, executed: !isStreaming });
 
+    if (isGraphAction(data.action)) {
+      await this.#scheduleGraphAction(actionId, data.action, isStreaming);
+      return;
+    }
+
     this.#currentExecutionPromise = this.#currentExecutionPromise
       .then(() => {
         return this.#executeAction(actionId, isStreaming);
@@ -136,17 +230,113 @@ export class ActionRunner {
         console.error('Action failed:', error);
       });
 
+    this.#sequentialBarrier = this.#currentExecutionPromise;
+
     await this.#currentExecutionPromise;
 
     return;
   }
 
+  /**
+   * Resolves an action that is waiting for the user to approve its command.
+   */
+  resolveApproval(actionId: string, approved: boolean) {
+    const resolve = this.#pendingApprovals.get(actionId);
+
+    if (!resolve) {
+      return;
+    }
+
+    this.#pendingApprovals.delete(actionId);
+    resolve(approved);
+  }
+
+  /**
+   * Resolves once every action scheduled so far is done.
+   */
+  settled() {
+    return this.#currentExecutionPromise;
+  }
+
+  async #scheduleGraphAction(actionId: string, action: BoltAction, isStreaming: boolean) {
+    const dependencies = action.dependsOn ?? [];
+
+    if (isStreaming) {
+      // only stream into files whose prerequisites are already done, the final run is scheduled regularly
+      if (dependencies.every((dependency) => this.#graphResults.get(dependency))) {
+        await this.#executeAction(actionId, isStreaming);
+      }
+
+      return;
+    }
+
+    // dependencies have to be declared before they are referenced, anything else could never settle
+    const prerequisites = dependencies.map((dependency) => {
+      const execution = this.#graphExecutions.get(dependency);
+
+      if (!execution) {
+        logger.warn(`Action ${actionId} depends on unknown action '${dependency}'`);
+      }
+
+      return execution ?? Promise.resolve(false);
+    });
+
+    const barrier = this.#sequentialBarrier;
+
+    const execution = (async () => {
+      await barrier;
+
+      const results = await Promise.all(prerequisites);
+      const failedDependency = dependencies.find((_dependency, index) => !results[index]);
+
+      if (failedDependency !== undefined) {
+        logger.debug(`Cancelling action ${actionId}, '${failedDependency}' did not complete`);
+        this.#updateAction(actionId, { status: 'aborted' });
+
+        return false;
+      }
+
+      try {
+        await this.#executeAction(actionId);
+      } catch (error) {
+        logger.error(`Action ${actionId} failed\n\n`, error);
+      }
+
+      // start actions keep running in the background, they only count as failed once they exit
+      const { status } = this.actions.get()[actionId];
+
+      return status !== 'failed' && status !== 'aborted';
+    })();
+
+    const { id } = action;
+
+    if (id) {
+      if (this.#graphExecutions.has(id)) {
+        logger.warn(`Duplicate action id '${id}', later references resolve to action ${actionId}`);
+      }
+
+      this.#graphExecutions.set(id, execution);
+      execution.then((succeeded) => this.#graphResults.set(id, succeeded));
+    }
+
+    // actions without dependency attributes still wait for everything that was scheduled before them
+    this.#currentExecutionPromise = Promise.all([this.#currentExecutionPromise, execution]).then(() => undefined);
+
+    await execution;
+  }
+
   async #executeAction(actionId: string, isStreaming: boolean = false) {
     const action = this.actions.get()[actionId];
 
     this.#updateAction(actionId, { status: 'running' });
 
     try {
+      if (action.type === 'shell' || action.type === 'start' || action.type === 'test') {
+        await this.#enforceCommandPolicy(actionId, action);
+      }
+
+      await this.#recordSnapshot(action);
+
       switch (action.type) {
         case 'shell': {
           await this.#runShellAction(action);
@@ -156,10 +346,27 @@ export class ActionRunner {
           await this.#runFileAction(action);
           break;
         }
+        case 'test': {
+          await this.#runTestAction(actionId, action);
+          break;
+        }
+        case 'patch': {
+          await this.#runPatchAction(action);
+          break;
+        }
+        case 'delete':
+        case 'move':
+        case 'mkdir': {
+          await this.#runFileSystemAction(action);
+          break;
+        }
         case 'start': {
-          // making the start app non blocking
+          // the dev server keeps running, later actions only wait until it's ready
+          const readiness = new AbortController();
+          const outputListener: { onOutput?: (output: string) => void } = {};
+          const ready = this.#waitUntilReady(action, outputListener, readiness.signal);
 
-          this.#runStartAction(action)
+          const execution = this.#runStartAction(action, outputListener.onOutput)
             .then(() => this.#updateAction(actionId, { status: 'complete' }))
             .catch((err: Error) => {
               if (action.abortSignal.aborted) {
@@ -178,14 +385,18 @@ export class ActionRunner {
                 title: 'Dev Server Failed',
                 description: err.header,
                 content: err.output,
+                actionType: action.type,
               });
             });
 
-          /*
-           * adding a delay to avoid any race condition between 2 start actions
-           * i am up for a better approach
-           */
-          await new Promise((resolve) => setTimeout(resolve, 2000));
+          const isReady = await Promise.race([ready, execution.then(() => false)]);
+          readiness.abort();
+
+          if (isReady) {
+            this.#updateAction(actionId, { ready: true });
+          } else if (this.actions.get()[actionId].status === 'running') {
+            logger.warn(`[${action.type}]:Dev server not ready after ${START_READY_TIMEOUT / 1000}s, continuing`);
+          }
 
           return;
         }
@@ -208,9 +419,10 @@ export class ActionRunner {
 
       this.onAlert?.({
         type: 'error',
-        title: 'Dev Server Failed',
+        title: getAlertTitle(action.type),
         description: error.header,
         content: error.output,
+        actionType: action.type,
       });
 
       // re-throw the error to be caught in the promise chain
@@ -218,30 +430,58 @@ export class ActionRunner {
     }
   }
 
-  async #runShellAction(action: ActionState) {
-    if (action.type !== 'shell') {
-      unreachable('Expected shell action');
+  async #enforceCommandPolicy(actionId: string, action: ActionState) {
+    const command = getCommand(action);
+    const { decision, reason } = evaluateCommand(command, this.#getCommandPolicy());
+
+    if (decision === 'deny') {
+      logStore.logWarning('Command rejected by policy', { command, reason });
+      throw new ActionCommandError('Command Rejected By Policy', `${reason}\n\n${command}`);
     }
 
-    const shell = this.#shellTerminal();
-    await shell.ready();
+    if (decision === 'allow') {
+      return;
+    }
 
-    if (!shell || !shell.terminal || !shell.process) {
-      unreachable('Shell terminal not found');
+    this.#updateAction(actionId, { approval: 'pending' });
+
+    const onAbort = () => this.resolveApproval(actionId, false);
+    const approved = await new Promise<boolean>((resolve) => {
+      this.#pendingApprovals.set(actionId, resolve);
+
+      action.abortSignal.addEventListener('abort', onAbort, { once: true });
+    }).finally(() => action.abortSignal.removeEventListener('abort', onAbort));
+
+    if (action.abortSignal.aborted) {
+      throw new Error(`Action aborted while waiting for approval: ${command}`);
     }
 
-    const resp = await shell.executeCommand(this.runnerId.get(), action.content, () => {
-      logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
+    logStore.logUserAction(`Command ${approved ? 'approved' : 'rejected'}`, { command, reason });
+
+    this.#updateAction(actionId, { approval: approved ? 'approved' : 'rejected' });
+
+    if (!approved) {
+      // aborting marks the action as aborted and keeps the error from raising an alert
       action.abort();
-    });
-    logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
 
-    if (resp?.exitCode != 0) {
-      throw new ActionCommandError(`Failed To Execute Shell Command`, resp?.output || 'No Output Available');
+      throw new Error(`Command rejected: ${command}`);
+    }
+  }
+
+  async #runShellAction(action: ActionState) {
+    if (action.type !== 'shell') {
+      unreachable('Expected shell action');
     }
+
+    const defaults = this.#getShellExecutionDefaults();
+
+    await this.#executeCommand(action, 'Failed To Execute Shell Command', {
+      timeout: action.timeout ?? defaults.timeout,
+      retries: action.retries ?? defaults.retries,
+    });
   }
 
-  async #runStartAction(action: ActionState) {
+  async #runStartAction(action: ActionState, onOutput?: (output: string) => void) {
     if (action.type !== 'start') {
       unreachable('Expected shell action');
     }
@@ -250,6 +490,114 @@ export class ActionRunner {
       unreachable('Shell terminal not found');
     }
 
+    // dev servers are expected to run forever, so the shell defaults don't apply here
+    return this.#executeCommand(
+      action,
+      'Failed To Start Application',
+      { timeout: action.timeout, retries: action.retries },
+      { onOutput },
+    );
+  }
+
+  async #runTestAction(actionId: string, action: ActionState) {
+    if (action.type !== 'test') {
+      unreachable('Expected test action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const command = getCommand(action);
+    const framework = detectTestFramework(command, action.framework, await readPackageJson(webcontainer));
+    const defaults = this.#getShellExecutionDefaults();
+
+    // retrying would only hide flaky tests
+    const policy = { timeout: action.timeout ?? defaults.timeout, retries: action.retries ?? 0 };
+
+    if (!framework) {
+      logger.warn(`Unknown test framework for '${command}', only checking the exit code`);
+      await this.#executeCommand(action, 'Failed To Run Tests', policy, { command });
+
+      return;
+    }
+
+    await webcontainer.fs.mkdir(nodePath.dirname(TEST_REPORT_FILE), { recursive: true });
+    await webcontainer.fs.rm(TEST_REPORT_FILE, { force: true });
+
+    let commandError: unknown;
+
+    try {
+      await this.#executeCommand(action, 'Failed To Run Tests', policy, {
+        command: createTestCommand(command, framework, TEST_REPORT_FILE),
+      });
+    } catch (error) {
+      // failing tests exit with a non-zero code, that's only an error if there's no report
+      commandError = error;
+    }
+
+    const report = await webcontainer.fs
+      .readFile(TEST_REPORT_FILE, 'utf-8')
+      .then((json) => parseTestReport(json, webcontainer.workdir))
+      .catch(() => undefined);
+
+    if (!report) {
+      throw commandError ?? new ActionCommandError('Failed To Run Tests', 'The test framework did not write a report');
+    }
+
+    this.#updateAction(actionId, { testReport: report });
+  }
+
+  /**
+   * Resolves to `true` once the dev server opens the expected port (any port if the action doesn't
+   * declare one) or prints output matching the `readyPattern`, and to `false` if neither happens in time.
+   */
+  #waitUntilReady(action: ActionState, outputListener: { onOutput?: (output: string) => void }, signal: AbortSignal) {
+    if (action.type !== 'start') {
+      unreachable('Expected start action');
+    }
+
+    return new Promise<boolean>((resolve) => {
+      // start actions can run many times over a session, the listeners mustn't outlive the wait
+      const settle = (ready: boolean) => {
+        clearTimeout(timeoutId);
+        signal.removeEventListener('abort', onAbort);
+        action.abortSignal.removeEventListener('abort', onAbort);
+        resolve(ready);
+      };
+      const onAbort = () => settle(false);
+      const timeoutId = setTimeout(onAbort, START_READY_TIMEOUT);
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      action.abortSignal.addEventListener('abort', onAbort, { once: true });
+
+      this.#waitForPort(action.port, signal).then(() => settle(true));
+
+      const readyPattern = createReadyPattern(action.readyPattern);
+
+      if (!readyPattern) {
+        return;
+      }
+
+      let output = '';
+
+      outputListener.onOutput = (chunk) => {
+        output = (output + chunk).slice(-READY_OUTPUT_BUFFER_SIZE);
+
+        if (readyPattern.test(cleanTerminalOutput(output))) {
+          settle(true);
+        }
+      };
+    });
+  }
+
+  /**
+   * Runs the command of a shell or start action, retrying with an exponential backoff. The error
+   * contains the output of every attempt so the alert shows what happened each time.
+   */
+  async #executeCommand(
+    action: ActionState,
+    header: string,
+    policy: CommandExecutionPolicy,
+    options: { command?: string; onOutput?: (output: string) => void } = {},
+  ) {
     const shell = this.#shellTerminal();
     await shell.ready();
 
@@ -257,17 +605,49 @@ export class ActionRunner {
       unreachable('Shell terminal not found');
     }
 
-    const resp = await shell.executeCommand(this.runnerId.get(), action.content, () => {
-      logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
-      action.abort();
-    });
-    logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
+    const retries = Math.floor(policy.retries ?? 0);
+    const timeout = policy.timeout ? policy.timeout * 1000 : undefined;
+    const attempts: string[] = [];
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, Math.min(RETRY_BASE_DELAY * 2 ** (attempt - 1), RETRY_MAX_DELAY)),
+        );
+
+        if (action.abortSignal.aborted) {
+          break;
+        }
+
+        logger.debug(`[${action.type}]:Retrying Action (${attempt}/${retries})`);
+      }
+
+      const resp = await shell.executeCommand(
+        this.runnerId.get(),
+        options.command ?? action.content,
+        () => {
+          logger.debug(`[${action.type}]:Aborting Action\n\n`, action);
+          action.abort();
+        },
+        { timeout, onOutput: options.onOutput },
+      );
+      logger.debug(`${action.type} Shell Response: [exit code:${resp?.exitCode}]`);
+
+      if (resp?.exitCode == 0) {
+        return resp;
+      }
+
+      const output = resp?.output || 'No Output Available';
+      const reason = resp?.timedOut ? `timed out after ${policy.timeout}s` : `exit code ${resp?.exitCode ?? 'unknown'}`;
 
-    if (resp?.exitCode != 0) {
-      throw new ActionCommandError('Failed To Start Application', resp?.output || 'No Output Available');
+      attempts.push(retries > 0 ? `Attempt ${attempt + 1} of ${retries + 1} (${reason}):\n${output}` : output);
+
+      if (action.abortSignal.aborted) {
+        break;
+      }
     }
 
-    return resp;
+    throw new ActionCommandError(header, attempts.join('\n\n') || 'No Output Available');
   }
 
   async #runFileAction(action: ActionState) {
@@ -292,16 +672,219 @@ export class ActionRunner {
       }
     }
 
+    const content = decodeFileContent(action);
+
     try {
-      await webcontainer.fs.writeFile(relativePath, action.content);
+      await webcontainer.fs.writeFile(relativePath, content);
       logger.debug(`File written ${relativePath}`);
     } catch (error) {
       logger.error('Failed to write file\n\n', error);
     }
   }
+
+  async #runPatchAction(action: ActionState) {
+    if (action.type !== 'patch') {
+      unreachable('Expected patch action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const fullPath = nodePath.join(webcontainer.workdir, action.filePath);
+    const relativePath = nodePath.relative(webcontainer.workdir, fullPath);
+
+    const file = this.#filesStore.getFile(fullPath);
+
+    if (file?.isBinary) {
+      throw new ActionCommandError(`Failed To Apply Patch: ${relativePath} is a binary file`, action.content);
+    }
+
+    let originalContent: string;
+
+    // an earlier action might have just written the file, the store only catches up once the watcher fires
+    try {
+      originalContent = await webcontainer.fs.readFile(relativePath, 'utf-8');
+    } catch {
+      if (file === undefined) {
+        throw new ActionCommandError(`Failed To Apply Patch: ${relativePath} does not exist`, action.content);
+      }
+
+      originalContent = file.content;
+    }
+
+    let patchedContent: string;
+
+    try {
+      patchedContent = applyUnifiedDiff(originalContent, action.content);
+    } catch (error) {
+      if (!(error instanceof PatchApplyError)) {
+        throw error;
+      }
+
+      throw new ActionCommandError(
+        `Failed To Apply Patch to ${relativePath}: ${error.message}`,
+        `${error.message}\n\n${action.content}`,
+      );
+    }
+
+    await webcontainer.fs.writeFile(relativePath, patchedContent);
+    logger.debug(`Patch applied ${relativePath}`);
+  }
+
+  async #recordSnapshot(action: ActionState) {
+    if (
+      action.type !== 'file' &&
+      action.type !== 'patch' &&
+      action.type !== 'delete' &&
+      action.type !== 'move' &&
+      action.type !== 'mkdir'
+    ) {
+      return;
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const filePaths = [action.filePath, action.type === 'move' ? action.newFilePath : undefined];
+
+    for (const filePath of filePaths) {
+      if (filePath === undefined) {
+        continue;
+      }
+
+      const fullPath = nodePath.join(webcontainer.workdir, filePath);
+
+      // anything below a recorded path is in the snapshot already, reading it again would see our own changes
+      const recorded = [...this.#snapshotReads].find(([path]) => fullPath === path || fullPath.startsWith(`${path}/`));
+
+      if (recorded) {
+        await recorded[1];
+        continue;
+      }
+
+      const read = this.#filesStore
+        .readSnapshot(fullPath)
+        .then((snapshot) => {
+          // entries recorded earlier hold the state before our own changes, a parent read later must not replace them
+          for (const [path, dirent] of Object.entries(snapshot)) {
+            if (!(path in this.snapshot)) {
+              this.snapshot[path] = dirent;
+            }
+          }
+
+          // a tombstone for missing paths, so rolling back deletes what the artifact creates there
+          if (!(fullPath in this.snapshot)) {
+            this.snapshot[fullPath] = undefined;
+          }
+        })
+        .catch((error) => logger.warn(`Failed to snapshot ${filePath}`, error));
+
+      this.#snapshotReads.set(fullPath, read);
+      await read;
+    }
+  }
+
+  async #runFileSystemAction(action: ActionState) {
+    if (action.type !== 'delete' && action.type !== 'move' && action.type !== 'mkdir') {
+      unreachable('Expected file system action');
+    }
+
+    const webcontainer = await this.#webcontainer;
+    const fullPath = nodePath.join(webcontainer.workdir, action.filePath);
+
+    try {
+      switch (action.type) {
+        case 'delete': {
+          await this.#filesStore.deletePath(fullPath);
+          break;
+        }
+        case 'move': {
+          await this.#filesStore.movePath(fullPath, nodePath.join(webcontainer.workdir, action.newFilePath));
+          break;
+        }
+        case 'mkdir': {
+          await this.#filesStore.createFolder(fullPath);
+          break;
+        }
+      }
+    } catch (error) {
+      throw new ActionCommandError(
+        `Failed To ${FILE_SYSTEM_OPERATION_LABELS[action.type]} ${action.filePath}`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
   #updateAction(id: string, newState: ActionStateUpdate) {
     const actions = this.actions.get();
 
     this.actions.setKey(id, { ...actions[id], ...newState });
   }
 }
+
+/**
+ * Whether the action opted into dependency-aware scheduling by declaring an `id` or `dependsOn`.
+ */
+export function isGraphAction(action: BoltActionData) {
+  return action.id !== undefined || action.dependsOn !== undefined;
+}
+
+function getAlertTitle(type: BoltAction['type']) {
+  switch (type) {
+    case 'patch': {
+      return 'Patch Failed';
+    }
+    case 'test': {
+      return 'Tests Failed';
+    }
+    case 'file':
+    case 'delete':
+    case 'move':
+    case 'mkdir': {
+      return 'File Operation Failed';
+    }
+    default: {
+      return 'Dev Server Failed';
+    }
+  }
+}
+
+function createReadyPattern(pattern: string | undefined) {
+  if (!pattern) {
+    return undefined;
+  }
+
+  try {
+    return new RegExp(pattern);
+  } catch {
+    logger.warn(`Ignoring invalid ready pattern '${pattern}'`);
+    return undefined;
+  }
+}
+
+function getCommand(action: BoltAction) {
+  const command = action.content.trim();
+
+  return action.type === 'test' ? command || DEFAULT_TEST_COMMAND : command;
+}
+
+async function readPackageJson(webcontainer: WebContainer) {
+  try {
+    return JSON.parse(await webcontainer.fs.readFile('package.json', 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+const BASE64_REGEX = /^[A-Za-z0-9+/]*={0,2}$/;
+
+function decodeFileContent(action: FileAction) {
+  if (action.encoding !== 'base64') {
+    return action.content;
+  }
+
+  // models like to wrap long base64 strings, so whitespace is ignored
+  const content = action.content.replace(/\s+/g, '');
+
+  if (!BASE64_REGEX.test(content)) {
+    throw new ActionCommandError(`Failed To Decode File: ${action.filePath} is not valid base64`, action.content);
+  }
+
+  return decodeBinaryContent(content);
+}
@@ -0,0 +1,44 @@
+import type { Message } from 'ai';
+import { describe, expect, it } from 'vitest';
+import { countAutoFixAttempts, createAutoFixAnnotation, isAutoFixable } from './auto-fix';
+
+describe('countAutoFixAttempts', () => {
+  const autoFix = (id: string, attempt: number): Message => ({
+    id,
+    role: 'user',
+    content: 'fix it',
+    annotations: ['hidden', createAutoFixAnnotation({ attempt, maxAttempts: 3, header: 'Failed' })],
+  });
+
+  const messages: Message[] = [
+    { id: '1', role: 'user', content: 'build an app' },
+    { id: '2', role: 'assistant', content: '' },
+    autoFix('3', 1),
+    { id: '4', role: 'assistant', content: '' },
+    autoFix('5', 2),
+    { id: '6', role: 'assistant', content: '' },
+    { id: '7', role: 'user', content: 'add a button' },
+    { id: '8', role: 'assistant', content: '' },
+  ];
+
+  it('should count the consecutive fixes leading up to a message', () => {
+    expect(countAutoFixAttempts(messages, '2')).toBe(0);
+    expect(countAutoFixAttempts(messages, '4')).toBe(1);
+    expect(countAutoFixAttempts(messages, '6')).toBe(2);
+  });
+
+  it('should start over after a message from the user', () => {
+    expect(countAutoFixAttempts(messages, '8')).toBe(0);
+  });
+});
+
+describe('isAutoFixable', () => {
+  it('should only fix shell and start actions', () => {
+    const alert = { type: 'error', title: 'Failed', description: '', content: '' };
+
+    expect(isAutoFixable({ ...alert, actionType: 'shell' })).toBe(true);
+    expect(isAutoFixable({ ...alert, actionType: 'start' })).toBe(true);
+    expect(isAutoFixable({ ...alert, actionType: 'patch' })).toBe(false);
+    expect(isAutoFixable({ ...alert, source: 'preview' })).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import type { JSONValue, Message } from 'ai';
+import type { ActionAlert } from '~/types/actions';
+
+export interface AutoFixSettings {
+  enabled: boolean;
+
+  /**
+   * How often a failing artifact gets sent back to the model before the user has to step in.
+   */
+  maxAttempts: number;
+}
+
+export const DEFAULT_AUTO_FIX_SETTINGS: AutoFixSettings = {
+  enabled: false,
+  maxAttempts: 3,
+};
+
+export interface AutoFixAttempt {
+  attempt: number;
+  maxAttempts: number;
+  header: string;
+}
+
+/**
+ * Only failed shell and start actions are fixed automatically, preview errors still need the user.
+ */
+export function isAutoFixable(alert: ActionAlert) {
+  return alert.source !== 'preview' && (alert.actionType === 'shell' || alert.actionType === 'start');
+}
+
+export function getAutoFixAttempt(message: Message): AutoFixAttempt | undefined {
+  const annotation = message.annotations?.find(
+    (annotation) =>
+      annotation && typeof annotation === 'object' && (annotation as { type?: string }).type === 'autoFix',
+  );
+
+  return (annotation as { value: AutoFixAttempt } | undefined)?.value;
+}
+
+export function createAutoFixAnnotation(attempt: AutoFixAttempt): JSONValue {
+  return { type: 'autoFix', value: { ...attempt } };
+}
+
+/**
+ * Counts the auto-fix attempts that led up to the given assistant message, a message the user sent
+ * themselves ends the chain.
+ */
+export function countAutoFixAttempts(messages: Message[], messageId: string) {
+  let index = messages.findIndex((message) => message.id === messageId) - 1;
+  let attempts = 0;
+
+  while (index >= 0 && messages[index].role === 'user' && getAutoFixAttempt(messages[index])) {
+    attempts++;
+    index -= 2;
+  }
+
+  return attempts;
+}
+
+export function createAutoFixPrompt(alert: ActionAlert, attempt: AutoFixAttempt) {
+  return [
+    `*Fix this terminal error* (automatic attempt ${attempt.attempt} of ${attempt.maxAttempts})`,
+    `${alert.title}: ${alert.description}`,
+    `\`\`\`sh\n${alert.content}\n\`\`\``,
+    'Respond with an artifact that fixes the error and runs the failed commands again.',
+  ].join('\n\n');
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_COMMAND_POLICY,
+  evaluateCommand,
+  hasNestedCommand,
+  splitCommand,
+  type CommandPolicy,
+} from './command-policy';
+
+describe('splitCommand', () => {
+  it('should split chained commands', () => {
+    expect(splitCommand('cd app && npm install; npm run build || echo failed | tee log')).toEqual([
+      'cd app',
+      'npm install',
+      'npm run build',
+      'echo failed',
+      'tee log',
+    ]);
+  });
+
+  it('should not split inside quotes', () => {
+    expect(splitCommand(`echo "a && b" && echo 'c; d'`)).toEqual(['echo "a && b"', "echo 'c; d'"]);
+  });
+
+  it('should not split escaped quotes and separators', () => {
+    expect(splitCommand('npm i \\" && rm -rf src && echo \\"')).toEqual(['npm i \\"', 'rm -rf src', 'echo \\"']);
+    expect(splitCommand('echo a \\; rm -rf src')).toEqual(['echo a \\; rm -rf src']);
+    expect(splitCommand(`echo 'a\\' && rm -rf src`)).toEqual(["echo 'a\\'", 'rm -rf src']);
+  });
+
+  it('should split background commands but not redirections', () => {
+    expect(splitCommand('npm i & rm -rf src')).toEqual(['npm i', 'rm -rf src']);
+    expect(splitCommand('npm run build 2>&1 &> log')).toEqual(['npm run build 2>&1 &> log']);
+  });
+});
+
+describe('hasNestedCommand', () => {
+  it('should find command substitutions and subshells', () => {
+    expect(hasNestedCommand('npm i $(rm -rf src)')).toBe(true);
+    expect(hasNestedCommand('npm i "`rm -rf src`"')).toBe(true);
+    expect(hasNestedCommand('diff <(ls a) <(ls b)')).toBe(true);
+    expect(hasNestedCommand('(rm -rf src)')).toBe(true);
+    expect(hasNestedCommand('{ rm -rf src; }')).toBe(true);
+  });
+
+  it('should ignore quoted and escaped ones', () => {
+    expect(hasNestedCommand(`echo '$(literal)' '\`literal\`'`)).toBe(false);
+    expect(hasNestedCommand('echo \\$(literal) "(literal)"')).toBe(false);
+  });
+});
+
+describe('evaluateCommand', () => {
+  const policy = (overrides: Partial<CommandPolicy>): CommandPolicy => ({ ...DEFAULT_COMMAND_POLICY, ...overrides });
+
+  it('should allow everything by default', () => {
+    expect(evaluateCommand('rm -rf dist && node index.js', DEFAULT_COMMAND_POLICY).decision).toBe('allow');
+  });
+
+  it('should deny commands matching the denylist even if they are allowed', () => {
+    const evaluation = evaluateCommand(
+      'npm install && rm -rf /',
+      policy({ allowlist: ['^rm'], denylist: ['^rm -rf /$'] }),
+    );
+
+    expect(evaluation).toEqual({ decision: 'deny', reason: `'rm -rf /' matches the denied pattern '^rm -rf /$'` });
+  });
+
+  it('should only auto-approve package manager commands', () => {
+    const mode = 'package-managers';
+
+    expect(evaluateCommand('cd app && pnpm install', policy({ mode })).decision).toBe('allow');
+    expect(evaluateCommand('npm install && node setup.js', policy({ mode })).decision).toBe('ask');
+    expect(evaluateCommand('npx vite', policy({ mode })).decision).toBe('ask');
+    expect(evaluateCommand('node setup.js', policy({ mode, allowlist: ['^node '] })).decision).toBe('allow');
+  });
+
+  it('should ask for every command that is not allowed', () => {
+    const mode = 'always-ask';
+
+    expect(evaluateCommand('npm install', policy({ mode })).decision).toBe('ask');
+    expect(evaluateCommand('npm install', policy({ mode, allowlist: ['^npm install$'] })).decision).toBe('allow');
+  });
+
+  it('should ask for background commands that are not allowed', () => {
+    expect(evaluateCommand('npm i & rm -rf src', policy({ mode: 'package-managers' })).decision).toBe('ask');
+  });
+
+  it('should ask for commands hidden behind escaped quotes', () => {
+    const evaluation = evaluateCommand('npm i \\" && rm -rf src && echo \\"', policy({ mode: 'package-managers' }));
+
+    expect(evaluation).toEqual({ decision: 'ask', reason: `'rm -rf src' is not an npm/pnpm command` });
+  });
+
+  it('should ask for command substitutions and subshells unless every command runs automatically', () => {
+    for (const command of ['npm i $(rm -rf src)', 'npm i `rm -rf src`', 'npm i && (rm -rf src)']) {
+      expect(evaluateCommand(command, policy({ mode: 'package-managers' })).decision).toBe('ask');
+      expect(evaluateCommand(command, policy({ mode: 'always-ask', allowlist: ['^npm', '^\\(rm'] })).decision).toBe(
+        'ask',
+      );
+      expect(evaluateCommand(command, DEFAULT_COMMAND_POLICY).decision).toBe('allow');
+    }
+
+    expect(evaluateCommand('npm i $(rm -rf src)', policy({ denylist: ['rm -rf'] })).decision).toBe('deny');
+  });
+
+  it('should ignore invalid patterns', () => {
+    expect(evaluateCommand('npm install', policy({ denylist: ['('] })).decision).toBe('allow');
+  });
+});
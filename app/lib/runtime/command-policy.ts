@@ -0,0 +1,207 @@
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('CommandPolicy');
+
+/**
+ * - `auto`: run every command that isn't denied
+ * - `package-managers`: only run `npm` and `pnpm` commands without asking
+ * - `always-ask`: ask before running anything that isn't explicitly allowed
+ */
+export type CommandPolicyMode = 'auto' | 'package-managers' | 'always-ask';
+
+export interface CommandPolicy {
+  mode: CommandPolicyMode;
+
+  /**
+   * Regular expressions for commands that never need approval.
+   */
+  allowlist: string[];
+
+  /**
+   * Regular expressions for commands that are always rejected, they take precedence over the allowlist.
+   */
+  denylist: string[];
+}
+
+export type CommandDecision = 'allow' | 'deny' | 'ask';
+
+export interface CommandEvaluation {
+  decision: CommandDecision;
+  reason: string;
+}
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = {
+  mode: 'auto',
+  allowlist: [],
+  denylist: [],
+};
+
+export const COMMAND_POLICY_MODES: { value: CommandPolicyMode; label: string }[] = [
+  { value: 'auto', label: 'Run all commands' },
+  { value: 'package-managers', label: 'Auto-approve npm/pnpm only' },
+  { value: 'always-ask', label: 'Always ask' },
+];
+
+const PACKAGE_MANAGER_REGEX = /^(npm|pnpm)(\s|$)/;
+
+// changing directories on its own doesn't do anything, so it doesn't need a separate approval
+const NEUTRAL_COMMAND_REGEX = /^cd(\s|$)/;
+
+/**
+ * Decides whether a shell command can run. Chained commands (`&&`, `||`, `&`, `;`, `|`) are checked
+ * one by one, a single denied part rejects the whole command. Unless every command runs automatically, commands
+ * with command substitutions or subshells need approval, the patterns can't see what runs inside them.
+ */
+export function evaluateCommand(command: string, policy: CommandPolicy): CommandEvaluation {
+  const segments = splitCommand(command);
+
+  for (const segment of segments) {
+    const pattern = findMatchingPattern(segment, policy.denylist);
+
+    if (pattern !== undefined) {
+      return { decision: 'deny', reason: `'${segment}' matches the denied pattern '${pattern}'` };
+    }
+  }
+
+  const nested = policy.mode === 'auto' ? undefined : segments.find((segment) => hasNestedCommand(segment));
+
+  if (nested !== undefined) {
+    return { decision: 'ask', reason: `'${nested}' runs a command substitution or subshell` };
+  }
+
+  const pending = segments.filter((segment) => findMatchingPattern(segment, policy.allowlist) === undefined);
+
+  if (pending.length === 0) {
+    return { decision: 'allow', reason: 'All commands are on the allowlist' };
+  }
+
+  switch (policy.mode) {
+    case 'auto': {
+      return { decision: 'allow', reason: 'Commands run automatically' };
+    }
+    case 'package-managers': {
+      const unapproved = pending.find(
+        (segment) => !PACKAGE_MANAGER_REGEX.test(segment) && !NEUTRAL_COMMAND_REGEX.test(segment),
+      );
+
+      if (unapproved === undefined) {
+        return { decision: 'allow', reason: 'Only npm/pnpm commands' };
+      }
+
+      return { decision: 'ask', reason: `'${unapproved}' is not an npm/pnpm command` };
+    }
+    default: {
+      return { decision: 'ask', reason: 'Every command needs approval' };
+    }
+  }
+}
+
+/**
+ * Splits a command line into the individual commands, ignoring separators inside quotes and escaped ones.
+ */
+export function splitCommand(command: string) {
+  const segments: string[] = [];
+
+  let current = '';
+  let quote: string | undefined;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    // a backslash keeps the next character from closing a quote or ending the command, except in single quotes
+    if (char === '\\' && quote !== "'") {
+      current += command.slice(i, i + 2);
+      i++;
+      continue;
+    }
+
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+
+      current += char;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+      current += char;
+      continue;
+    }
+
+    // `2>&1` and `&>` are redirections, every other `&` ends a command
+    const isSeparatorAmpersand = char === '&' && command[i - 1] !== '>' && command[i + 1] !== '>';
+
+    if (char === ';' || char === '\n' || char === '|' || isSeparatorAmpersand) {
+      segments.push(current);
+      current = '';
+
+      if (command[i + 1] === char) {
+        i++;
+      }
+
+      continue;
+    }
+
+    current += char;
+  }
+
+  segments.push(current);
+
+  return segments.map((segment) => segment.trim()).filter(Boolean);
+}
+
+/**
+ * Whether the command contains `$(...)`, backticks, process substitution or starts a subshell or group. Single
+ * quotes keep all of these literal, double quotes only the grouping.
+ */
+export function hasNestedCommand(command: string) {
+  if (/^[({]/.test(command.trim())) {
+    return true;
+  }
+
+  let quote: string | undefined;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote === "'") {
+      if (char === quote) {
+        quote = undefined;
+      }
+
+      continue;
+    }
+
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+
+    if (char === '`' || (char === '$' && command[i + 1] === '(')) {
+      return true;
+    }
+
+    if (!quote && (char === '<' || char === '>') && command[i + 1] === '(') {
+      return true;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = quote === char ? undefined : (quote ?? char);
+    }
+  }
+
+  return false;
+}
+
+function findMatchingPattern(segment: string, patterns: string[]) {
+  return patterns.find((pattern) => {
+    try {
+      return new RegExp(pattern).test(segment);
+    } catch {
+      logger.warn(`Ignoring invalid command pattern '${pattern}'`);
+      return false;
+    }
+  });
+}
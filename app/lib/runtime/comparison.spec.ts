@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPickedMessages,
+  createUserContent,
+  getComparisonRecord,
+  summarizeResponse,
+  type ComparedResponse,
+} from './comparison';
+
+const artifact = `Here you go.
+
+<boltArtifact id="app" title="App">
+  <boltAction type="file" filePath="index.js">console.log('hi');</boltAction>
+  <boltAction type="start">node index.js</boltAction>
+</boltArtifact>
+
+Done.`;
+
+function response(model: string, content: string): ComparedResponse {
+  return {
+    provider: 'OpenAI',
+    model,
+    content,
+    annotations: [{ type: 'usage', value: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } }],
+    isStreaming: false,
+  };
+}
+
+describe('summarizeResponse', () => {
+  it('should list the actions without running them', () => {
+    const { text, actions } = summarizeResponse(artifact);
+
+    expect(text).toBe('Here you go.\n\n\n\nDone.');
+    expect(actions.map((action) => action.type)).toEqual(['file', 'start']);
+    expect(actions[0]).toMatchObject({ type: 'file', filePath: 'index.js' });
+  });
+});
+
+describe('createPickedMessages', () => {
+  it('should send the picked response to the chat and keep the other one as a record', () => {
+    const responses = [response('gpt-4o', 'first'), response('gpt-4o-mini', artifact)];
+    const [user, assistant] = createPickedMessages(
+      { role: 'user', content: createUserContent('build an app', []) },
+      responses,
+      1,
+    );
+
+    expect(user.content).toEqual([
+      { type: 'text', text: '[Model: gpt-4o-mini]\n\n[Provider: OpenAI]\n\nbuild an app' },
+    ]);
+    expect(assistant).toMatchObject({ role: 'assistant', content: artifact });
+    expect(assistant.annotations).toContainEqual(responses[1].annotations[0]);
+    expect(getComparisonRecord(assistant)).toEqual({ provider: 'OpenAI', model: 'gpt-4o', content: 'first' });
+    expect(user.id).not.toBe(assistant.id);
+  });
+});
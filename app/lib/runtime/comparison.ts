@@ -0,0 +1,115 @@
+import type { ImagePart, JSONValue, Message, TextPart } from 'ai';
+import { StreamingMessageParser } from './message-parser';
+import type { BoltAction } from '~/types/actions';
+import type { ModelFallback } from '~/types/model';
+
+/**
+ * One side of a comparison, streamed from `api.chat` but kept out of the chat until the user picks it.
+ */
+export interface ComparedResponse extends ModelFallback {
+  content: string;
+  annotations: JSONValue[];
+  isStreaming: boolean;
+  error?: string;
+}
+
+/**
+ * The text of a user message, as parts when images are attached to it.
+ */
+export type UserContent = string | Array<TextPart | ImagePart>;
+
+/**
+ * The user message of a comparison without the model prefix, it gets the one of each model.
+ */
+export interface ComparedUserMessage {
+  role: 'user';
+  content: UserContent;
+}
+
+/**
+ * The response that lost a comparison, stored on the picked message so it can still be read later.
+ */
+export interface ComparisonRecord extends ModelFallback {
+  content: string;
+}
+
+/**
+ * Splits a response into its text and the actions of its artifacts without touching the workbench, the
+ * actions only run once the response is picked.
+ */
+export function summarizeResponse(content: string) {
+  const actions: BoltAction[] = [];
+  const parser = new StreamingMessageParser({
+    artifactElement: () => '',
+    callbacks: { onActionClose: ({ action }) => actions.push(action) },
+  });
+
+  const text = parser.parse('comparison', content);
+
+  return { text, actions };
+}
+
+export function createComparisonAnnotation(response: ComparedResponse): JSONValue {
+  return {
+    type: 'comparison',
+    value: { provider: response.provider, model: response.model, content: response.content },
+  };
+}
+
+export function getComparisonRecord(message: Message): ComparisonRecord | undefined {
+  const annotation = message.annotations?.find(
+    (annotation) =>
+      annotation && typeof annotation === 'object' && (annotation as { type?: string }).type === 'comparison',
+  );
+
+  return (annotation as { value: ComparisonRecord } | undefined)?.value;
+}
+
+/**
+ * Turns the picked response into the messages that go into the chat. The user message names the picked model so
+ * the conversation continues with it, the other responses are attached as records.
+ */
+export function createPickedMessages(
+  userMessage: ComparedUserMessage,
+  responses: ComparedResponse[],
+  index: number,
+): Message[] {
+  const picked = responses[index];
+  const id = Date.now();
+
+  return [
+    // the chat keeps the image parts in the content of user messages, which `Message` only types as text
+    { ...userMessage, id: `${id}`, content: withModel(userMessage.content, picked) as Message['content'] },
+    {
+      id: `${id + 1}`,
+      role: 'assistant',
+      content: picked.content,
+      annotations: [
+        ...picked.annotations,
+        ...responses.filter((_, i) => i !== index).map((response) => createComparisonAnnotation(response)),
+      ],
+    },
+  ];
+}
+
+/**
+ * The content of a user message with images, the text part comes first.
+ */
+export function createUserContent(text: string, images: string[]): Array<TextPart | ImagePart> {
+  return [{ type: 'text', text }, ...images.map((image): ImagePart => ({ type: 'image', image }))];
+}
+
+/**
+ * Prefixes the user message with the model, like every message sent to `api.chat`.
+ */
+export function withModel(content: UserContent, { provider, model }: ModelFallback): UserContent {
+  const prefix = `[Model: ${model}]\n\n[Provider: ${provider}]\n\n`;
+
+  if (typeof content === 'string') {
+    return `${prefix}${content}`;
+  }
+
+  return content.map((part, i) =>
+    i === 0 && part.type === 'text' ? { ...part, text: `${prefix}${part.text}` } : part,
+  );
+}
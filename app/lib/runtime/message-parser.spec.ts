@@ -1,5 +1,11 @@
 import { describe, expect, it, vi } from 'vitest';
-import { StreamingMessageParser, type ActionCallback, type ArtifactCallback } from './message-parser';
+import {
+  createFileActionTag,
+  StreamingMessageParser,
+  type ActionCallback,
+  type ArtifactCallback,
+} from './message-parser';
+import type { BoltAction } from '~/types/actions';
 
 interface ExpectedResult {
   output: string;
@@ -152,12 +158,170 @@ describe('StreamingMessageParser', () => {
           callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 2, onActionClose: 2 },
         },
       ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="patch" filePath="index.js">```diff\n@@ -1,1 +1,1 @@\n-foo\n+bar\n```</boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 1, onActionClose: 1 },
+        },
+      ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="move" filePath="a.js" newFilePath="b.js" /><boltAction type="mkdir" filePath="assets" /><boltAction type="delete" filePath="c.js"></boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 3, onActionClose: 3 },
+        },
+      ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="shell" timeout="600" retries="2">npm install</boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 1, onActionClose: 1 },
+        },
+      ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="file" filePath="package.json" id="pkg">{}</boltAction><boltAction type="shell" id="install" dependsOn="pkg">npm install</boltAction><boltAction type="start" dependsOn="pkg, install">npm run dev</boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 3, onActionClose: 3 },
+        },
+      ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="start" port="5173" readyPattern="ready in \\d+ ms">npm run dev</boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 1, onActionClose: 1 },
+        },
+      ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="file" filePath="favicon.ico" encoding="base64">AAABAAEAEBA=</boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 1, onActionClose: 1 },
+        },
+      ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="test" framework="vitest" timeout="120">npx vitest run</boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 1, onActionClose: 1 },
+        },
+      ],
     ])('should correctly parse chunks and strip out Val-X artifacts (%#)', (input, expected) => {
       runTest(input, expected);
     });
   });
+
+  describe('escaped content and attributes', () => {
+    it.each<[string | string[], ExpectedResult | string]>([
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="file" filePath="parser.ts"><![CDATA[const close = \'</boltAction>\';]]></boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 1, onActionClose: 1 },
+        },
+      ],
+      [
+        "Before <boltArtifact id='artifact_1' title='Tom &amp; Jerry > Friends'><boltAction filePath='a.js' type='file'>a</boltAction></boltArtifact> After",
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 1, onActionClose: 1 },
+        },
+      ],
+    ])('should correctly parse chunks and strip out Val-X artifacts (%#)', (input, expected) => {
+      runTest(input, expected);
+    });
+  });
+
+  describe('fuzzing', () => {
+    const corpus = [
+      'Hello <b>world</b> <boltArtifact title="Some title" id="artifact_1"><boltAction type="shell">npm install</boltAction><boltAction type="file" filePath="index.js">console.log("<boltArtifact>")</boltAction></boltArtifact> bye',
+      `Text <boltArtifact id="a" title="t">\n${createFileActionTag('src/parser.ts', "if (x) { end('</boltAction>'); } // ]]> <![CDATA[")}\n<boltAction type="delete" filePath="old.js" /></boltArtifact>`,
+      "<boltArtifact\n  id='a'\n  title='a > b'\n><boltAction\n  type='file'\n  filePath='a.js'\n>```js\nconst a = 1;\n```</boltAction></boltArtifact>",
+      '<boltArtifac <boltArtifact title="x" id="y"></boltArtifact> <bolt <boltA',
+    ];
+
+    it.each(corpus.map((input, index) => [index, input] as const))(
+      'should produce the same result for any chunk split (%i)',
+      (_index, input) => {
+        const expected = parseChunks([input]);
+        const random = createRandom(1337);
+
+        for (let run = 0; run < 50; run++) {
+          expect(parseChunks(splitRandomly(input, random))).toEqual(expected);
+        }
+      },
+    );
+
+    it('should round-trip escaped file content', () => {
+      const random = createRandom(42);
+      const fragments = ['</boltAction>', '<![CDATA[', ']]>', ']]', '<', '>', '"', "'", '\n', 'foo', '</boltArtifact>'];
+
+      for (let run = 0; run < 100; run++) {
+        const length = 1 + Math.floor(random() * 12);
+        const content = `x${Array.from({ length }, () => fragments[Math.floor(random() * fragments.length)]).join('')}x`;
+        const message = `<boltArtifact id="a" title="t">${createFileActionTag('a "b".js', content)}</boltArtifact>`;
+
+        const { actions } = parseChunks(splitRandomly(message, random));
+
+        expect(actions).toEqual([{ type: 'file', filePath: 'a "b".js', content: `${content}\n` }]);
+      }
+    });
+  });
 });
 
+function parseChunks(chunks: string[]) {
+  const actions: BoltAction[] = [];
+  const artifacts: string[] = [];
+
+  const parser = new StreamingMessageParser({
+    artifactElement: () => '[artifact]',
+    callbacks: {
+      onArtifactOpen: (data) => artifacts.push(`${data.id}:${data.title}`),
+      onActionClose: (data) => actions.push(data.action),
+    },
+  });
+
+  let message = '';
+  let output = '';
+
+  for (const chunk of chunks) {
+    message += chunk;
+    output += parser.parse('message_1', message);
+  }
+
+  return { output, actions, artifacts };
+}
+
+function splitRandomly(input: string, random: () => number) {
+  const chunks: string[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const size = 1 + Math.floor(random() * 8);
+    chunks.push(input.slice(i, i + size));
+    i += size;
+  }
+
+  return chunks;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so failures are reproducible.
+ */
+function createRandom(seed: number) {
+  let state = seed;
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 function runTest(input: string | string[], outputOrExpectedResult: string | ExpectedResult) {
   let expected: ExpectedResult;
 
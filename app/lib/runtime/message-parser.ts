@@ -1,4 +1,14 @@
-import type { ActionType, BoltAction, BoltActionData, FileAction, ShellAction } from '~/types/actions';
+import type {
+  ActionType,
+  BaseAction,
+  BoltAction,
+  BoltActionData,
+  FileAction,
+  MoveAction,
+  ShellAction,
+  StartAction,
+  TestAction,
+} from '~/types/actions';
 import type { BoltArtifactData } from '~/types/artifact';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
@@ -7,6 +17,10 @@ const ARTIFACT_TAG_OPEN = '<boltArtifact';
 const ARTIFACT_TAG_CLOSE = '</boltArtifact>';
 const ARTIFACT_ACTION_TAG_OPEN = '<boltAction';
 const ARTIFACT_ACTION_TAG_CLOSE = '</boltAction>';
+const CDATA_OPEN = '<![CDATA[';
+const CDATA_CLOSE = ']]>';
+
+const FILE_PATH_ACTION_TYPES: ActionType[] = ['file', 'patch', 'delete', 'move', 'mkdir'];
 
 const logger = createScopedLogger('MessageParser');
 
@@ -36,7 +50,7 @@ interface ElementFactoryProps {
   messageId: string;
 }
 
-type ElementFactory = (props: ElementFactoryProps) => string;
+export type ElementFactory = (props: ElementFactoryProps) => string;
 
 export interface StreamingMessageParserOptions {
   callbacks?: ParserCallbacks;
@@ -97,14 +111,14 @@ export class StreamingMessageParser {
         }
 
         if (state.insideAction) {
-          const closeIndex = input.indexOf(ARTIFACT_ACTION_TAG_CLOSE, i);
+          const closeIndex = findActionCloseIndex(input, i);
 
           const currentAction = state.currentAction;
 
           if (closeIndex !== -1) {
             currentAction.content += input.slice(i, closeIndex);
 
-            let content = currentAction.content.trim();
+            let content = unwrapCdata(currentAction.content).trim();
 
             if ('type' in currentAction && currentAction.type === 'file') {
               // Remove markdown code block syntax if present and file is not markdown
@@ -113,6 +127,9 @@ export class StreamingMessageParser {
               }
 
               content += '\n';
+            } else if ('type' in currentAction && currentAction.type === 'patch') {
+              // diffs are sometimes wrapped in a ```diff code block
+              content = cleanoutMarkdownSyntax(content);
             }
 
             currentAction.content = content;
@@ -137,7 +154,7 @@ export class StreamingMessageParser {
             i = closeIndex + ARTIFACT_ACTION_TAG_CLOSE.length;
           } else {
             if ('type' in currentAction && currentAction.type === 'file') {
-              let content = input.slice(i);
+              let content = unwrapCdata(input.slice(i));
 
               if (!currentAction.filePath.endsWith('.md')) {
                 content = cleanoutMarkdownSyntax(content);
@@ -162,20 +179,34 @@ export class StreamingMessageParser {
           const artifactCloseIndex = input.indexOf(ARTIFACT_TAG_CLOSE, i);
 
           if (actionOpenIndex !== -1 && (artifactCloseIndex === -1 || actionOpenIndex < artifactCloseIndex)) {
-            const actionEndIndex = input.indexOf('>', actionOpenIndex);
+            const actionEndIndex = findTagEnd(input, actionOpenIndex);
 
             if (actionEndIndex !== -1) {
-              state.insideAction = true;
-
               state.currentAction = this.#parseActionTag(input, actionOpenIndex, actionEndIndex);
 
+              const actionId = String(state.actionId++);
+
               this._options.callbacks?.onActionOpen?.({
                 artifactId: currentArtifact.id,
                 messageId,
-                actionId: String(state.actionId++),
+                actionId,
                 action: state.currentAction as BoltAction,
               });
 
+              if (input[actionEndIndex - 1] === '/') {
+                // self-closing actions like `<boltAction type="delete" filePath="..." />` don't have any content
+                this._options.callbacks?.onActionClose?.({
+                  artifactId: currentArtifact.id,
+                  messageId,
+                  actionId,
+                  action: state.currentAction as BoltAction,
+                });
+
+                state.currentAction = { content: '' };
+              } else {
+                state.insideAction = true;
+              }
+
               i = actionEndIndex + 1;
             } else {
               break;
@@ -201,13 +232,13 @@ export class StreamingMessageParser {
           if (potentialTag === ARTIFACT_TAG_OPEN) {
             const nextChar = input[j + 1];
 
-            if (nextChar && nextChar !== '>' && nextChar !== ' ') {
+            if (nextChar && nextChar !== '>' && !/\s/.test(nextChar)) {
               output += input.slice(i, j + 1);
               i = j + 1;
               break;
             }
 
-            const openTagEnd = input.indexOf('>', j);
+            const openTagEnd = findTagEnd(input, j);
 
             if (openTagEnd !== -1) {
               const artifactTag = input.slice(i, openTagEnd + 1);
@@ -282,33 +313,235 @@ export class StreamingMessageParser {
 
     const actionType = this.#extractAttribute(actionTag, 'type') as ActionType;
 
-    const actionAttributes = {
+    const actionAttributes: BaseAction & { type: ActionType } = {
       type: actionType,
       content: '',
     };
 
-    if (actionType === 'file') {
+    const id = this.#extractAttribute(actionTag, 'id');
+
+    if (id) {
+      actionAttributes.id = id;
+    }
+
+    const dependsOn = this.#extractAttribute(actionTag, 'dependsOn');
+
+    if (dependsOn) {
+      actionAttributes.dependsOn = dependsOn.split(/[\s,]+/).filter(Boolean);
+    }
+
+    if (FILE_PATH_ACTION_TYPES.includes(actionType)) {
       const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
 
       if (!filePath) {
-        logger.debug('File path not specified');
+        logger.debug(`File path not specified for ${actionType} action`);
       }
 
       (actionAttributes as FileAction).filePath = filePath;
-    } else if (!['shell', 'start'].includes(actionType)) {
+
+      if (actionType === 'file') {
+        const encoding = this.#extractAttribute(actionTag, 'encoding');
+
+        if (encoding === 'base64' || encoding === 'utf8') {
+          (actionAttributes as FileAction).encoding = encoding;
+        } else if (encoding) {
+          logger.warn(`Ignoring unknown encoding '${encoding}'`);
+        }
+      }
+
+      if (actionType === 'move') {
+        const newFilePath = this.#extractAttribute(actionTag, 'newFilePath') as string;
+
+        if (!newFilePath) {
+          logger.debug('New file path not specified for move action');
+        }
+
+        (actionAttributes as MoveAction).newFilePath = newFilePath;
+      }
+    } else if (['shell', 'start', 'test'].includes(actionType)) {
+      const timeout = this.#extractNumberAttribute(actionTag, 'timeout');
+
+      if (timeout !== undefined) {
+        (actionAttributes as ShellAction).timeout = timeout;
+      }
+
+      const retries = this.#extractNumberAttribute(actionTag, 'retries');
+
+      if (retries !== undefined) {
+        (actionAttributes as ShellAction).retries = retries;
+      }
+
+      if (actionType === 'test') {
+        const framework = this.#extractAttribute(actionTag, 'framework');
+
+        if (framework === 'vitest' || framework === 'jest') {
+          (actionAttributes as TestAction).framework = framework;
+        } else if (framework) {
+          logger.warn(`Ignoring unknown test framework '${framework}'`);
+        }
+      }
+
+      if (actionType === 'start') {
+        const port = this.#extractNumberAttribute(actionTag, 'port');
+
+        if (port !== undefined) {
+          (actionAttributes as StartAction).port = port;
+        }
+
+        const readyPattern = this.#extractAttribute(actionTag, 'readyPattern');
+
+        if (readyPattern) {
+          (actionAttributes as StartAction).readyPattern = readyPattern;
+        }
+      }
+    } else {
       logger.warn(`Unknown action type '${actionType}'`);
     }
 
-    return actionAttributes as FileAction | ShellAction;
+    return actionAttributes as BoltAction;
+  }
+
+  #extractNumberAttribute(tag: string, attributeName: string): number | undefined {
+    const value = this.#extractAttribute(tag, attributeName);
+
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const number = Number(value);
+
+    if (!Number.isFinite(number) || number < 0) {
+      logger.warn(`Ignoring invalid ${attributeName} '${value}'`);
+      return undefined;
+    }
+
+    return number;
   }
 
   #extractAttribute(tag: string, attributeName: string): string | undefined {
-    const match = tag.match(new RegExp(`${attributeName}="([^"]*)"`, 'i'));
-    return match ? match[1] : undefined;
+    return parseAttributes(tag)[attributeName.toLowerCase()];
   }
 }
 
-const createArtifactElement: ElementFactory = (props) => {
+/**
+ * Escapes action content so it can't end the action early. Content containing a closing action tag
+ * (or something that looks like CDATA itself) is wrapped in CDATA sections, everything else is kept as is.
+ */
+export function escapeActionContent(content: string) {
+  if (!content.includes(ARTIFACT_ACTION_TAG_CLOSE) && !content.includes(CDATA_OPEN)) {
+    return content;
+  }
+
+  // `]]>` can't appear inside a CDATA section, so we split it across two sections
+  return `${CDATA_OPEN}${content.replaceAll(CDATA_CLOSE, `]]${CDATA_CLOSE}${CDATA_OPEN}>`)}${CDATA_CLOSE}`;
+}
+
+export function createFileActionTag(filePath: string, content: string) {
+  return `<boltAction type="file" filePath="${escapeAttributeValue(filePath)}">
+${escapeActionContent(content)}
+</boltAction>`;
+}
+
+export function escapeAttributeValue(value: string) {
+  return value.replace(/[&"'<>]/g, (char) => ENTITIES_BY_CHAR[char]);
+}
+
+const ENTITIES_BY_CHAR: Record<string, string> = {
+  '&': '&amp;',
+  '"': '&quot;',
+  "'": '&apos;',
+  '<': '&lt;',
+  '>': '&gt;',
+};
+
+const CHARS_BY_ENTITY = Object.fromEntries(Object.entries(ENTITIES_BY_CHAR).map(([char, entity]) => [entity, char]));
+
+/**
+ * Parses the attributes of an opening tag. Values can be double quoted, single quoted or unquoted and
+ * names are matched case-insensitively.
+ */
+export function parseAttributes(tag: string) {
+  const attributes: Record<string, string> = {};
+  const attributeRegex = /([^\s=/>"']+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+?)(?=\s|\/?>|$))/g;
+
+  // skip the tag name
+  const start = tag.search(/[\s/>]/);
+
+  for (const match of tag.slice(start === -1 ? tag.length : start).matchAll(attributeRegex)) {
+    const [, name, doubleQuoted, singleQuoted, unquoted] = match;
+    const value = doubleQuoted ?? singleQuoted ?? unquoted;
+    const key = name.toLowerCase();
+
+    // the first occurrence wins, just like in HTML
+    if (!(key in attributes)) {
+      attributes[key] = value.replace(/&(amp|quot|apos|lt|gt);/g, (entity) => CHARS_BY_ENTITY[entity]);
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Finds the `>` that ends the tag starting at `start`, ignoring any `>` inside quoted attribute values.
+ */
+function findTagEnd(input: string, start: number) {
+  let quote: string | undefined;
+
+  for (let i = start; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Finds the closing action tag, skipping over CDATA sections. Returns `-1` while a CDATA section or
+ * the action itself is still incomplete.
+ */
+function findActionCloseIndex(input: string, start: number) {
+  let i = start;
+
+  while (true) {
+    const closeIndex = input.indexOf(ARTIFACT_ACTION_TAG_CLOSE, i);
+    const cdataIndex = input.indexOf(CDATA_OPEN, i);
+
+    if (cdataIndex === -1 || (closeIndex !== -1 && closeIndex < cdataIndex)) {
+      return closeIndex;
+    }
+
+    const cdataEnd = input.indexOf(CDATA_CLOSE, cdataIndex + CDATA_OPEN.length);
+
+    if (cdataEnd === -1) {
+      return -1;
+    }
+
+    i = cdataEnd + CDATA_CLOSE.length;
+  }
+}
+
+/**
+ * Replaces CDATA sections with their content. An unterminated section at the end, which happens
+ * while streaming, is unwrapped as well.
+ */
+function unwrapCdata(content: string) {
+  if (!content.includes(CDATA_OPEN)) {
+    return content;
+  }
+
+  return content.replace(/<!\[CDATA\[([\s\S]*?)(?:\]\]>|$)/g, '$1');
+}
+
+export const createArtifactElement: ElementFactory = (props) => {
   const elementProps = [
     'class="__boltArtifact__"',
     ...Object.entries(props).map(([key, value]) => {
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createTestCommand, detectTestFramework, formatTestReport, parseTestReport } from './test-report';
+
+describe('detectTestFramework', () => {
+  it('should prefer the explicit framework', () => {
+    expect(detectTestFramework('npx vitest run', 'jest')).toBe('jest');
+  });
+
+  it('should detect the framework from the command or package.json', () => {
+    expect(detectTestFramework('npx vitest run')).toBe('vitest');
+    expect(detectTestFramework('npm test', undefined, { scripts: { test: 'jest --coverage' } })).toBe('jest');
+    expect(detectTestFramework('npm test', undefined, { devDependencies: { vitest: '^2.0.0' } })).toBe('vitest');
+    expect(detectTestFramework('npm test', undefined, { scripts: { test: 'mocha' } })).toBeUndefined();
+  });
+});
+
+describe('createTestCommand', () => {
+  it('should add the reporter flags', () => {
+    expect(createTestCommand('npx vitest run', 'vitest', 'report.json')).toBe(
+      'npx vitest run --reporter=default --reporter=json --outputFile=report.json',
+    );
+    expect(createTestCommand('npx jest', 'jest', 'report.json')).toBe('npx jest --json --outputFile=report.json');
+  });
+
+  it('should forward the flags through npm scripts', () => {
+    expect(createTestCommand('npm test', 'jest', 'report.json')).toBe('npm test -- --json --outputFile=report.json');
+    expect(createTestCommand('npm run test:unit -- --bail', 'jest', 'report.json')).toBe(
+      'npm run test:unit -- --bail --json --outputFile=report.json',
+    );
+  });
+});
+
+describe('parseTestReport', () => {
+  const json = JSON.stringify({
+    testResults: [
+      {
+        name: '/home/project/src/math.test.ts',
+        status: 'failed',
+        assertionResults: [
+          { fullName: 'math adds', title: 'adds', status: 'passed', failureMessages: [] },
+          {
+            fullName: 'math divides',
+            title: 'divides',
+            status: 'failed',
+            failureMessages: ['\x1b[31mAssertionError: expected 2 to be 3\x1b[39m'],
+          },
+          { ancestorTitles: ['math'], title: 'rounds', status: 'pending', failureMessages: [] },
+        ],
+      },
+      {
+        name: '/home/project/src/broken.test.ts',
+        status: 'failed',
+        message: 'SyntaxError: Unexpected token',
+        assertionResults: [],
+      },
+    ],
+  });
+
+  it('should collect the results of every test', () => {
+    const report = parseTestReport(json, '/home/project');
+
+    expect(report).toMatchObject({ passed: 1, failed: 2, skipped: 1 });
+    expect(report?.tests).toContainEqual({
+      file: 'src/math.test.ts',
+      name: 'math divides',
+      status: 'failed',
+      message: 'AssertionError: expected 2 to be 3',
+    });
+    expect(report?.tests).toContainEqual(expect.objectContaining({ name: 'math > rounds', status: 'skipped' }));
+    expect(report?.tests).toContainEqual(
+      expect.objectContaining({ file: 'src/broken.test.ts', message: 'SyntaxError: Unexpected token' }),
+    );
+  });
+
+  it('should only list failing tests for the model', () => {
+    const report = parseTestReport(json, '/home/project')!;
+
+    expect(formatTestReport('npm test', report)).toBe(
+      [
+        '`npm test`: 1 passed, 2 failed, 1 skipped',
+        'FAILED src/math.test.ts > math divides\nAssertionError: expected 2 to be 3',
+        'FAILED src/broken.test.ts > src/broken.test.ts\nSyntaxError: Unexpected token',
+      ].join('\n\n'),
+    );
+  });
+
+  it('should ignore invalid reports', () => {
+    expect(parseTestReport('not json', '/home/project')).toBeUndefined();
+    expect(parseTestReport('{}', '/home/project')).toBeUndefined();
+  });
+});
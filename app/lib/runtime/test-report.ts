@@ -0,0 +1,153 @@
+import * as nodePath from 'node:path';
+import type { TestFramework } from '~/types/actions';
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCaseResult {
+  file: string;
+  name: string;
+  status: TestStatus;
+  message?: string;
+}
+
+export interface TestReport {
+  passed: number;
+  failed: number;
+  skipped: number;
+  tests: TestCaseResult[];
+}
+
+export const DEFAULT_TEST_COMMAND = 'npm test';
+
+// failure messages can contain whole stack traces, the model only needs the beginning
+const MAX_FAILURE_MESSAGE_LENGTH = 500;
+const MAX_REPORTED_FAILURES = 10;
+
+/**
+ * Picks the test framework from the explicit attribute, the command itself or the `test` script and
+ * dependencies in `package.json`.
+ */
+export function detectTestFramework(
+  command: string,
+  framework?: TestFramework,
+  packageJson?: { scripts?: Record<string, string>; devDependencies?: Record<string, string> },
+): TestFramework | undefined {
+  if (framework) {
+    return framework;
+  }
+
+  for (const source of [command, packageJson?.scripts?.test ?? '']) {
+    if (/\bvitest\b/.test(source)) {
+      return 'vitest';
+    }
+
+    if (/\bjest\b/.test(source)) {
+      return 'jest';
+    }
+  }
+
+  const devDependencies = packageJson?.devDependencies ?? {};
+
+  if (devDependencies.vitest) {
+    return 'vitest';
+  }
+
+  if (devDependencies.jest) {
+    return 'jest';
+  }
+
+  return undefined;
+}
+
+/**
+ * Adds the flags that make the framework write a JSON report to `outputFile`. Both frameworks use
+ * the same report format.
+ */
+export function createTestCommand(command: string, framework: TestFramework, outputFile: string) {
+  const flags =
+    framework === 'vitest'
+      ? `--reporter=default --reporter=json --outputFile=${outputFile}`
+      : `--json --outputFile=${outputFile}`;
+
+  // npm only forwards arguments to the script after a `--`
+  const separator = /(^|&&\s*)npm\s+(test|t|run\s+\S+)\b(?!.*\s--(\s|$))/.test(command) ? ' --' : '';
+
+  return `${command.trim()}${separator} ${flags}`;
+}
+
+export function parseTestReport(json: string, workdir: string): TestReport | undefined {
+  let data: any;
+
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+
+  if (!Array.isArray(data?.testResults)) {
+    return undefined;
+  }
+
+  const tests: TestCaseResult[] = [];
+
+  for (const fileResult of data.testResults) {
+    const file = nodePath.relative(workdir, String(fileResult.name ?? ''));
+    const assertions: any[] = Array.isArray(fileResult.assertionResults) ? fileResult.assertionResults : [];
+
+    for (const assertion of assertions) {
+      const failureMessages: string[] = assertion.failureMessages ?? [];
+
+      tests.push({
+        file,
+        name: assertion.fullName || [...(assertion.ancestorTitles ?? []), assertion.title].join(' > '),
+        status: assertion.status === 'passed' ? 'passed' : assertion.status === 'failed' ? 'failed' : 'skipped',
+        message: failureMessages.length > 0 ? stripAnsi(failureMessages.join('\n')) : undefined,
+      });
+    }
+
+    // files that fail to load, e.g. because of a syntax error, don't report any tests
+    if (fileResult.status === 'failed' && !assertions.some((assertion) => assertion.status === 'failed')) {
+      tests.push({
+        file,
+        name: file,
+        status: 'failed',
+        message: stripAnsi(fileResult.message || 'The test file failed to run'),
+      });
+    }
+  }
+
+  return {
+    passed: tests.filter((test) => test.status === 'passed').length,
+    failed: tests.filter((test) => test.status === 'failed').length,
+    skipped: tests.filter((test) => test.status === 'skipped').length,
+    tests,
+  };
+}
+
+export function getTestSummary(report: TestReport) {
+  return `${report.passed} passed, ${report.failed} failed, ${report.skipped} skipped`;
+}
+
+/**
+ * Describes a test run for the model, only failing tests are listed.
+ */
+export function formatTestReport(command: string, report: TestReport) {
+  const failures = report.tests.filter((test) => test.status === 'failed');
+  const lines = [`\`${command}\`: ${getTestSummary(report)}`];
+
+  for (const failure of failures.slice(0, MAX_REPORTED_FAILURES)) {
+    const message = (failure.message ?? '').slice(0, MAX_FAILURE_MESSAGE_LENGTH);
+
+    lines.push(`FAILED ${failure.file} > ${failure.name}${message ? `\n${message}` : ''}`);
+  }
+
+  if (failures.length > MAX_REPORTED_FAILURES) {
+    lines.push(`...and ${failures.length - MAX_REPORTED_FAILURES} more failing tests`);
+  }
+
+  return lines.join('\n\n');
+}
+
+function stripAnsi(text: string) {
+  return text.replace(/\x1b\[[0-9;]*m/g, '');
+}
@@ -0,0 +1,75 @@
+import type { ToolInvocation } from 'ai';
+import { describe, expect, it, vi } from 'vitest';
+import { ToolCallParser } from './tool-call-parser';
+
+describe('ToolCallParser', () => {
+  it('should turn tool calls into actions of a single artifact', () => {
+    const { parser, callbacks } = createParser();
+
+    const invocations: ToolInvocation[] = [
+      {
+        state: 'result',
+        toolCallId: 'call-1',
+        toolName: 'writeFile',
+        args: { filePath: 'index.js', content: 'console.log(1);' },
+        result: '',
+      },
+      { state: 'call', toolCallId: 'call-2', toolName: 'runShell', args: { command: 'npm install' } },
+      { state: 'partial-call', toolCallId: 'call-3', toolName: 'startServer', args: {} },
+    ];
+
+    expect(parser.parse('message_1', invocations, false)).toBe(
+      '<div class="__boltArtifact__" data-message-id="message_1"></div>',
+    );
+
+    expect(callbacks.onArtifactOpen).toHaveBeenCalledWith({
+      messageId: 'message_1',
+      id: 'tool-calls-message_1',
+      title: 'Workbench Actions',
+    });
+    expect(callbacks.onActionClose.mock.calls.map(([data]) => [data.actionId, data.action])).toEqual([
+      ['call-1', { type: 'file', filePath: 'index.js', content: 'console.log(1);' }],
+      ['call-2', { type: 'shell', content: 'npm install' }],
+    ]);
+    expect(callbacks.onArtifactClose).not.toHaveBeenCalled();
+
+    invocations[2] = { state: 'call', toolCallId: 'call-3', toolName: 'startServer', args: { command: 'npm run dev' } };
+
+    expect(parser.parse('message_1', invocations, true)).toBe('');
+    expect(callbacks.onActionOpen).toHaveBeenCalledTimes(3);
+    expect(callbacks.onActionClose).toHaveBeenLastCalledWith(
+      expect.objectContaining({ actionId: 'call-3', action: { type: 'start', content: 'npm run dev' } }),
+    );
+    expect(callbacks.onArtifactClose).toHaveBeenCalledTimes(1);
+
+    parser.parse('message_1', invocations, true);
+
+    expect(callbacks.onArtifactClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore unknown tools and messages without tool calls', () => {
+    const { parser, callbacks } = createParser();
+
+    expect(parser.parse('message_1', [], true)).toBe('');
+    expect(parser.parse('message_2', [{ state: 'call', toolCallId: 'a', toolName: 'search', args: {} }], true)).toBe(
+      '',
+    );
+
+    expect(callbacks.onArtifactOpen).not.toHaveBeenCalled();
+    expect(callbacks.onActionClose).not.toHaveBeenCalled();
+    expect(callbacks.onArtifactClose).not.toHaveBeenCalled();
+  });
+});
+
+function createParser() {
+  const callbacks = {
+    onArtifactOpen: vi.fn(),
+    onArtifactClose: vi.fn(),
+    onActionOpen: vi.fn(),
+    onActionClose: vi.fn(),
+  };
+
+  const parser = new ToolCallParser({ callbacks });
+
+  return { parser, callbacks };
+}
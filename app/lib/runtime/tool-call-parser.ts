@@ -0,0 +1,106 @@
+import type { ToolInvocation } from 'ai';
+import { createArtifactElement, type StreamingMessageParserOptions } from './message-parser';
+import type { BoltArtifactData } from '~/types/artifact';
+import type { BoltAction } from '~/types/actions';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ToolCallParser');
+
+const TOOL_CALL_ARTIFACT_TITLE = 'Workbench Actions';
+
+interface ToolCallState {
+  artifact?: BoltArtifactData;
+  closed: boolean;
+  handledCalls: Set<string>;
+}
+
+/**
+ * Turns the tool calls of a message into the same callbacks `StreamingMessageParser` emits for
+ * `<boltArtifact>` tags, all tool calls of a message are collected in a single artifact.
+ */
+export class ToolCallParser {
+  #messages = new Map<string, ToolCallState>();
+
+  constructor(private _options: StreamingMessageParserOptions = {}) {}
+
+  /**
+   * @param done whether the message is complete, closes the artifact of the message
+   * @returns the artifact element the first time the message has a tool call
+   */
+  parse(messageId: string, toolInvocations: ToolInvocation[], done: boolean) {
+    let state = this.#messages.get(messageId);
+
+    if (!state) {
+      state = { closed: false, handledCalls: new Set() };
+      this.#messages.set(messageId, state);
+    }
+
+    const callbacks = this._options.callbacks;
+
+    let output = '';
+
+    for (const invocation of toolInvocations) {
+      // arguments of partial calls are incomplete JSON, the action is added once the call is complete
+      if (invocation.state === 'partial-call' || state.handledCalls.has(invocation.toolCallId)) {
+        continue;
+      }
+
+      state.handledCalls.add(invocation.toolCallId);
+
+      const action = toolCallToAction(invocation.toolName, invocation.args);
+
+      if (!action) {
+        logger.warn(`Unknown tool '${invocation.toolName}'`);
+        continue;
+      }
+
+      if (!state.artifact) {
+        state.artifact = { id: `tool-calls-${messageId}`, title: TOOL_CALL_ARTIFACT_TITLE };
+
+        callbacks?.onArtifactOpen?.({ messageId, ...state.artifact });
+
+        const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+
+        output += artifactFactory({ messageId });
+      }
+
+      const data = { artifactId: state.artifact.id, messageId, actionId: invocation.toolCallId, action };
+
+      callbacks?.onActionOpen?.(data);
+      callbacks?.onActionClose?.(data);
+    }
+
+    if (done && state.artifact && !state.closed) {
+      state.closed = true;
+      callbacks?.onArtifactClose?.({ messageId, ...state.artifact });
+    }
+
+    return output;
+  }
+
+  reset() {
+    this.#messages.clear();
+  }
+}
+
+export function toolCallToAction(toolName: string, args: Record<string, any>): BoltAction | undefined {
+  switch (toolName) {
+    case 'writeFile': {
+      return {
+        type: 'file',
+        filePath: String(args.filePath ?? ''),
+        content: String(args.content ?? ''),
+        ...(args.encoding === 'base64' ? { encoding: 'base64' } : {}),
+      };
+    }
+    case 'runShell': {
+      return { type: 'shell', content: String(args.command ?? '') };
+    }
+    case 'startServer': {
+      return { type: 'start', content: String(args.command ?? '') };
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
@@ -1,7 +1,13 @@
-import { map } from 'nanostores';
+import { atom, map } from 'nanostores';
+import type { ContextAllocation } from '~/types/context';
 
 export const chatStore = map({
   started: false,
   aborted: false,
   showChat: true,
 });
+
+/**
+ * How the context window was split up for the latest response, shown in the debug tab.
+ */
+export const contextAllocationStore = atom<ContextAllocation | undefined>(undefined);
@@ -0,0 +1,147 @@
+import type { WebContainer } from '@webcontainer/api';
+import { describe, expect, it } from 'vitest';
+import { FilesStore, withoutBinaryFiles, type FileMap } from './files';
+
+describe('FilesStore', () => {
+  describe('restoreSnapshot', () => {
+    it('should restore changed files and delete created ones', async () => {
+      const { store, operations } = createStore({
+        '/home/project/src': { type: 'folder' },
+        '/home/project/src/index.js': { type: 'file', content: 'old', isBinary: false },
+        '/home/project/src/other.js': { type: 'file', content: 'untouched', isBinary: false },
+      });
+
+      const snapshot = store.files.get();
+
+      store.files.setKey('/home/project/src/index.js', { type: 'file', content: 'new', isBinary: false });
+      store.files.setKey('/home/project/src/created.js', { type: 'file', content: 'created', isBinary: false });
+
+      await store.restoreSnapshot(snapshot, ['/home/project/src/index.js', '/home/project/src/created.js']);
+
+      expect(operations).toEqual(['writeFile src/index.js', 'rm src/created.js']);
+      expect(store.files.get()).toEqual(snapshot);
+    });
+
+    it('should restore binary files from their base64 content', async () => {
+      const { store, operations } = createStore({
+        '/home/project/icon.png': { type: 'file', content: 'iVBORw==', isBinary: true },
+      });
+
+      const snapshot = store.files.get();
+
+      await store.deletePath('/home/project/icon.png');
+      operations.length = 0;
+
+      await store.restoreSnapshot(snapshot, ['/home/project/icon.png']);
+
+      expect(operations).toEqual(['writeFile icon.png (4 bytes)']);
+      expect(store.files.get()).toEqual(snapshot);
+    });
+
+    it('should bring back moved folders', async () => {
+      const { store, operations } = createStore({
+        '/home/project/lib': { type: 'folder' },
+        '/home/project/lib/a.js': { type: 'file', content: 'a', isBinary: false },
+      });
+
+      const snapshot = store.files.get();
+
+      await store.movePath('/home/project/lib', '/home/project/src');
+      operations.length = 0;
+
+      await store.restoreSnapshot(snapshot, ['/home/project/lib', '/home/project/src']);
+
+      expect(operations).toEqual(['mkdir lib', 'writeFile lib/a.js', 'rm src']);
+      expect(store.files.get()).toEqual(snapshot);
+    });
+  });
+});
+
+describe('FilesStore.readSnapshot', () => {
+  it('should read a path and everything below it from disk', async () => {
+    const { store } = createStore(
+      { '/home/project/src/index.js': { type: 'file', content: 'stale', isBinary: false } },
+      {
+        'src/index.js': 'written',
+        'src/icon.png': new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00]),
+        'src/node_modules/lib/index.js': 'ignored',
+      },
+    );
+
+    expect(await store.readSnapshot('/home/project/src')).toEqual({
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/index.js': { type: 'file', content: 'written', isBinary: false },
+      '/home/project/src/icon.png': { type: 'file', content: 'iVBORwAA', isBinary: true },
+    });
+    expect(await store.readSnapshot('/home/project/missing.js')).toEqual({});
+  });
+});
+
+describe('withoutBinaryFiles', () => {
+  it('should leave out binary files but keep folders and text files', () => {
+    expect(
+      withoutBinaryFiles({
+        '/home/project/src': { type: 'folder' },
+        '/home/project/src/index.js': { type: 'file', content: 'code', isBinary: false },
+        '/home/project/icon.png': { type: 'file', content: 'iVBORw==', isBinary: true },
+      }),
+    ).toEqual({
+      '/home/project/src': { type: 'folder' },
+      '/home/project/src/index.js': { type: 'file', content: 'code', isBinary: false },
+    });
+  });
+});
+
+function createStore(files: FileMap, disk: Record<string, string | Uint8Array> = {}) {
+  const operations: string[] = [];
+  const children = (path: string) =>
+    Object.keys(disk)
+      .filter((diskPath) => diskPath.startsWith(`${path}/`))
+      .map((diskPath) => diskPath.slice(path.length + 1).split('/')[0]);
+
+  const webcontainer = {
+    workdir: '/home/project',
+    internal: {
+      watchPaths() {
+        // noop
+      },
+    },
+    fs: {
+      async mkdir(path: string) {
+        operations.push(`mkdir ${path}`);
+      },
+      async writeFile(path: string, content: string | Uint8Array) {
+        operations.push(
+          typeof content === 'string' ? `writeFile ${path}` : `writeFile ${path} (${content.length} bytes)`,
+        );
+      },
+      async rm(path: string) {
+        operations.push(`rm ${path}`);
+      },
+      async rename(path: string, newPath: string) {
+        operations.push(`rename ${path} ${newPath}`);
+      },
+      async readdir(path: string) {
+        if (children(path).length === 0) {
+          throw new Error('ENOTDIR');
+        }
+
+        return [...new Set(children(path))].map((name) => ({ name }));
+      },
+      async readFile(path: string) {
+        const content = disk[path];
+
+        if (content === undefined) {
+          throw new Error('ENOENT');
+        }
+
+        return typeof content === 'string' ? new TextEncoder().encode(content) : content;
+      },
+    },
+  } as unknown as WebContainer;
+
+  const store = new FilesStore(Promise.resolve(webcontainer));
+  store.files.set(files);
+
+  return { store, operations };
+}
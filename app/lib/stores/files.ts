@@ -13,8 +13,14 @@ const logger = createScopedLogger('FilesStore');
 
 const utf8TextDecoder = new TextDecoder('utf8', { fatal: true });
 
+const IGNORED_FOLDERS = ['node_modules', '.git'];
+
 export interface File {
   type: 'file';
+
+  /**
+   * Base64 encoded for binary files.
+   */
   content: string;
   isBinary: boolean;
 }
@@ -113,6 +119,182 @@ export class FilesStore {
     }
   }
 
+  async deletePath(filePath: string) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#toRelativePath(webcontainer, filePath, 'rm');
+
+    await webcontainer.fs.rm(relativePath, { recursive: true, force: true });
+
+    // we immediately update the files and don't rely on the `remove` events coming from the watcher
+    this.#removeDirents(filePath);
+
+    logger.info(`Deleted ${relativePath}`);
+  }
+
+  async movePath(filePath: string, newFilePath: string) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#toRelativePath(webcontainer, filePath, 'rename');
+    const newRelativePath = this.#toRelativePath(webcontainer, newFilePath, 'rename');
+
+    const folder = nodePath.dirname(newRelativePath);
+
+    if (folder !== '.') {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+
+    await webcontainer.fs.rename(relativePath, newRelativePath);
+
+    const files = this.files.get();
+
+    for (const [direntPath, dirent] of Object.entries(files)) {
+      if (dirent && (direntPath === filePath || direntPath.startsWith(`${filePath}/`))) {
+        this.files.setKey(`${newFilePath}${direntPath.slice(filePath.length)}`, dirent);
+      }
+    }
+
+    this.#removeDirents(filePath);
+
+    logger.info(`Moved ${relativePath} to ${newRelativePath}`);
+  }
+
+  async createFolder(folderPath: string) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#toRelativePath(webcontainer, folderPath, 'mkdir');
+
+    await webcontainer.fs.mkdir(relativePath, { recursive: true });
+
+    let currentPath = folderPath;
+
+    while (currentPath.startsWith(`${webcontainer.workdir}/`) && !this.files.get()[currentPath]) {
+      this.files.setKey(currentPath, { type: 'folder' });
+      currentPath = nodePath.dirname(currentPath);
+    }
+
+    logger.info(`Created folder ${relativePath}`);
+  }
+
+  /**
+   * Writes a text file, or a binary file if the content is given as bytes.
+   */
+  async writeFile(filePath: string, content: string | Uint8Array) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#toRelativePath(webcontainer, filePath, 'write');
+    const folder = nodePath.dirname(relativePath);
+
+    if (folder !== '.' && !this.files.get()[nodePath.dirname(filePath)]) {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+
+    const oldFile = this.getFile(filePath);
+    const isBinary = typeof content !== 'string';
+
+    await webcontainer.fs.writeFile(relativePath, content);
+
+    // diffs of binary files are useless to the model, so they aren't tracked as modifications
+    if (oldFile && !oldFile.isBinary && !isBinary && !this.#modifiedFiles.has(filePath)) {
+      this.#modifiedFiles.set(filePath, oldFile.content);
+    }
+
+    this.files.setKey(filePath, {
+      type: 'file',
+      content: isBinary ? convertToBuffer(content).toString('base64') : content,
+      isBinary,
+    });
+  }
+
+  /**
+   * Reads a path and everything below it from the WebContainer, in the shape of `files`. The map lags behind
+   * until the watcher reports a write, so snapshots of files that were just written need the disk. Paths that
+   * don't exist are left out.
+   */
+  async readSnapshot(filePath: string): Promise<FileMap> {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#toRelativePath(webcontainer, filePath, 'read');
+
+    const entries = await webcontainer.fs.readdir(relativePath, { withFileTypes: true }).catch(() => undefined);
+
+    if (entries) {
+      const snapshot: FileMap = { [filePath]: { type: 'folder' } };
+
+      // the watcher skips these as well
+      for (const entry of entries.filter((entry) => !IGNORED_FOLDERS.includes(entry.name))) {
+        Object.assign(snapshot, await this.readSnapshot(nodePath.join(filePath, entry.name)));
+      }
+
+      return snapshot;
+    }
+
+    const buffer = await webcontainer.fs.readFile(relativePath).catch(() => undefined);
+
+    if (!buffer) {
+      return {};
+    }
+
+    const isBinary = isBinaryFile(buffer);
+    const content = isBinary ? convertToBuffer(buffer).toString('base64') : this.#decodeFileContent(buffer);
+
+    return { [filePath]: { type: 'file', content, isBinary } };
+  }
+
+  /**
+   * Restores the given paths, including everything below them, to the state of a previous `files` snapshot.
+   * Paths that didn't exist in the snapshot are deleted.
+   */
+  async restoreSnapshot(snapshot: FileMap, paths: string[]) {
+    for (const path of paths) {
+      const isAffected = (direntPath: string) => direntPath === path || direntPath.startsWith(`${path}/`);
+
+      if (!snapshot[path]) {
+        await this.deletePath(path);
+        continue;
+      }
+
+      // parents come first, so anything below a deleted folder is already gone when we get to it
+      const createdPaths = Object.keys(this.files.get())
+        .filter((direntPath) => isAffected(direntPath) && !snapshot[direntPath])
+        .sort((a, b) => a.length - b.length);
+
+      for (const createdPath of createdPaths) {
+        if (this.files.get()[createdPath]) {
+          await this.deletePath(createdPath);
+        }
+      }
+
+      for (const [direntPath, dirent] of Object.entries(snapshot)) {
+        if (!dirent || !isAffected(direntPath)) {
+          continue;
+        }
+
+        if (dirent.type === 'folder') {
+          await this.createFolder(direntPath);
+        } else if (this.getFile(direntPath)?.content !== dirent.content) {
+          await this.writeFile(direntPath, dirent.isBinary ? decodeBinaryContent(dirent.content) : dirent.content);
+        }
+      }
+    }
+
+    logger.info(`Restored ${paths.length} path(s)`);
+  }
+
+  #toRelativePath(webcontainer: WebContainer, filePath: string, operation: string) {
+    const relativePath = nodePath.relative(webcontainer.workdir, filePath);
+
+    if (!relativePath || relativePath.startsWith('..')) {
+      throw new Error(`EINVAL: invalid file path, ${operation} '${filePath}'`);
+    }
+
+    return relativePath;
+  }
+
+  #removeDirents(filePath: string) {
+    for (const direntPath of Object.keys(this.files.get())) {
+      if (direntPath === filePath || direntPath.startsWith(`${filePath}/`)) {
+        this.files.setKey(direntPath, undefined);
+        this.#modifiedFiles.delete(direntPath);
+      }
+    }
+  }
+
   async #init() {
     const webcontainer = await this.#webcontainer;
 
@@ -136,14 +318,7 @@ export class FilesStore {
           break;
         }
         case 'remove_dir': {
-          this.files.setKey(sanitizedPath, undefined);
-
-          for (const [direntPath] of Object.entries(this.files)) {
-            if (direntPath.startsWith(sanitizedPath)) {
-              this.files.setKey(direntPath, undefined);
-            }
-          }
-
+          this.#removeDirents(sanitizedPath);
           break;
         }
         case 'add_file':
@@ -152,19 +327,16 @@ export class FilesStore {
             this.#size++;
           }
 
-          let content = '';
-
           /**
            * @note This check is purely for the editor. The way we detect this is not
            * bullet-proof and it's a best guess so there might be false-positives.
            * The reason we do this is because we don't want to display binary files
-           * in the editor nor allow to edit them.
+           * in the editor nor allow to edit them. Their content is kept as base64 so
+           * they can still be restored, downloaded and synced.
            */
           const isBinary = isBinaryFile(buffer);
 
-          if (!isBinary) {
-            content = this.#decodeFileContent(buffer);
-          }
+          const content = isBinary ? convertToBuffer(buffer!).toString('base64') : this.#decodeFileContent(buffer);
 
           this.files.setKey(sanitizedPath, { type: 'file', content, isBinary });
 
@@ -214,3 +386,18 @@ function isBinaryFile(buffer: Uint8Array | undefined) {
 function convertToBuffer(view: Uint8Array): Buffer {
   return Buffer.from(view.buffer, view.byteOffset, view.byteLength);
 }
+
+/**
+ * Decodes the base64 content of a binary file back to its bytes.
+ */
+export function decodeBinaryContent(content: string) {
+  return new Uint8Array(Buffer.from(content, 'base64'));
+}
+
+/**
+ * The files without the binary ones, which only the WebContainer needs. Chat requests send this instead of
+ * every image and font in base64.
+ */
+export function withoutBinaryFiles(files: FileMap): FileMap {
+  return Object.fromEntries(Object.entries(files).filter(([, dirent]) => dirent?.type !== 'file' || !dirent.isBinary));
+}
@@ -19,6 +19,39 @@ export class PreviewsStore {
     this.#init();
   }
 
+  /**
+   * Resolves with the next port that opens, or only the given one. Ports that are open already only count
+   * once they close and open again, e.g. when a restarted dev server takes over the port.
+   */
+  waitForPort(port: number | undefined, signal: AbortSignal) {
+    return new Promise<number>((resolve) => {
+      const matches = (preview: PreviewInfo) => preview.ready && (port === undefined || preview.port === port);
+      const openPorts = new Set(
+        this.previews
+          .get()
+          .filter(matches)
+          .map((preview) => preview.port),
+      );
+
+      const unsubscribe = this.previews.listen((previews) => {
+        for (const openPort of openPorts) {
+          if (!previews.some((preview) => preview.port === openPort && preview.ready)) {
+            openPorts.delete(openPort);
+          }
+        }
+
+        const opened = previews.find((preview) => matches(preview) && !openPorts.has(preview.port));
+
+        if (opened) {
+          unsubscribe();
+          resolve(opened.port);
+        }
+      });
+
+      signal.addEventListener('abort', unsubscribe);
+    });
+  }
+
   async #init() {
     const webcontainer = await this.#webcontainer;
 
@@ -0,0 +1,40 @@
+import { map } from 'nanostores';
+import type { ProviderHealth } from '~/lib/modules/llm/types';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ProviderHealth');
+
+/**
+ * The last health check of each provider, shared by the debug tab and the model selector.
+ */
+export const providerHealthStore = map<Record<string, ProviderHealth>>({});
+
+export const checkingProvidersStore = map<Record<string, boolean>>({});
+
+/**
+ * Runs the server-side health check of the given providers, or of all enabled ones when none are given.
+ */
+export async function checkProviderHealth(providers: string[] = []) {
+  const params = new URLSearchParams(providers.map((provider) => ['provider', provider]));
+
+  providers.forEach((provider) => checkingProvidersStore.setKey(provider, true));
+
+  try {
+    const response = await fetch(`/api/providers/health?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`The health check failed with ${response.status}`);
+    }
+
+    const results = (await response.json()) as ProviderHealth[];
+
+    results.forEach((health) => providerHealthStore.setKey(health.provider, health));
+
+    return results;
+  } catch (error) {
+    logger.error('Failed to check the providers', error);
+    return [];
+  } finally {
+    providers.forEach((provider) => checkingProvidersStore.setKey(provider, false));
+  }
+}
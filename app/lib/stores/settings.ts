@@ -1,7 +1,11 @@
 import { atom, map } from 'nanostores';
 import { workbenchStore } from './workbench';
 import { PROVIDER_LIST } from '~/utils/constants';
-import type { IProviderConfig } from '~/types/model';
+import type { CustomProviderConfig, GenerationParameters, IProviderConfig, ModelFallback } from '~/types/model';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { CommandExecutionPolicy } from '~/types/actions';
+import { DEFAULT_COMMAND_POLICY, type CommandPolicy } from '~/lib/runtime/command-policy';
+import { DEFAULT_AUTO_FIX_SETTINGS, type AutoFixSettings } from '~/lib/runtime/auto-fix';
 
 export interface Shortcut {
   key: string;
@@ -19,6 +23,7 @@ export interface Shortcuts {
 
 export const URL_CONFIGURABLE_PROVIDERS = ['Ollama', 'LMStudio', 'OpenAILike'];
 export const LOCAL_PROVIDERS = ['OpenAILike', 'LMStudio', 'Ollama'];
+export const MOCK_PROVIDER = 'Mock';
 
 export type ProviderSetting = Record<string, IProviderConfig>;
 
@@ -50,9 +55,83 @@ export const isEventLogsEnabled = atom(false);
 
 export const isLocalModelsEnabled = atom(true);
 
+/**
+ * The provider that replays fixtures is a development tool, production builds neither register nor offer it.
+ */
+export const MOCK_PROVIDER_AVAILABLE = import.meta.env.DEV;
+
+/**
+ * Shows the provider that replays fixtures instead of calling a model, for trying out the chat offline.
+ */
+export const isMockProviderEnabled = atom(false);
+
 export const promptStore = atom<string>('default');
 
 export const latestBranchStore = atom(false);
 
 export const autoSelectStarterTemplate = atom(false);
 export const enableContextOptimizationStore = atom(false);
+export const autoRollbackStore = atom(false);
+export const toolCallingStore = atom(false);
+
+export type ShellExecutionSettings = Required<CommandExecutionPolicy>;
+
+/**
+ * Defaults for shell actions that don't specify a `timeout` or `retries` attribute.
+ */
+export const shellExecutionSettingsStore = map<ShellExecutionSettings>({
+  timeout: 300,
+  retries: 0,
+});
+
+/**
+ * Decides which shell commands run without asking the user first.
+ */
+export const commandPolicyStore = map<CommandPolicy>(DEFAULT_COMMAND_POLICY);
+
+/**
+ * Sends failed shell and start actions back to the model without waiting for the user.
+ */
+export const autoFixStore = map<AutoFixSettings>(DEFAULT_AUTO_FIX_SETTINGS);
+
+/**
+ * Models that take over, in order, when the selected model is rate limited or unavailable.
+ */
+export const fallbackModelsStore = atom<ModelFallback[]>([]);
+
+/**
+ * Generation parameters keyed by provider, or by provider and model for the ones that only apply to one model.
+ */
+export const generationParametersStore = map<Record<string, GenerationParameters>>({});
+
+/**
+ * OpenAI-compatible endpoints the user added, like a vLLM server or a LiteLLM gateway.
+ */
+export const customProvidersStore = atom<CustomProviderConfig[]>([]);
+
+/**
+ * Registers the custom endpoints with the LLM manager and keeps their entries in the provider settings in line,
+ * new endpoints start out enabled.
+ */
+export function syncCustomProviders(configs: CustomProviderConfig[]) {
+  const manager = LLMManager.getInstance();
+  manager.setCustomProviders(configs);
+
+  const names = configs.map((config) => config.name);
+  const providerSettings = Object.fromEntries(
+    Object.entries(providersStore.get()).filter(
+      ([name]) => names.includes(name) || !customProvidersStore.get().some((config) => config.name === name),
+    ),
+  );
+
+  for (const name of names) {
+    const provider = manager.getProvider(name);
+
+    if (provider && manager.isCustomProvider(name)) {
+      providerSettings[name] = { ...provider, settings: providerSettings[name]?.settings ?? { enabled: true } };
+    }
+  }
+
+  customProvidersStore.set(configs);
+  providersStore.set(providerSettings);
+}
@@ -1,13 +1,15 @@
 import { atom, map, type MapStore, type ReadableAtom, type WritableAtom } from 'nanostores';
 import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
-import { ActionRunner } from '~/lib/runtime/action-runner';
+import { ActionRunner, isGraphAction } from '~/lib/runtime/action-runner';
+import { DEFAULT_TEST_COMMAND, formatTestReport } from '~/lib/runtime/test-report';
 import type { ActionCallbackData, ArtifactCallbackData } from '~/lib/runtime/message-parser';
 import { webcontainer } from '~/lib/webcontainer';
 import type { ITerminal } from '~/types/terminal';
 import { unreachable } from '~/utils/unreachable';
 import { EditorStore } from './editor';
-import { FilesStore, type FileMap } from './files';
+import { decodeBinaryContent, FilesStore, type FileMap } from './files';
 import { PreviewsStore } from './previews';
+import { autoRollbackStore, commandPolicyStore, shellExecutionSettingsStore } from './settings';
 import { TerminalStore } from './terminal';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
@@ -17,7 +19,7 @@ import { extractRelativePath } from '~/utils/diff';
 import { description } from '~/lib/persistence';
 import Cookies from 'js-cookie';
 import { createSampler } from '~/utils/sampler';
-import type { ActionAlert } from '~/types/actions';
+import type { ActionAlert, BoltAction } from '~/types/actions';
 
 export interface ArtifactState {
   id: string;
@@ -25,9 +27,10 @@ export interface ArtifactState {
   type?: string;
   closed: boolean;
   runner: ActionRunner;
+  rolledBack: boolean;
 }
 
-export type ArtifactUpdateState = Pick<ArtifactState, 'title' | 'closed'>;
+export type ArtifactUpdateState = Pick<ArtifactState, 'title' | 'closed' | 'rolledBack'>;
 
 type Artifacts = MapStore<Record<string, ArtifactState>>;
 
@@ -40,6 +43,7 @@ export class WorkbenchStore {
   #terminalStore = new TerminalStore(webcontainer);
 
   #reloadedMessages = new Set<string>();
+  #reportedTests = new Set<string>();
 
   artifacts: Artifacts = import.meta.hot?.data.artifacts ?? map({});
 
@@ -241,6 +245,27 @@ export class WorkbenchStore {
     this.#filesStore.resetFileModifications();
   }
 
+  /**
+   * Results of the test actions that finished since the last message, so the model learns which tests fail.
+   */
+  getTestResults() {
+    const results: string[] = [];
+
+    for (const [key, command, report] of this.#getTestReports()) {
+      if (!this.#reportedTests.has(key)) {
+        results.push(formatTestReport(command, report));
+      }
+    }
+
+    return results.length > 0 ? results.join('\n\n') : undefined;
+  }
+
+  resetTestResults() {
+    for (const [key] of this.#getTestReports()) {
+      this.#reportedTests.add(key);
+    }
+  }
+
   abortAllActions() {
     // TODO: what do we wanna do and how do we wanna recover from this?
   }
@@ -265,16 +290,21 @@ export class WorkbenchStore {
       title,
       closed: false,
       type,
+      rolledBack: false,
       runner: new ActionRunner(
         webcontainer,
+        this.#filesStore,
         () => this.boltTerminal,
         (alert) => {
           if (this.#reloadedMessages.has(messageId)) {
             return;
           }
 
-          this.actionAlert.set(alert);
+          this.actionAlert.set({ ...alert, messageId });
         },
+        () => shellExecutionSettingsStore.get(),
+        () => commandPolicyStore.get(),
+        (port, signal) => this.#previewsStore.waitForPort(port, signal),
       ),
     });
   }
@@ -287,6 +317,52 @@ export class WorkbenchStore {
     }
 
     this.artifacts.setKey(messageId, { ...artifact, ...state });
+
+    if (state.closed && !artifact.closed && !this.#reloadedMessages.has(messageId)) {
+      this.addToExecutionQueue(() => this.#rollbackIfFailed(messageId));
+    }
+  }
+
+  async rollbackArtifact(messageId: string) {
+    const artifact = this.#getArtifact(messageId);
+
+    if (!artifact || artifact.rolledBack) {
+      return;
+    }
+
+    const wc = await webcontainer;
+    const paths = getAffectedPaths(Object.values(artifact.runner.actions.get())).map((path) =>
+      nodePath.join(wc.workdir, path),
+    );
+
+    const { snapshot } = artifact.runner;
+
+    await this.#filesStore.restoreSnapshot(snapshot, paths);
+
+    for (const path of paths) {
+      // restored files keep their selection, files the artifact created are gone
+      this.#forgetPath(path, snapshot[path] ? path : undefined);
+    }
+
+    this.updateArtifact({ messageId, id: artifact.id, title: artifact.title }, { rolledBack: true });
+  }
+
+  async #rollbackIfFailed(messageId: string) {
+    const artifact = this.#getArtifact(messageId);
+
+    if (!artifact || !autoRollbackStore.get()) {
+      return;
+    }
+
+    await artifact.runner.settled();
+
+    const failed = Object.values(artifact.runner.actions.get()).some(
+      (action) => action.status === 'failed' && action.type !== 'start',
+    );
+
+    if (failed) {
+      await this.rollbackArtifact(messageId);
+    }
   }
   addAction(data: ActionCallbackData) {
     // this._addAction(data);
@@ -342,17 +418,59 @@ export class WorkbenchStore {
       const doc = this.#editorStore.documents.get()[fullPath];
 
       if (!doc) {
-        await artifact.runner.runAction(data, isStreaming);
+        await this.#awaitExecution(data, artifact.runner.runAction(data, isStreaming));
       }
 
       this.#editorStore.updateFile(fullPath, data.action.content);
 
       if (!isStreaming) {
-        await artifact.runner.runAction(data);
-        this.resetAllFileModifications();
+        await this.#awaitExecution(
+          data,
+          artifact.runner.runAction(data).then(() => this.resetAllFileModifications()),
+        );
       }
+    } else if (data.action.type === 'delete' || data.action.type === 'move') {
+      const wc = await webcontainer;
+      const fullPath = nodePath.join(wc.workdir, data.action.filePath);
+      const newFullPath = data.action.type === 'move' ? nodePath.join(wc.workdir, data.action.newFilePath) : undefined;
+
+      await this.#awaitExecution(
+        data,
+        artifact.runner.runAction(data).then(() => this.#forgetPath(fullPath, newFullPath)),
+      );
     } else {
-      await artifact.runner.runAction(data);
+      await this.#awaitExecution(data, artifact.runner.runAction(data));
+    }
+  }
+
+  /**
+   * Actions with an `id` or `dependsOn` are ordered by the runner's dependency graph, so we don't hold
+   * the global queue while they run and independent branches can execute side by side.
+   */
+  async #awaitExecution(data: ActionCallbackData, execution: Promise<void>) {
+    if (isGraphAction(data.action)) {
+      return;
+    }
+
+    await execution;
+  }
+
+  /**
+   * Drops unsaved state for a path that no longer exists and moves the selection along with it.
+   */
+  #forgetPath(filePath: string, newFilePath?: string) {
+    const isAffected = (path: string) => path === filePath || path.startsWith(`${filePath}/`);
+
+    const unsavedFiles = this.unsavedFiles.get();
+
+    if ([...unsavedFiles].some(isAffected)) {
+      this.unsavedFiles.set(new Set([...unsavedFiles].filter((path) => !isAffected(path))));
+    }
+
+    const selectedFile = this.selectedFile.get();
+
+    if (selectedFile && isAffected(selectedFile)) {
+      this.setSelectedFile(newFilePath ? `${newFilePath}${selectedFile.slice(filePath.length)}` : undefined);
     }
   }
 
@@ -360,6 +478,16 @@ export class WorkbenchStore {
     return await this._runAction(data, isStreaming);
   }, 100); // TODO: remove this magic number to have it configurable
 
+  *#getTestReports() {
+    for (const [messageId, artifact] of Object.entries(this.artifacts.get())) {
+      for (const [actionId, action] of Object.entries(artifact.runner.actions.get())) {
+        if (action.type === 'test' && action.testReport) {
+          yield [`${messageId}:${actionId}`, action.content.trim() || DEFAULT_TEST_COMMAND, action.testReport] as const;
+        }
+      }
+    }
+  }
+
   #getArtifact(id: string) {
     const artifacts = this.artifacts.get();
     return artifacts[id];
@@ -377,7 +505,7 @@ export class WorkbenchStore {
     const uniqueProjectName = `${projectName}_${timestampHash}`;
 
     for (const [filePath, dirent] of Object.entries(files)) {
-      if (dirent?.type === 'file' && !dirent.isBinary) {
+      if (dirent?.type === 'file') {
         const relativePath = extractRelativePath(filePath);
 
         // split the path into segments
@@ -390,10 +518,10 @@ export class WorkbenchStore {
           for (let i = 0; i < pathSegments.length - 1; i++) {
             currentFolder = currentFolder.folder(pathSegments[i])!;
           }
-          currentFolder.file(pathSegments[pathSegments.length - 1], dirent.content);
+          currentFolder.file(pathSegments[pathSegments.length - 1], dirent.content, { base64: dirent.isBinary });
         } else {
           // if there's only one segment, it's a file in the root
-          zip.file(relativePath, dirent.content);
+          zip.file(relativePath, dirent.content, { base64: dirent.isBinary });
         }
       }
     }
@@ -408,7 +536,7 @@ export class WorkbenchStore {
     const syncedFiles = [];
 
     for (const [filePath, dirent] of Object.entries(files)) {
-      if (dirent?.type === 'file' && !dirent.isBinary) {
+      if (dirent?.type === 'file') {
         const relativePath = extractRelativePath(filePath);
         const pathSegments = relativePath.split('/');
         let currentHandle = targetHandle;
@@ -424,7 +552,7 @@ export class WorkbenchStore {
 
         // write the file content
         const writable = await fileHandle.createWritable();
-        await writable.write(dirent.content);
+        await writable.write(dirent.isBinary ? decodeBinaryContent(dirent.content) : dirent.content);
         await writable.close();
 
         syncedFiles.push(relativePath);
@@ -482,7 +610,7 @@ export class WorkbenchStore {
             const { data: blob } = await octokit.git.createBlob({
               owner: repo.owner.login,
               repo: repo.name,
-              content: Buffer.from(dirent.content).toString('base64'),
+              content: dirent.isBinary ? dirent.content : Buffer.from(dirent.content).toString('base64'),
               encoding: 'base64',
             });
             return { path: extractRelativePath(filePath), sha: blob.sha };
@@ -544,4 +672,30 @@ export class WorkbenchStore {
   }
 }
 
+/**
+ * Paths relative to the work dir that the file-system actions of an artifact write, move or delete.
+ */
+function getAffectedPaths(actions: BoltAction[]) {
+  const paths = new Set<string>();
+
+  for (const action of actions) {
+    switch (action.type) {
+      case 'move': {
+        paths.add(action.filePath);
+        paths.add(action.newFilePath);
+        break;
+      }
+      case 'file':
+      case 'patch':
+      case 'delete':
+      case 'mkdir': {
+        paths.add(action.filePath);
+        break;
+      }
+    }
+  }
+
+  return [...paths];
+}
+
 export const workbenchStore = new WorkbenchStore();
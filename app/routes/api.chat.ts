@@ -1,10 +1,19 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import { createDataStream } from 'ai';
+import { parseCookies } from '~/lib/.server/cookies';
 import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS } from '~/lib/.server/llm/constants';
 import { CONTINUE_PROMPT } from '~/lib/common/prompts/prompts';
 import { streamText, type Messages, type StreamingOptions } from '~/lib/.server/llm/stream-text';
 import SwitchableStream from '~/lib/.server/llm/switchable-stream';
-import type { IProviderSetting } from '~/types/model';
+import type {
+  CustomProviderConfig,
+  GenerationParameters,
+  IProviderSetting,
+  ModelFallback,
+  RespondingModel,
+} from '~/types/model';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { ContextAllocation } from '~/types/context';
 import { createScopedLogger } from '~/utils/logger';
 
 export async function action(args: ActionFunctionArgs) {
@@ -13,36 +22,23 @@ export async function action(args: ActionFunctionArgs) {
 
 const logger = createScopedLogger('api.chat');
 
-function parseCookies(cookieHeader: string): Record<string, string> {
-  const cookies: Record<string, string> = {};
-
-  const items = cookieHeader.split(';').map((cookie) => cookie.trim());
-
-  items.forEach((item) => {
-    const [name, ...rest] = item.split('=');
-
-    if (name && rest) {
-      const decodedName = decodeURIComponent(name.trim());
-      const decodedValue = decodeURIComponent(rest.join('=').trim());
-      cookies[decodedName] = decodedValue;
-    }
-  });
-
-  return cookies;
-}
-
 async function chatAction({ context, request }: ActionFunctionArgs) {
-  const { messages, files, promptId, contextOptimization } = await request.json<{
+  const { messages, files, promptId, contextOptimization, toolCalling } = await request.json<{
     messages: Messages;
     files: any;
     promptId?: string;
     contextOptimization: boolean;
+    toolCalling?: boolean;
   }>();
 
-  const cookieHeader = request.headers.get('Cookie');
-  const apiKeys = JSON.parse(parseCookies(cookieHeader || '').apiKeys || '{}');
-  const providerSettings: Record<string, IProviderSetting> = JSON.parse(
-    parseCookies(cookieHeader || '').providers || '{}',
+  const cookies = parseCookies(request.headers.get('Cookie'));
+  const apiKeys = JSON.parse(cookies.apiKeys || '{}');
+  const providerSettings: Record<string, IProviderSetting> = JSON.parse(cookies.providers || '{}');
+  const fallbackModels: ModelFallback[] = JSON.parse(cookies.fallbackModels || '[]');
+  const generationParameters: Record<string, GenerationParameters> = JSON.parse(cookies.generationParameters || '{}');
+
+  const customProviders = LLMManager.getInstance().createCustomProviders(
+    JSON.parse(cookies.customProviders || '[]') as CustomProviderConfig[],
   );
 
   const stream = new SwitchableStream();
@@ -53,9 +49,19 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
     totalTokens: 0,
   };
 
+  let respondingModel: RespondingModel | undefined;
+  const onModelSelected = (model: RespondingModel) => {
+    respondingModel = model;
+  };
+
+  let contextAllocation: ContextAllocation | undefined;
+  const onContextAllocated = (allocation: ContextAllocation) => {
+    contextAllocation = allocation;
+  };
+
   try {
     const options: StreamingOptions = {
-      toolChoice: 'none',
+      toolChoice: toolCalling ? 'auto' : 'none',
       onFinish: async ({ text: content, finishReason, usage }) => {
         logger.debug('usage', JSON.stringify(usage));
 
@@ -77,6 +83,14 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
                   totalTokens: cumulativeUsage.totalTokens,
                 },
               });
+
+              if (respondingModel) {
+                dataStream.writeMessageAnnotation({ type: 'model', value: { ...respondingModel } });
+              }
+
+              if (contextAllocation) {
+                dataStream.writeMessageAnnotation({ type: 'contextAllocation', value: { ...contextAllocation } });
+              }
             },
             onError: (error: any) => `Custom error: ${error.message}`,
           }).pipeThrough(
@@ -113,8 +127,14 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
           apiKeys,
           files,
           providerSettings,
+          customProviders,
           promptId,
           contextOptimization,
+          toolCalling,
+          fallbackModels,
+          generationParameters,
+          onModelSelected,
+          onContextAllocated,
         });
 
         stream.switchSource(result.toDataStream());
@@ -132,8 +152,14 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
       apiKeys,
       files,
       providerSettings,
+      customProviders,
       promptId,
       contextOptimization,
+      toolCalling,
+      fallbackModels,
+      generationParameters,
+      onModelSelected,
+      onContextAllocated,
     });
 
     (async () => {
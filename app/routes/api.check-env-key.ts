@@ -5,7 +5,7 @@ export const loader: LoaderFunction = async ({ context, request }) => {
   const url = new URL(request.url);
   const provider = url.searchParams.get('provider');
 
-  if (!provider || !providerBaseUrlEnvKeys[provider].apiTokenKey) {
+  if (!provider || !providerBaseUrlEnvKeys[provider]?.apiTokenKey) {
     return Response.json({ isSet: false });
   }
 
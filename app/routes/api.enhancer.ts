@@ -1,34 +1,16 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 
 //import { StreamingTextResponse, parseStreamPart } from 'ai';
+import { parseCookies } from '~/lib/.server/cookies';
 import { streamText } from '~/lib/.server/llm/stream-text';
 import { stripIndents } from '~/utils/stripIndent';
-import type { IProviderSetting, ProviderInfo } from '~/types/model';
+import type { CustomProviderConfig, IProviderSetting, ProviderInfo } from '~/types/model';
+import { LLMManager } from '~/lib/modules/llm/manager';
 
 export async function action(args: ActionFunctionArgs) {
   return enhancerAction(args);
 }
 
-function parseCookies(cookieHeader: string) {
-  const cookies: any = {};
-
-  // Split the cookie string by semicolons and spaces
-  const items = cookieHeader.split(';').map((cookie) => cookie.trim());
-
-  items.forEach((item) => {
-    const [name, ...rest] = item.split('=');
-
-    if (name && rest) {
-      // Decode the name and value, and join value parts in case it contains '='
-      const decodedName = decodeURIComponent(name.trim());
-      const decodedValue = decodeURIComponent(rest.join('=').trim());
-      cookies[decodedName] = decodedValue;
-    }
-  });
-
-  return cookies;
-}
-
 async function enhancerAction({ context, request }: ActionFunctionArgs) {
   const { message, model, provider } = await request.json<{
     message: string;
@@ -54,12 +36,13 @@ async function enhancerAction({ context, request }: ActionFunctionArgs) {
     });
   }
 
-  const cookieHeader = request.headers.get('Cookie');
+  const cookies = parseCookies(request.headers.get('Cookie'));
+
+  const apiKeys = JSON.parse(cookies.apiKeys || '{}');
+  const providerSettings: Record<string, IProviderSetting> = JSON.parse(cookies.providers || '{}');
 
-  // Parse the cookie's value (returns an object or null if no cookie exists)
-  const apiKeys = JSON.parse(parseCookies(cookieHeader || '').apiKeys || '{}');
-  const providerSettings: Record<string, IProviderSetting> = JSON.parse(
-    parseCookies(cookieHeader || '').providers || '{}',
+  const customProviders = LLMManager.getInstance().createCustomProviders(
+    JSON.parse(cookies.customProviders || '[]') as CustomProviderConfig[],
   );
 
   try {
@@ -102,6 +85,7 @@ async function enhancerAction({ context, request }: ActionFunctionArgs) {
       env: context.cloudflare.env,
       apiKeys,
       providerSettings,
+      customProviders,
     });
 
     return new Response(result.textStream, {
@@ -0,0 +1,29 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { parseCookies } from '~/lib/.server/cookies';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import { KeyPool, type ProviderKeyStatus } from '~/lib/modules/llm/key-pool';
+import type { CustomProviderConfig } from '~/types/model';
+
+/**
+ * Whether every provider has a key and the state of its keys in the pool, keyed by provider. The keys stay on
+ * the server, the caller only learns how many there are.
+ */
+export async function loader({ context, request }: LoaderFunctionArgs) {
+  const cookies = parseCookies(request.headers.get('Cookie'));
+  const apiKeys: Record<string, string> = JSON.parse(cookies.apiKeys || '{}');
+  const customProviders: CustomProviderConfig[] = JSON.parse(cookies.customProviders || '[]');
+  const serverEnv = context.cloudflare?.env as unknown as Record<string, string> | undefined;
+
+  const manager = LLMManager.getInstance();
+
+  const pool = KeyPool.getInstance();
+  const status: Record<string, ProviderKeyStatus> = {};
+
+  for (const provider of manager.getAllProviders(manager.createCustomProviders(customProviders))) {
+    const keys = provider.getApiKeys({ apiKeys, serverEnv });
+
+    status[provider.name] = { set: keys.length > 0, keys: pool.getStatus(provider.name, keys) };
+  }
+
+  return json(status);
+}
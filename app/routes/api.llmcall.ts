@@ -1,36 +1,17 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 
 //import { StreamingTextResponse, parseStreamPart } from 'ai';
+import { parseCookies } from '~/lib/.server/cookies';
 import { streamText } from '~/lib/.server/llm/stream-text';
-import type { IProviderSetting, ProviderInfo } from '~/types/model';
+import type { CustomProviderConfig, IProviderSetting, ProviderInfo } from '~/types/model';
 import { generateText } from 'ai';
-import { getModelList, PROVIDER_LIST } from '~/utils/constants';
+import { LLMManager } from '~/lib/modules/llm/manager';
 import { MAX_TOKENS } from '~/lib/.server/llm/constants';
 
 export async function action(args: ActionFunctionArgs) {
   return llmCallAction(args);
 }
 
-function parseCookies(cookieHeader: string) {
-  const cookies: any = {};
-
-  // Split the cookie string by semicolons and spaces
-  const items = cookieHeader.split(';').map((cookie) => cookie.trim());
-
-  items.forEach((item) => {
-    const [name, ...rest] = item.split('=');
-
-    if (name && rest) {
-      // Decode the name and value, and join value parts in case it contains '='
-      const decodedName = decodeURIComponent(name.trim());
-      const decodedValue = decodeURIComponent(rest.join('=').trim());
-      cookies[decodedName] = decodedValue;
-    }
-  });
-
-  return cookies;
-}
-
 async function llmCallAction({ context, request }: ActionFunctionArgs) {
   const { system, message, model, provider, streamOutput } = await request.json<{
     system: string;
@@ -57,12 +38,13 @@ async function llmCallAction({ context, request }: ActionFunctionArgs) {
     });
   }
 
-  const cookieHeader = request.headers.get('Cookie');
+  const cookies = parseCookies(request.headers.get('Cookie'));
+
+  const apiKeys = JSON.parse(cookies.apiKeys || '{}');
+  const providerSettings: Record<string, IProviderSetting> = JSON.parse(cookies.providers || '{}');
 
-  // Parse the cookie's value (returns an object or null if no cookie exists)
-  const apiKeys = JSON.parse(parseCookies(cookieHeader || '').apiKeys || '{}');
-  const providerSettings: Record<string, IProviderSetting> = JSON.parse(
-    parseCookies(cookieHeader || '').providers || '{}',
+  const customProviders = LLMManager.getInstance().createCustomProviders(
+    JSON.parse(cookies.customProviders || '[]') as CustomProviderConfig[],
   );
 
   if (streamOutput) {
@@ -80,6 +62,7 @@ async function llmCallAction({ context, request }: ActionFunctionArgs) {
         env: context.cloudflare.env,
         apiKeys,
         providerSettings,
+        customProviders,
       });
 
       return new Response(result.textStream, {
@@ -105,7 +88,12 @@ async function llmCallAction({ context, request }: ActionFunctionArgs) {
     }
   } else {
     try {
-      const MODEL_LIST = await getModelList({ apiKeys, providerSettings, serverEnv: context.cloudflare.env as any });
+      const MODEL_LIST = await LLMManager.getInstance().listModels({
+        apiKeys,
+        providerSettings,
+        serverEnv: context.cloudflare.env as any,
+        customProviders,
+      });
       const modelDetails = MODEL_LIST.find((m) => m.name === model);
 
       if (!modelDetails) {
@@ -114,7 +102,7 @@ async function llmCallAction({ context, request }: ActionFunctionArgs) {
 
       const dynamicMaxTokens = modelDetails && modelDetails.maxTokenAllowed ? modelDetails.maxTokenAllowed : MAX_TOKENS;
 
-      const providerInfo = PROVIDER_LIST.find((p) => p.name === provider.name);
+      const providerInfo = LLMManager.getInstance().getProvider(provider.name, customProviders);
 
       if (!providerInfo) {
         throw new Error('Provider not found');
@@ -128,7 +116,7 @@ async function llmCallAction({ context, request }: ActionFunctionArgs) {
             content: `${message}`,
           },
         ],
-        model: providerInfo.getModelInstance({
+        model: LLMManager.getInstance().getModelInstance(providerInfo, {
           model: modelDetails.name,
           serverEnv: context.cloudflare.env as any,
           apiKeys,
@@ -1,6 +1,28 @@
-import { json } from '@remix-run/cloudflare';
-import { MODEL_LIST } from '~/utils/constants';
+import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { parseCookies } from '~/lib/.server/cookies';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { CustomProviderConfig, IProviderSetting } from '~/types/model';
 
-export async function loader() {
-  return json(MODEL_LIST);
+/**
+ * The static models and the dynamic models listed with the caller's keys and settings. `?refresh` lists the
+ * dynamic models again instead of using the cached lists.
+ */
+export async function loader({ context, request }: LoaderFunctionArgs) {
+  const cookies = parseCookies(request.headers.get('Cookie'));
+  const apiKeys: Record<string, string> = JSON.parse(cookies.apiKeys || '{}');
+  const providerSettings: Record<string, IProviderSetting> = JSON.parse(cookies.providers || '{}');
+  const customProviders: CustomProviderConfig[] = JSON.parse(cookies.customProviders || '[]');
+  const serverEnv = context.cloudflare?.env as unknown as Record<string, string> | undefined;
+
+  const manager = LLMManager.getInstance();
+
+  const modelList = await manager.listModels({
+    apiKeys,
+    providerSettings,
+    serverEnv,
+    refresh: new URL(request.url).searchParams.has('refresh'),
+    customProviders: manager.createCustomProviders(customProviders),
+  });
+
+  return json(modelList);
 }
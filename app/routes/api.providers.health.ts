@@ -0,0 +1,30 @@
+import { json, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { parseCookies } from '~/lib/.server/cookies';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { CustomProviderConfig, IProviderSetting } from '~/types/model';
+
+/**
+ * Checks the enabled providers with the caller's keys and settings. `?provider=` limits the check to the
+ * given providers, it can be repeated.
+ */
+export async function loader({ context, request }: LoaderFunctionArgs) {
+  const cookies = parseCookies(request.headers.get('Cookie'));
+  const apiKeys: Record<string, string> = JSON.parse(cookies.apiKeys || '{}');
+  const providerSettings: Record<string, IProviderSetting> = JSON.parse(cookies.providers || '{}');
+  const customProviders: CustomProviderConfig[] = JSON.parse(cookies.customProviders || '[]');
+  const serverEnv = context.cloudflare?.env as unknown as Record<string, string> | undefined;
+
+  const manager = LLMManager.getInstance();
+
+  const requested = new URL(request.url).searchParams.getAll('provider');
+  const providers = manager
+    .getAllProviders(manager.createCustomProviders(customProviders))
+    .filter((provider) => providerSettings[provider.name]?.enabled !== false)
+    .filter((provider) => requested.length === 0 || requested.includes(provider.name));
+
+  const health = await Promise.all(
+    providers.map((provider) => provider.checkHealth({ apiKeys, providerSettings, serverEnv })),
+  );
+
+  return json(health);
+}
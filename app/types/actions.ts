@@ -1,23 +1,106 @@
-export type ActionType = 'file' | 'shell';
+export type ActionType = 'file' | 'shell' | 'start' | 'test' | 'patch' | 'delete' | 'move' | 'mkdir';
 
 export interface BaseAction {
   content: string;
+
+  /**
+   * Optional identifier other actions of the same artifact can reference in `dependsOn`.
+   */
+  id?: string;
+
+  /**
+   * Identifiers of the actions that have to complete before this one runs. Actions that declare
+   * neither `id` nor `dependsOn` run strictly in order.
+   */
+  dependsOn?: string[];
 }
 
+export type FileEncoding = 'utf8' | 'base64';
+
 export interface FileAction extends BaseAction {
   type: 'file';
   filePath: string;
+
+  /**
+   * `base64` for binary files like images or fonts, the content is decoded before it's written.
+   */
+  encoding?: FileEncoding;
+}
+
+export interface CommandExecutionPolicy {
+  /**
+   * Seconds after which the command gets interrupted, `0` disables the timeout.
+   */
+  timeout?: number;
+
+  /**
+   * How many times a failed or timed out command is run again.
+   */
+  retries?: number;
 }
 
-export interface ShellAction extends BaseAction {
+export interface ShellAction extends BaseAction, CommandExecutionPolicy {
   type: 'shell';
 }
 
-export interface StartAction extends BaseAction {
+export interface StartAction extends BaseAction, CommandExecutionPolicy {
   type: 'start';
+
+  /**
+   * Port the dev server listens on, any port that opens counts as ready if it's missing.
+   */
+  port?: number;
+
+  /**
+   * Regular expression for the terminal output that signals the dev server is ready.
+   */
+  readyPattern?: string;
+}
+
+export type TestFramework = 'vitest' | 'jest';
+
+/**
+ * Runs the test command from the content (`npm test` if it's empty) and parses the JSON report of the framework.
+ */
+export interface TestAction extends BaseAction, CommandExecutionPolicy {
+  type: 'test';
+
+  /**
+   * Only needed if it can't be detected from the command or `package.json`.
+   */
+  framework?: TestFramework;
+}
+
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
+export interface DeleteAction extends BaseAction {
+  type: 'delete';
+  filePath: string;
+}
+
+export interface MoveAction extends BaseAction {
+  type: 'move';
+  filePath: string;
+  newFilePath: string;
+}
+
+export interface MkdirAction extends BaseAction {
+  type: 'mkdir';
+  filePath: string;
 }
 
-export type BoltAction = FileAction | ShellAction | StartAction;
+export type BoltAction =
+  | FileAction
+  | ShellAction
+  | StartAction
+  | TestAction
+  | PatchAction
+  | DeleteAction
+  | MoveAction
+  | MkdirAction;
 
 export type BoltActionData = BoltAction | BaseAction;
 
@@ -27,4 +110,6 @@ export interface ActionAlert {
   description: string;
   content: string;
   source?: 'terminal' | 'preview'; // Add source to differentiate between terminal and preview errors
+  actionType?: BoltAction['type'];
+  messageId?: string;
 }
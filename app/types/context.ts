@@ -0,0 +1,19 @@
+export type ContextSection = {
+  tokens: number;
+  included: number;
+  omitted: number;
+};
+
+/**
+ * How the context window of the model was split up for a request, the token counts are estimates.
+ */
+export type ContextAllocation = {
+  provider: string;
+  model: string;
+  contextWindow: number;
+  outputTokens: number;
+  systemPromptTokens: number;
+  files: ContextSection;
+  history: ContextSection & { summarized: boolean };
+  totalTokens: number;
+};
@@ -22,3 +22,91 @@ export interface IProviderSetting {
 export type IProviderConfig = ProviderInfo & {
   settings: IProviderSetting;
 };
+
+export interface ModelFallback {
+  provider: string;
+  model: string;
+}
+
+export interface RespondingModel extends ModelFallback {
+  isFallback: boolean;
+}
+
+/**
+ * An OpenAI-compatible endpoint added in the settings, its API key is stored with the other keys.
+ */
+export interface CustomProviderConfig {
+  name: string;
+  baseUrl: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A white-label identity put in front of other providers' models. The texts can use `{name}`, `{model}`,
+ * `{company}`, `{description}` and `{details}`, which are filled in for the model in use.
+ */
+export interface PersonaConfig {
+  name: string;
+  company?: string;
+  icon?: string;
+
+  /**
+   * Put in front of the system prompt of every request.
+   */
+  preamble?: string;
+  models: PersonaModel[];
+
+  /**
+   * Checked in order against the last user message, the first rule with a matching pattern tells the model
+   * how to answer.
+   */
+  identity?: PersonaIdentityRule[];
+}
+
+export interface PersonaModel {
+  /**
+   * The alias shown in the model selector.
+   */
+  name: string;
+  label?: string;
+  description?: string;
+  details?: string;
+  upstream: ModelFallback;
+  maxTokenAllowed?: number;
+  contextWindow?: number;
+  vision?: boolean;
+  toolUse?: boolean;
+}
+
+export interface PersonaIdentityRule {
+  /**
+   * Case-insensitive regular expressions.
+   */
+  patterns: string[];
+  response: string;
+}
+
+/**
+ * Sampling settings and provider-specific options for a provider or a single model, unset values are left to
+ * the provider.
+ */
+export interface GenerationParameters {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stopSequences?: string[];
+
+  /**
+   * For OpenAI reasoning models.
+   */
+  reasoningEffort?: 'low' | 'medium' | 'high';
+
+  /**
+   * For Anthropic, caches the system prompt between requests.
+   */
+  promptCaching?: boolean;
+}
+
+export type GenerationParameterName = keyof GenerationParameters;
@@ -2,11 +2,14 @@ import type { IProviderSetting } from '~/types/model';
 
 import { LLMManager } from '~/lib/modules/llm/manager';
 import type { ModelInfo } from '~/lib/modules/llm/types';
+import { loadModelList } from '~/lib/persistence/model-cache';
 import type { Template } from '~/types/template';
 
 export const WORK_DIR_NAME = 'project';
 export const WORK_DIR = `/home/${WORK_DIR_NAME}`;
 export const MODIFICATIONS_TAG_NAME = 'bolt_file_modifications';
+export const TEST_RESULTS_TAG_NAME = 'bolt_test_results';
+export const TEST_RESULTS_REGEX = new RegExp(`<${TEST_RESULTS_TAG_NAME}>[\\s\\S]*?<\\/${TEST_RESULTS_TAG_NAME}>\\s*`);
 export const MODEL_REGEX = /^\[Model: (.*?)\]\n\n/;
 export const PROVIDER_REGEX = /\[Provider: (.*?)\]\n\n/;
 export const DEFAULT_MODEL = 'claude-3-5-sonnet-latest';
@@ -32,21 +35,26 @@ export async function getModelList(options: {
   apiKeys?: Record<string, string>;
   providerSettings?: Record<string, IProviderSetting>;
   serverEnv?: Record<string, string>;
+  refresh?: boolean;
 }) {
   return await llmManager.updateModelList(options);
 }
 
+/**
+ * In the browser the list comes from `api.models` and is cached in IndexedDB, the keys and settings are sent
+ * along in the cookies.
+ */
 async function initializeModelList(options: {
   env?: Record<string, string>;
   providerSettings?: Record<string, IProviderSetting>;
   apiKeys?: Record<string, string>;
+  refresh?: boolean;
 }): Promise<ModelInfo[]> {
-  const { providerSettings, apiKeys, env } = options;
-  const list = await getModelList({
-    apiKeys,
-    providerSettings,
-    serverEnv: env,
-  });
+  const { providerSettings, apiKeys, env, refresh } = options;
+  const list =
+    typeof window === 'undefined'
+      ? await getModelList({ apiKeys, providerSettings, serverEnv: env, refresh })
+      : await loadModelList({ refresh });
   MODEL_LIST = list || MODEL_LIST;
 
   return list;
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { extractRelativePath } from './diff';
+import { applyUnifiedDiff, diffFiles, extractRelativePath, PatchApplyError } from './diff';
 import { WORK_DIR } from './constants';
 
 describe('Diff', () => {
@@ -9,3 +9,56 @@ describe('Diff', () => {
     expect(result).toBe('index.js');
   });
 });
+
+describe('applyUnifiedDiff', () => {
+  const original = ['function add(a, b) {', '  return a + b;', '}', '', "console.log('Hello, World!');", ''].join('\n');
+
+  it('should apply a diff produced by diffFiles', () => {
+    const updated = original.replace('Hello, World!', 'Hello, Val-X!');
+    const patch = diffFiles('index.js', original, updated)!;
+
+    expect(applyUnifiedDiff(original, patch)).toBe(updated);
+  });
+
+  it('should locate hunks with wrong line numbers', () => {
+    const patch = ['@@ -40,3 +40,3 @@', ' }', ' ', "-console.log('Hello, World!');", "+console.log('Bye!');"].join(
+      '\n',
+    );
+
+    expect(applyUnifiedDiff(original, patch)).toBe(original.replace('Hello, World!', 'Bye!'));
+  });
+
+  it('should match context lines ignoring whitespace and keep the original lines', () => {
+    const patch = ['@@ -1,3 +1,3 @@', ' function add(a, b) {', '-return a + b;', '+  return a + b + 1;', '}'].join(
+      '\n',
+    );
+
+    expect(applyUnifiedDiff(original, patch)).toBe(original.replace('a + b;', 'a + b + 1;'));
+  });
+
+  it('should apply multiple hunks', () => {
+    const patch = [
+      '@@ -1,2 +1,2 @@',
+      '-function add(a, b) {',
+      '+function sum(a, b) {',
+      '   return a + b;',
+      '@@ -5,1 +5,2 @@',
+      " console.log('Hello, World!');",
+      '+console.log(sum(1, 2));',
+    ].join('\n');
+
+    expect(applyUnifiedDiff(original, patch)).toBe(
+      original.replace('function add', 'function sum').replace("World!');", "World!');\nconsole.log(sum(1, 2));"),
+    );
+  });
+
+  it('should throw a PatchApplyError when a hunk does not match', () => {
+    const patch = ['@@ -1,2 +1,2 @@', '-function subtract(a, b) {', '+function minus(a, b) {'].join('\n');
+
+    expect(() => applyUnifiedDiff(original, patch)).toThrow(PatchApplyError);
+  });
+
+  it('should throw a PatchApplyError when there are no hunks', () => {
+    expect(() => applyUnifiedDiff(original, 'not a diff')).toThrow(PatchApplyError);
+  });
+});
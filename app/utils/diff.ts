@@ -75,6 +75,173 @@ export function diffFiles(fileName: string, oldFileContent: string, newFileConte
   return unifiedDiff;
 }
 
+export class PatchApplyError extends Error {
+  readonly hunk?: string;
+
+  constructor(message: string, hunk?: string) {
+    super(message);
+
+    this.hunk = hunk;
+
+    Object.setPrototypeOf(this, PatchApplyError.prototype);
+
+    this.name = 'PatchApplyError';
+  }
+}
+
+interface HunkLine {
+  type: 'context' | 'remove' | 'add';
+  text: string;
+}
+
+interface PatchHunk {
+  header: string;
+  oldStart: number;
+  lines: HunkLine[];
+}
+
+const HUNK_HEADER_REGEX = /^@@\s*-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?\s*@@/;
+
+/**
+ * Parses the hunks of a unified diff. File headers (`---`, `+++`, `diff`, `index`) before the
+ * first hunk are ignored. Hunk line counts are not validated because models frequently get
+ * them wrong, and lines without a marker are treated as context lines.
+ */
+export function parseUnifiedDiff(patch: string) {
+  const hunks: PatchHunk[] = [];
+
+  let currentHunk: PatchHunk | undefined;
+
+  for (const line of patch.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n')) {
+    if (line.startsWith('@@')) {
+      const match = line.match(HUNK_HEADER_REGEX);
+
+      currentHunk = { header: line, oldStart: match ? parseInt(match[1], 10) : 0, lines: [] };
+      hunks.push(currentHunk);
+
+      continue;
+    }
+
+    if (!currentHunk || line.startsWith('\\')) {
+      // skip file headers and "\ No newline at end of file" markers
+      continue;
+    }
+
+    switch (line[0]) {
+      case '-': {
+        currentHunk.lines.push({ type: 'remove', text: line.slice(1) });
+        break;
+      }
+      case '+': {
+        currentHunk.lines.push({ type: 'add', text: line.slice(1) });
+        break;
+      }
+      case ' ': {
+        currentHunk.lines.push({ type: 'context', text: line.slice(1) });
+        break;
+      }
+      default: {
+        currentHunk.lines.push({ type: 'context', text: line });
+      }
+    }
+  }
+
+  return hunks;
+}
+
+type LineComparator = (a: string, b: string) => boolean;
+
+const lineComparators: LineComparator[] = [
+  (a, b) => a === b,
+  (a, b) => a.trimEnd() === b.trimEnd(),
+  (a, b) => a.replace(/\s+/g, '') === b.replace(/\s+/g, ''),
+];
+
+function findHunkIndex(lines: string[], oldLines: string[], expectedIndex: number, minIndex: number) {
+  const maxIndex = lines.length - oldLines.length;
+
+  if (maxIndex < minIndex) {
+    return -1;
+  }
+
+  const start = Math.min(Math.max(expectedIndex, minIndex), maxIndex);
+
+  // try the strictest comparison first and fall back to more lenient whitespace handling
+  for (const compare of lineComparators) {
+    const matchesAt = (index: number) => oldLines.every((oldLine, i) => compare(lines[index + i], oldLine));
+
+    for (let distance = 0; start - distance >= minIndex || start + distance <= maxIndex; distance++) {
+      if (start + distance <= maxIndex && matchesAt(start + distance)) {
+        return start + distance;
+      }
+
+      if (distance > 0 && start - distance >= minIndex && matchesAt(start - distance)) {
+        return start - distance;
+      }
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Applies a unified diff (as produced by `diffFiles`) to the given content. Hunks are matched
+ * fuzzily: the line numbers in the hunk header are only used as a hint and the closest
+ * matching location wins, first comparing lines exactly and then ignoring whitespace.
+ *
+ * @throws {PatchApplyError} if a hunk can't be located in the content.
+ */
+export function applyUnifiedDiff(content: string, patch: string) {
+  const hunks = parseUnifiedDiff(patch);
+
+  if (hunks.length === 0) {
+    throw new PatchApplyError('Patch does not contain any hunks');
+  }
+
+  const lines = content.split('\n');
+
+  let offset = 0;
+  let minIndex = 0;
+
+  for (const hunk of hunks) {
+    const oldLines = hunk.lines.filter((line) => line.type !== 'add').map((line) => line.text);
+
+    // for pure insertions the old start line is the line after which the new lines are inserted
+    const hintIndex = oldLines.length === 0 ? hunk.oldStart : Math.max(hunk.oldStart - 1, 0);
+
+    const index =
+      oldLines.length === 0
+        ? Math.min(Math.max(hintIndex + offset, minIndex), lines.length)
+        : findHunkIndex(lines, oldLines, hintIndex + offset, minIndex);
+
+    if (index === -1) {
+      throw new PatchApplyError(`Hunk "${hunk.header}" does not match the current file content`, hunk.header);
+    }
+
+    const replacement: string[] = [];
+
+    let cursor = index;
+
+    for (const line of hunk.lines) {
+      if (line.type === 'context') {
+        // keep the original line so whitespace-insensitive matches don't rewrite untouched lines
+        replacement.push(lines[cursor++]);
+      } else if (line.type === 'remove') {
+        cursor++;
+      } else {
+        replacement.push(line.text);
+      }
+    }
+
+    lines.splice(index, oldLines.length, ...replacement);
+
+    offset = index + replacement.length - (hintIndex + oldLines.length);
+    minIndex = index + replacement.length;
+  }
+
+  return lines.join('\n');
+}
+
 const regex = new RegExp(`^${WORK_DIR}\/`);
 
 /**
@@ -1,6 +1,7 @@
 import type { Message } from 'ai';
 import { generateId } from './fileUtils';
 import { detectProjectCommands, createCommandsMessage } from './projectCommands';
+import { createFileActionTag } from '~/lib/runtime/message-parser';
 
 export const createChatFromFolder = async (
   files: File[],
@@ -39,13 +40,7 @@ export const createChatFromFolder = async (
     content: `I've imported the contents of the "${folderName}" folder.${binaryFilesMessage}
 
 <boltArtifact id="imported-files" title="Imported Files">
-${fileArtifacts
-  .map(
-    (file) => `<boltAction type="file" filePath="${file.path}">
-${file.content}
-</boltAction>`,
-  )
-  .join('\n\n')}
+${fileArtifacts.map((file) => createFileActionTag(file.path, file.content)).join('\n\n')}
 </boltArtifact>`,
     id: generateId(),
     createdAt: new Date(),
@@ -3,6 +3,7 @@ import type { ProviderInfo } from '~/types/model';
 import type { Template } from '~/types/template';
 import { STARTER_TEMPLATES } from './constants';
 import Cookies from 'js-cookie';
+import { createFileActionTag, escapeAttributeValue } from '~/lib/runtime/message-parser';
 
 const starterTemplateSelectionPrompt = (templates: Template[]) => `
 You are an experienced developer who helps people choose the best starter template for their projects.
@@ -235,15 +236,8 @@ export async function getTemplates(templateName: string, title?: string) {
   }
 
   const assistantMessage = `
-<boltArtifact id="imported-files" title="${title || 'Importing Starter Files'}" type="bundled">
-${filesToImport.files
-  .map(
-    (file) =>
-      `<boltAction type="file" filePath="${file.path}">
-${file.content}
-</boltAction>`,
-  )
-  .join('\n')}
+<boltArtifact id="imported-files" title="${escapeAttributeValue(title || 'Importing Starter Files')}" type="bundled">
+${filesToImport.files.map((file) => createFileActionTag(file.path, file.content)).join('\n')}
 </boltArtifact>
 `;
   let userMessage = ``;
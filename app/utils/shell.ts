@@ -52,7 +52,19 @@ export async function newShellProcess(webcontainer: WebContainer, terminal: ITer
   return process;
 }
 
-export type ExecutionResult = { output: string; exitCode: number } | undefined;
+export type ExecutionResult = { output: string; exitCode: number; timedOut?: boolean } | undefined;
+
+export interface ExecuteCommandOptions {
+  /**
+   * Milliseconds after which the command gets interrupted with `Ctrl+C`.
+   */
+  timeout?: number;
+
+  /**
+   * Called with every chunk of output while the command runs.
+   */
+  onOutput?: (output: string) => void;
+}
 
 export class BoltShell {
   #initialized: (() => void) | undefined;
@@ -95,7 +107,12 @@ export class BoltShell {
     return this.#process;
   }
 
-  async executeCommand(sessionId: string, command: string, abort?: () => void): Promise<ExecutionResult> {
+  async executeCommand(
+    sessionId: string,
+    command: string,
+    abort?: () => void,
+    options: ExecuteCommandOptions = {},
+  ): Promise<ExecutionResult> {
     if (!this.process || !this.terminal) {
       return undefined;
     }
@@ -121,12 +138,28 @@ export class BoltShell {
     this.terminal.input(command.trim() + '\n');
 
     //wait for the execution to finish
-    const executionPromise = this.getCurrentExecutionResult();
+    const executionPromise = this.getCurrentExecutionResult(options.onOutput);
     this.executionState.set({ sessionId, active: true, executionPrms: executionPromise, abort });
 
+    let timedOut = false;
+
+    const timeoutId = options.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+
+          // interrupting makes jsh report the exit code, which settles the execution promise
+          this.terminal?.input('\x03');
+        }, options.timeout)
+      : undefined;
+
     const resp = await executionPromise;
+    clearTimeout(timeoutId);
     this.executionState.set({ sessionId, active: false });
 
+    if (resp && timedOut) {
+      resp.timedOut = true;
+    }
+
     if (resp) {
       try {
         resp.output = cleanTerminalOutput(resp.output);
@@ -189,12 +222,12 @@ export class BoltShell {
     return { process, output: internalOutput };
   }
 
-  async getCurrentExecutionResult(): Promise<ExecutionResult> {
-    const { output, exitCode } = await this.waitTillOscCode('exit');
+  async getCurrentExecutionResult(onOutput?: (output: string) => void): Promise<ExecutionResult> {
+    const { output, exitCode } = await this.waitTillOscCode('exit', onOutput);
     return { output, exitCode };
   }
 
-  async waitTillOscCode(waitCode: string) {
+  async waitTillOscCode(waitCode: string, onOutput?: (output: string) => void) {
     let fullOutput = '';
     let exitCode: number = 0;
 
@@ -213,6 +246,7 @@ export class BoltShell {
 
       const text = value || '';
       fullOutput += text;
+      onOutput?.(text);
 
       // Check if command completion signal with exit code
       const [, osc, , , code] = text.match(/\x1b\]654;([^\x07=]+)=?((-?\d+):(\d+))?\x07/) || [];
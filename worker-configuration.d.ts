@@ -17,4 +17,6 @@ interface Env {
   XAI_API_KEY: string;
   PERPLEXITY_API_KEY: string;
   AWS_BEDROCK_CONFIG: string;
+  MODEL_LIST_TTL?: string;
+  MODEL_CATALOG?: KVNamespace;
 }